@@ -9,37 +9,176 @@ import { Upload, Monitor } from "lucide-react";
 import { PiMouseLeftClickFill } from "react-icons/pi";
 import { FaGithub } from "react-icons/fa";
 
-import { AppSettings } from "@/types";
+import {
+  AppSettings,
+  Behavior,
+  KeypointSchema,
+  Region,
+  HomographyCalibration,
+  IdentitySwap,
+  ScaleCalibration,
+  ShapeDraft,
+  TimeRange,
+  TrackPoint,
+  TrackedObject,
+  VideoMetadata,
+} from "@/types";
 import { TrackerWorkspace } from "@/components/TrackerWorkspace";
 import { HelpDialog } from "@/components/HelpDialog";
 import { UnsavedChangesDialog } from "@/components/UnsavedChangesDialog";
+import { RecoveryDialog } from "@/components/RecoveryDialog";
+import { ObjectsDialog } from "@/components/ObjectsDialog";
+import { TracksDialog } from "@/components/TracksDialog";
+import { RegionsDialog } from "@/components/RegionsDialog";
+import { EthogramDialog } from "@/components/EthogramDialog";
+import { CalibrationDialog } from "@/components/CalibrationDialog";
+import {
+  HomographyDialog,
+  HomographyDraft,
+} from "@/components/HomographyDialog";
+import { AutoTrackingStatus } from "@/components/AutoTrackingStatus";
+import { TimelinePanel } from "@/components/TimelinePanel";
+import { KinematicsPanel } from "@/components/KinematicsPanel";
+import { ImportDialog } from "@/components/ImportDialog";
+import { ImportCheckDialog } from "@/components/ImportCheckDialog";
+import { MergeImportDialog } from "@/components/MergeImportDialog";
+import {
+  ExportDialog,
+  ExportFormat,
+  ExportOptions,
+} from "@/components/ExportDialog";
 import { ControlWidget } from "@/components/ControlWidget";
 import { Key } from "@/components/Key";
 import { useGlobalShortcuts } from "@/hooks/useGlobalShortcuts";
 import { useProjectState } from "@/hooks/useProjectState";
 import { useSmartNavigation } from "@/hooks/useSmartNavigation";
-import { parseCSV, pointsToCSV, isTrackingFrame, getFrameIndex } from "@/utils";
+import { useSessionAutosave } from "@/hooks/useSessionAutosave";
+import { useAutoTracking } from "@/hooks/useAutoTracking";
+import {
+  parseMOT,
+  pointsToCSV,
+  pointsToMOT,
+  ParsedCSV,
+  isTrackingFrame,
+  getFrameIndex,
+  getFrameTime,
+  getPointId,
+  hasLocation,
+  withVisibility,
+  completeObjectTable,
+  getSamplingIntervalFrames,
+  getKeypointSchema,
+  inferKeypointSchemas,
+  toManualPoint,
+  toCalibrated,
+  DEFAULT_SETTINGS,
+} from "@/utils";
 import { getExactFrameRate } from "@/services/mediaAnalysis";
-
-const DEFAULT_SETTINGS: AppSettings = {
-  samplingRateNum: 1,
-  samplingRateDen: 1,
-  trailLength: 5,
-};
+import { saveFile } from "@/services/fileSave";
+import { interpolateTracks } from "@/services/interpolation";
+import {
+  applyHomography,
+  getWorldGridLines,
+  solveHomography,
+} from "@/services/homography";
+import { CoordinateTransform, PIXEL_TRANSFORM } from "@/services/kinematics";
+import { parsePoseCSV, pointsToDLC } from "@/services/poseFormats";
+import { COCODataset, pointsToCOCO } from "@/services/coco";
+import { createFrameSampler, encodePNG } from "@/services/frameSampler";
+import {
+  MAX_ZIP_ENTRIES,
+  ZipEntry,
+  ZipLimitError,
+  createZip,
+} from "@/services/zip";
+import {
+  ImportVideo,
+  hasImportIssues,
+  validateImport,
+} from "@/services/importValidation";
+import { ConflictResolution } from "@/services/importMerge";
+import { codeBehaviorEvent, eventsToBORIS } from "@/services/ethogram";
+import {
+  deleteObjectTrack,
+  mergeObjectTracks,
+  splitObjectTrack,
+} from "@/services/trackOperations";
+import {
+  PROJECT_FILE_EXTENSION,
+  ProjectFileError,
+  parseProject,
+  projectFileToData,
+  serializeProject,
+} from "@/services/projectFile";
+import { StoredSession, getVideoFingerprint } from "@/services/sessionStorage";
+
+// Stable fallbacks for the closed merge dialog
+const EMPTY_POINTS: TrackPoint[] = [];
+const EMPTY_OBJECTS: TrackedObject[] = [];
 
 const App: React.FC = () => {
   // -- State --
   const [videoFile, setVideoFile] = useState<File | null>(null);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
   const [videoFps, setVideoFps] = useState<number>(30); // Default safe 30fps
+  const [videoMeta, setVideoMeta] = useState<VideoMetadata | null>(null);
 
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
   const [currentTime, setCurrentTime] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isHelpOpen, setIsHelpOpen] = useState(false);
   const [isUnsavedDialogOpen, setIsUnsavedDialogOpen] = useState(false);
+  const [isObjectsDialogOpen, setIsObjectsDialogOpen] = useState(false);
+  const [isTracksDialogOpen, setIsTracksDialogOpen] = useState(false);
+  const [isRegionsDialogOpen, setIsRegionsDialogOpen] = useState(false);
+  const [focusRegionId, setFocusRegionId] = useState<number | null>(null);
+  const [isEthogramDialogOpen, setIsEthogramDialogOpen] = useState(false);
+  const [isCalibrationDialogOpen, setIsCalibrationDialogOpen] = useState(false);
+  // Reference line drawn for the calibration dialog, not stored until saved
+  const [calibrationLine, setCalibrationLine] = useState<
+    ScaleCalibration["line"] | null
+  >(null);
+  const [isHomographyDialogOpen, setIsHomographyDialogOpen] = useState(false);
+  const [isKinematicsOpen, setIsKinematicsOpen] = useState(false);
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+  const [exportProgress, setExportProgress] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
+  const exportCancelRef = useRef(false);
+  const [pendingImport, setPendingImport] = useState<{
+    parsed: ParsedCSV;
+    ids: number[];
+  } | null>(null);
+  // Validated import waiting for the merge decision (the project already has points)
+  const [pendingMerge, setPendingMerge] = useState<{
+    parsed: ParsedCSV;
+    objects: TrackedObject[];
+    ids: number[];
+  } | null>(null);
+  const [csvImport, setCSVImport] = useState<{
+    fileName: string;
+    text: string;
+  } | null>(null);
+  // Dialog edits kept while control points are placed on the video
+  const [homographyDraft, setHomographyDraft] =
+    useState<HomographyDraft | null>(null);
+  // Region or calibration line being drawn, null when not drawing
+  const [shapeDraft, setShapeDraft] = useState<ShapeDraft | null>(null);
+  // Objects being picked for an identity swap, null when not swapping
+  const [identitySwap, setIdentitySwap] = useState<IdentitySwap | null>(null);
   const [isSpaceHeld, setIsSpaceHeld] = useState(false);
   const [playbackTrigger, _setPlaybackTrigger] = useState(0);
+  const [suggestion, setSuggestion] = useState<TrackPoint | null>(null);
+  const [isTimelineOpen, setIsTimelineOpen] = useState(true);
+  const [timelineHeight, setTimelineHeight] = useState(0);
+  const [selectedRange, setSelectedRange] = useState<TimeRange | null>(null);
+  // Keypoint picked by hand; only valid on the frame and object it was picked for
+  const [keypointSelection, setKeypointSelection] = useState<{
+    objectId: number;
+    frame: number;
+    index: number;
+  } | null>(null);
 
   // Widget Position State (Absolute Coordinates)
   const [widgetPosition, setWidgetPosition] = useState<{
@@ -52,28 +191,51 @@ const App: React.FC = () => {
   const [isObstructed, setIsObstructed] = useState(false);
   const statusDimensionsRef = useRef({ width: 0, height: 0 });
 
-  // Track what action triggered the unsaved check
-  const [pendingAction, setPendingAction] = useState<"VIDEO" | "CSV" | null>(
-    null,
-  );
+  // Track what action triggered the unsaved check; an import carries the replacement it waits for
+  const [pendingAction, setPendingAction] = useState<
+    { type: "VIDEO" } | { type: "IMPORT"; replace: () => void } | null
+  >(null);
 
   // -- Hooks for Logic Extraction --
   const {
+    project,
     points,
-    setPoints,
     activeObjectId,
     setActiveObjectId,
-    numObjects,
-    setNumObjects,
+    objects,
+    setObjects,
+    addObject,
+    keypointSchemas,
+    setKeypointSchemas,
+    regions,
+    setRegions,
+    calibration,
+    setCalibration,
+    homography,
+    setHomography,
+    behaviors,
+    setBehaviors,
+    events,
+    setEvents,
     isDirty,
     addPoint,
     deletePoint,
+    removePoints,
+    swapIdentities,
+    editTracks,
+    loadProject,
     resetProject,
     markAsClean,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    beginBatch,
+    endBatch,
   } = useProjectState(videoFps);
 
   const videoInputRef = useRef<HTMLInputElement>(null);
-  const csvInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   // -- Global Browser Interaction Handling --
   useEffect(() => {
@@ -109,6 +271,34 @@ const App: React.FC = () => {
     };
   }, []);
 
+  // -- Crash Recovery --
+  const videoFingerprint = useMemo(
+    () =>
+      videoFile && videoMeta
+        ? getVideoFingerprint(videoFile, videoMeta.duration)
+        : null,
+    [videoFile, videoMeta],
+  );
+
+  const handleRestoreSession = useCallback(
+    (session: StoredSession) => {
+      loadProject(session.project);
+      // Sessions from older versions may lack newer settings
+      setSettings({ ...DEFAULT_SETTINGS, ...session.settings });
+      setActiveObjectId(session.activeObjectId);
+    },
+    [loadProject, setActiveObjectId],
+  );
+
+  const { recoverableSession, restoreSession, discardSession, dismissSession } =
+    useSessionAutosave({
+      fingerprint: videoFingerprint,
+      project,
+      settings,
+      activeObjectId,
+      onRestore: handleRestoreSession,
+    });
+
   // -- Derived Values --
   const visiblePoints = useMemo(() => {
     return points.filter((p) =>
@@ -121,20 +311,169 @@ const App: React.FC = () => {
     );
   }, [points, videoFps, settings]);
 
-  const { seekRequest, jumpToPrevious, jumpToNext, jumpToFirst, jumpToFinal } =
-    useSmartNavigation({
-      visiblePoints,
-      activeObjectId,
-      currentTime,
-      isPlaying,
-      settings,
+  // Bounds that imported tracks are checked against
+  const importVideo = useMemo((): ImportVideo | null => {
+    if (!videoMeta || videoFps <= 0) return null;
+    return {
+      width: videoMeta.width,
+      height: videoMeta.height,
+      duration: videoMeta.duration,
       fps: videoFps,
-    });
+      samplingInterval: getSamplingIntervalFrames(
+        videoFps,
+        settings.samplingRateNum,
+        settings.samplingRateDen,
+      ),
+    };
+  }, [videoMeta, videoFps, settings.samplingRateNum, settings.samplingRateDen]);
+
+  // Synthetic points filling the sampling frames between logged keyframes
+  const interpolatedPoints = useMemo(
+    () =>
+      interpolateTracks(
+        visiblePoints,
+        videoFps,
+        getSamplingIntervalFrames(
+          videoFps,
+          settings.samplingRateNum,
+          settings.samplingRateDen,
+        ),
+        settings.interpolation,
+      ),
+    [visiblePoints, videoFps, settings],
+  );
+
+  const displayPoints = useMemo(
+    () =>
+      interpolatedPoints.length > 0
+        ? [...visiblePoints, ...interpolatedPoints]
+        : visiblePoints,
+    [visiblePoints, interpolatedPoints],
+  );
+
+  const {
+    seekRequest,
+    triggerSeek,
+    jumpToPrevious,
+    jumpToNext,
+    jumpToFirst,
+    jumpToFinal,
+    jumpToFlagged,
+  } = useSmartNavigation({
+    visiblePoints,
+    activeObjectId,
+    setActiveObjectId,
+    currentTime,
+    isPlaying,
+    settings,
+    fps: videoFps,
+  });
 
   const currentFrame = useMemo(
     () => getFrameIndex(currentTime, videoFps),
     [currentTime, videoFps],
   );
+  // -- Keypoints --
+  const activeSchema = useMemo(
+    () =>
+      getKeypointSchema(
+        keypointSchemas,
+        objects.find((o) => o.id === activeObjectId),
+      ),
+    [keypointSchemas, objects, activeObjectId],
+  );
+
+  // Keypoints of the active object already logged on the current frame
+  const loggedKeypoints = useMemo(
+    () =>
+      new Set(
+        visiblePoints
+          .filter(
+            (p) =>
+              p.objectId === activeObjectId &&
+              p.keypoint !== undefined &&
+              getFrameIndex(p.timestamp, videoFps) === currentFrame,
+          )
+          .map((p) => p.keypoint),
+      ),
+    [visiblePoints, activeObjectId, currentFrame, videoFps],
+  );
+
+  // Without a manual pick, logging continues with the first missing keypoint
+  const activeKeypointIndex = useMemo(() => {
+    if (!activeSchema) return 0;
+    if (
+      keypointSelection &&
+      keypointSelection.objectId === activeObjectId &&
+      keypointSelection.frame === currentFrame
+    ) {
+      return keypointSelection.index % activeSchema.keypoints.length;
+    }
+    const missing = activeSchema.keypoints.findIndex(
+      (k) => !loggedKeypoints.has(k),
+    );
+    return Math.max(0, missing);
+  }, [
+    activeSchema,
+    keypointSelection,
+    activeObjectId,
+    currentFrame,
+    loggedKeypoints,
+  ]);
+
+  const activeKeypoint = activeSchema?.keypoints[activeKeypointIndex];
+
+  // Location of the active object (or keypoint) on the current frame, if logged
+  const activePosition = useMemo(
+    () =>
+      displayPoints.find(
+        (p) =>
+          p.objectId === activeObjectId &&
+          p.keypoint === activeKeypoint &&
+          getFrameIndex(p.timestamp, videoFps) === currentFrame,
+      ) ?? null,
+    [displayPoints, activeObjectId, activeKeypoint, currentFrame, videoFps],
+  );
+
+  // -- Calibration --
+  const solvedHomography = useMemo(
+    () => (homography ? solveHomography(homography.points) : null),
+    [homography],
+  );
+
+  // Video -> world coordinates; the perspective calibration takes precedence over the scale
+  const worldTransform = useMemo((): CoordinateTransform | null => {
+    if (homography && solvedHomography) {
+      return {
+        unit: homography.unit,
+        project: (p) => applyHomography(solvedHomography.toWorld, p),
+      };
+    }
+    if (calibration) {
+      return {
+        unit: calibration.unit,
+        project: (p) => toCalibrated(p, calibration),
+      };
+    }
+    return null;
+  }, [homography, solvedHomography, calibration]);
+
+  const worldPosition = useMemo(() => {
+    if (!activePosition || !hasLocation(activePosition) || !worldTransform) {
+      return null;
+    }
+    const world = worldTransform.project(activePosition);
+    return world && { ...world, unit: worldTransform.unit };
+  }, [activePosition, worldTransform]);
+
+  const worldGrid = useMemo(
+    () =>
+      settings.showWorldGrid && homography && solvedHomography
+        ? getWorldGridLines(homography, solvedHomography)
+        : null,
+    [settings.showWorldGrid, homography, solvedHomography],
+  );
+
   const isFrameAligned =
     !isPlaying &&
     isTrackingFrame(
@@ -225,65 +564,270 @@ const App: React.FC = () => {
   }, [widgetPosition, checkObstruction]);
 
   const handleExport = useCallback(async () => {
-    const csv = pointsToCSV(points);
+    const csv = pointsToCSV(
+      settings.exportInterpolated ? [...points, ...interpolatedPoints] : points,
+      objects,
+      {
+        keypointSchemas,
+        regions,
+        calibration: settings.exportCalibrated ? calibration : null,
+      },
+    );
     const videoName = videoFile ? videoFile.name.split(".")[0] : "video";
     const fileName = `${videoName}-click_tracks.csv`;
 
-    try {
-      // @ts-ignore - File System Access API
-      if (window.showSaveFilePicker) {
-        try {
-          // @ts-ignore
-          const handle = await window.showSaveFilePicker({
-            suggestedName: fileName,
-            types: [
-              {
-                description: "CSV File",
-                accept: { "text/csv": [".csv"] },
-              },
-            ],
+    // CSV is lossy (e.g. no behaviors or skeletons), so the project stays dirty
+    return saveFile(csv, fileName, {
+      description: "CSV File",
+      mimeType: "text/csv",
+      extension: ".csv",
+    });
+  }, [
+    points,
+    interpolatedPoints,
+    objects,
+    keypointSchemas,
+    regions,
+    calibration,
+    settings.exportInterpolated,
+    settings.exportCalibrated,
+    videoFile,
+  ]);
+
+  const exportOptions = useMemo<ExportOptions>(
+    () => ({
+      motBoxSize: settings.motBoxSize,
+      dlcScorer: settings.dlcScorer,
+      cocoIncludeFrames: settings.cocoIncludeFrames,
+    }),
+    [settings.motBoxSize, settings.dlcScorer, settings.cocoIncludeFrames],
+  );
+
+  const closeExportDialog = useCallback(() => {
+    exportCancelRef.current = true; // Stops a running frame extraction
+    setIsExportDialogOpen(false);
+  }, []);
+
+  // COCO JSON with the annotated frames as PNG images in a ZIP
+  const exportCOCOArchive = useCallback(
+    async (coco: COCODataset, fileName: string) => {
+      if (!videoUrl || !videoMeta) return;
+      // Checked before the slow frame extraction (one more entry for the annotations)
+      if (coco.images.length + 1 > MAX_ZIP_ENTRIES) {
+        alert(
+          `Could not export: ${coco.images.length} frames exceed the ${MAX_ZIP_ENTRIES - 1} a ZIP archive can hold. Export without frames or annotate fewer frames.`,
+        );
+        return;
+      }
+      exportCancelRef.current = false;
+      const sampler = createFrameSampler(videoUrl);
+      const entries: ZipEntry[] = [];
+      try {
+        for (const [i, image] of coco.images.entries()) {
+          if (exportCancelRef.current) return;
+          setExportProgress({ done: i, total: coco.images.length });
+          const pixels = await sampler.grab(
+            getFrameTime(image.frame_index, videoFps),
+            { x: 0, y: 0, width: videoMeta.width, height: videoMeta.height },
+          );
+          const png = await encodePNG(pixels);
+          entries.push({
+            name: `images/${image.file_name}`,
+            data: new Uint8Array(await png.arrayBuffer()),
           });
-          const writable = await handle.createWritable();
-          await writable.write(csv);
-          await writable.close();
-          markAsClean();
-          return true; // Success
-        } catch (err: any) {
-          if (err.name === "AbortError") {
-            return false; // User cancelled
-          }
-          // Handle context restrictions (e.g. iframes) gracefully
-          if (
-            err.name === "SecurityError" ||
-            (err.message && err.message.includes("Cross origin"))
-          ) {
-            console.warn(
-              "File System Access API restricted. Falling back to download.",
-            );
-          } else {
-            console.error("File Save Error:", err);
-          }
-          // Fallback to simple download if API fails unexpectedly or is restricted
         }
+        entries.unshift({
+          name: "annotations.json",
+          data: new TextEncoder().encode(JSON.stringify(coco)),
+        });
+        setIsExportDialogOpen(false);
+        await saveFile(createZip(entries), fileName, {
+          description: "ZIP Archive",
+          mimeType: "application/zip",
+          extension: ".zip",
+        });
+      } catch (err) {
+        if (err instanceof ZipLimitError) {
+          alert(`Could not export: ${err.message}`);
+        } else {
+          console.error("Frame extraction failed:", err);
+        }
+      } finally {
+        sampler.dispose();
+        setExportProgress(null);
       }
+    },
+    [videoUrl, videoMeta, videoFps],
+  );
 
-      // Fallback
-      const blob = new Blob([csv], { type: "text/csv" });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = fileName;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-      markAsClean();
-      return true;
-    } catch (e) {
-      console.error("Export failed", e);
-      return false;
-    }
-  }, [points, videoFile, markAsClean]);
+  const handleExportFormat = useCallback(
+    async (format: ExportFormat, options: ExportOptions) => {
+      setSettings((s) => ({ ...s, ...options }));
+      if (format === "csv") {
+        setIsExportDialogOpen(false);
+        await handleExport();
+        return;
+      }
+      const source = settings.exportInterpolated
+        ? [...points, ...interpolatedPoints]
+        : points;
+      const videoName = videoFile ? videoFile.name.split(".")[0] : "video";
+      const frameCount = Math.round(
+        ((videoMeta?.duration ?? 0) * videoFps) / 1000,
+      );
+      // The other formats are lossy as well (e.g. no regions)
+      if (format === "events") {
+        setIsExportDialogOpen(false);
+        const csv = eventsToBORIS(events, behaviors, objects, {
+          observationId: videoName,
+          mediaFile: videoFile?.name ?? "",
+          duration: videoMeta?.duration ?? 0,
+          fps: videoFps,
+        });
+        await saveFile(csv, `${videoName}-events.csv`, {
+          description: "CSV File",
+          mimeType: "text/csv",
+          extension: ".csv",
+        });
+        return;
+      }
+      if (format === "coco") {
+        const coco = pointsToCOCO(source, objects, keypointSchemas, videoFps, {
+          videoName,
+          frameCount,
+          width: videoMeta?.width ?? 0,
+          height: videoMeta?.height ?? 0,
+        });
+        if (options.cocoIncludeFrames) {
+          // The dialog stays open and shows the progress
+          await exportCOCOArchive(coco, `${videoName}-coco.zip`);
+          return;
+        }
+        setIsExportDialogOpen(false);
+        await saveFile(JSON.stringify(coco), `${videoName}-coco.json`, {
+          description: "COCO JSON",
+          mimeType: "application/json",
+          extension: ".json",
+        });
+        return;
+      }
+      setIsExportDialogOpen(false);
+      if (format === "mot") {
+        const txt = pointsToMOT(source, videoFps, {
+          boxSize: options.motBoxSize,
+        });
+        await saveFile(txt, `${videoName}-gt.txt`, {
+          description: "MOTChallenge File",
+          mimeType: "text/plain",
+          extension: ".txt",
+        });
+      } else {
+        const csv = pointsToDLC(source, objects, keypointSchemas, videoFps, {
+          scorer: options.dlcScorer,
+          videoName,
+          frameCount,
+        });
+        await saveFile(csv, `CollectedData_${options.dlcScorer}.csv`, {
+          description: "DeepLabCut Labels",
+          mimeType: "text/csv",
+          extension: ".csv",
+        });
+      }
+    },
+    [
+      handleExport,
+      exportCOCOArchive,
+      points,
+      interpolatedPoints,
+      objects,
+      keypointSchemas,
+      behaviors,
+      events,
+      settings.exportInterpolated,
+      videoFps,
+      videoFile,
+      videoMeta,
+    ],
+  );
+
+  // Rectified tracks: x/y in the units of the perspective calibration
+  const handleExportRectified = useCallback(
+    async (next: HomographyCalibration) => {
+      const solved = solveHomography(next.points);
+      if (!solved) return;
+      const source = settings.exportInterpolated
+        ? [...points, ...interpolatedPoints]
+        : points;
+      // Box sizes have no single world equivalent under perspective
+      const worldPoints = source.flatMap(({ width, height, ...p }) => {
+        const world = applyHomography(solved.toWorld, p);
+        return world ? [{ ...p, ...world }] : [];
+      });
+      const csv = pointsToCSV(worldPoints, objects, { keypointSchemas });
+      const videoName = videoFile ? videoFile.name.split(".")[0] : "video";
+
+      await saveFile(csv, `${videoName}-world_tracks.csv`, {
+        description: "CSV File",
+        mimeType: "text/csv",
+        extension: ".csv",
+      });
+    },
+    [
+      points,
+      interpolatedPoints,
+      objects,
+      keypointSchemas,
+      settings.exportInterpolated,
+      videoFile,
+    ],
+  );
+
+  const handleExportKinematics = useCallback(
+    async (csv: string) => {
+      const videoName = videoFile ? videoFile.name.split(".")[0] : "video";
+      await saveFile(csv, `${videoName}-kinematics.csv`, {
+        description: "CSV File",
+        mimeType: "text/csv",
+        extension: ".csv",
+      });
+    },
+    [videoFile],
+  );
+
+  const closeKinematics = useCallback(() => setIsKinematicsOpen(false), []);
+
+  const handleSaveProject = useCallback(async () => {
+    const video =
+      videoFile && videoMeta
+        ? {
+            name: videoFile.name,
+            size: videoFile.size,
+            width: videoMeta.width,
+            height: videoMeta.height,
+            duration: videoMeta.duration,
+            fps: videoFps,
+          }
+        : null;
+    const json = serializeProject(project, settings, activeObjectId, video);
+    const videoName = videoFile ? videoFile.name.split(".")[0] : "video";
+    const fileName = `${videoName}${PROJECT_FILE_EXTENSION}`;
+
+    const success = await saveFile(json, fileName, {
+      description: "click&track Project",
+      mimeType: "application/json",
+      extension: PROJECT_FILE_EXTENSION,
+    });
+    if (success) markAsClean();
+    return success;
+  }, [
+    project,
+    settings,
+    activeObjectId,
+    videoFile,
+    videoMeta,
+    videoFps,
+    markAsClean,
+  ]);
 
   const openVideoPicker = useCallback(() => {
     // Use setTimeout to ensure the click happens in a fresh tick, avoiding issues where
@@ -296,55 +840,57 @@ const App: React.FC = () => {
     }, 50);
   }, []);
 
-  const openCSVPicker = useCallback(() => {
+  const openImportPicker = useCallback(() => {
     setTimeout(() => {
-      if (csvInputRef.current) {
-        csvInputRef.current.value = "";
-        csvInputRef.current.click();
+      if (importInputRef.current) {
+        importInputRef.current.value = "";
+        importInputRef.current.click();
       }
     }, 50);
   }, []);
 
   const handleLoadVideoClick = useCallback(() => {
     if (points.length > 0 && isDirty) {
-      setPendingAction("VIDEO");
+      setPendingAction({ type: "VIDEO" });
       setIsUnsavedDialogOpen(true);
     } else {
       openVideoPicker();
     }
   }, [points.length, isDirty, openVideoPicker]);
 
-  const handleImportCSVClick = useCallback(() => {
-    if (points.length > 0 && isDirty) {
-      setPendingAction("CSV");
-      setIsUnsavedDialogOpen(true);
-    } else {
-      openCSVPicker();
-    }
-  }, [points.length, isDirty, openCSVPicker]);
+  // Only an import that replaces the project asks first, merging keeps the unsaved changes
+  const confirmReplace = useCallback(
+    (replace: () => void) => {
+      if (isDirty) {
+        setPendingAction({ type: "IMPORT", replace });
+        setIsUnsavedDialogOpen(true);
+      } else {
+        replace();
+      }
+    },
+    [isDirty],
+  );
 
-  const handleDiscardAndProceed = useCallback(() => {
+  const proceedWithPendingAction = useCallback(() => {
     setIsUnsavedDialogOpen(false);
-    if (pendingAction === "VIDEO") openVideoPicker();
-    else if (pendingAction === "CSV") openCSVPicker();
+    if (pendingAction?.type === "VIDEO") openVideoPicker();
+    else if (pendingAction?.type === "IMPORT") pendingAction.replace();
     setPendingAction(null);
-  }, [pendingAction, openVideoPicker, openCSVPicker]);
-
-  const handleExportAndProceed = useCallback(async () => {
-    const success = await handleExport();
-    if (success) {
-      setIsUnsavedDialogOpen(false);
-      if (pendingAction === "VIDEO") openVideoPicker();
-      else if (pendingAction === "CSV") openCSVPicker();
-      setPendingAction(null);
-    }
-  }, [handleExport, pendingAction, openVideoPicker, openCSVPicker]);
+  }, [pendingAction, openVideoPicker]);
+
+  const handleSaveAndProceed = useCallback(async () => {
+    const success = await handleSaveProject();
+    if (success) proceedWithPendingAction();
+  }, [handleSaveProject, proceedWithPendingAction]);
 
   const handleVideoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
       // Reset workspace for new video
       resetProject();
+      setVideoMeta(null);
+      setSelectedRange(null);
+      setShapeDraft(null);
 
       const url = URL.createObjectURL(file);
       setVideoFile(file);
@@ -372,29 +918,218 @@ const App: React.FC = () => {
     if (videoInputRef.current) videoInputRef.current.value = "";
   };
 
-  const handleCSVImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const importProjectFile = (text: string) => {
+    try {
+      const file = parseProject(text);
+      if (
+        file.video &&
+        videoFile &&
+        (file.video.name !== videoFile.name ||
+          file.video.size !== videoFile.size)
+      ) {
+        console.warn(
+          `Project was created for "${file.video.name}", but "${videoFile.name}" is loaded.`,
+        );
+      }
+      confirmReplace(() => {
+        // Single history entry, so the whole import can be undone at once
+        loadProject(projectFileToData(file));
+        setSettings(file.settings);
+        setActiveObjectId(file.activeObjectId);
+        markAsClean();
+      });
+    } catch (err) {
+      if (err instanceof ProjectFileError) {
+        alert(`Could not open project: ${err.message}`);
+      } else {
+        console.error("Project import failed:", err);
+      }
+    }
+  };
+
+  const importCSVFile = (text: string, fileName: string) => {
+    // DeepLabCut and SLEAP files map their individuals to objects
+    const pose = parsePoseCSV(text, videoFps, keypointSchemas);
+    if (pose) {
+      importTracks(
+        pose,
+        pose.objects.length > 0 ? pose.objects.map((o) => o.id) : [1],
+      );
+      return;
+    }
+    // Other files go through the column mapping wizard
+    setCSVImport({ fileName, text });
+  };
+
+  const closeCSVImport = useCallback(() => setCSVImport(null), []);
+
+  const handleCSVImport = (parsed: ParsedCSV) => {
+    setCSVImport(null);
+    const maxId = parsed.points.reduce(
+      (acc, p) => Math.max(acc, p.objectId),
+      1,
+    );
+    importTracks(
+      parsed,
+      Array.from({ length: maxId }, (_, i) => i + 1),
+    );
+  };
+
+  const importMOTFile = (text: string) => {
+    const parsed = parseMOT(text, videoFps);
+    // MOT identities are often sparse, so only the ones present become objects
+    const ids = [...new Set(parsed.points.map((p) => p.objectId))].sort(
+      (a, b) => a - b,
+    );
+    importTracks(parsed, ids.length > 0 ? ids : [1]);
+  };
+
+  // Imported tracks are checked against the loaded video before they reach the project
+  const importTracks = (parsed: ParsedCSV, ids: number[]) => {
+    if (
+      importVideo &&
+      hasImportIssues(validateImport(parsed.points, importVideo))
+    ) {
+      setPendingImport({ parsed, ids });
+      return;
+    }
+    commitImport(parsed, ids);
+  };
+
+  const closeImportCheck = useCallback(() => setPendingImport(null), []);
+
+  const handleCheckedImport = (fixedPoints: TrackPoint[]) => {
+    if (!pendingImport) return;
+    setPendingImport(null);
+    commitImport(
+      { ...pendingImport.parsed, points: fixedPoints },
+      pendingImport.ids,
+    );
+  };
+
+  const commitImport = (parsed: ParsedCSV, ids: number[]) => {
+    const importedObjects = completeObjectTable(parsed.objects, ids);
+    if (points.length > 0) {
+      setPendingMerge({ parsed, objects: importedObjects, ids });
+      return;
+    }
+    replaceTracks(parsed.points, importedObjects, ids);
+  };
+
+  const closeMergeImport = useCallback(() => setPendingMerge(null), []);
+
+  const handleReplaceImport = () => {
+    if (!pendingMerge) return;
+    setPendingMerge(null);
+    confirmReplace(() =>
+      replaceTracks(
+        pendingMerge.parsed.points,
+        pendingMerge.objects,
+        pendingMerge.ids,
+      ),
+    );
+  };
+
+  const handleMergeImport = (
+    mergedPoints: TrackPoint[],
+    mergedObjects: TrackedObject[],
+  ) => {
+    setPendingMerge(null);
+    // Single history entry; the merged project keeps its unsaved changes
+    loadProject({
+      points: mergedPoints,
+      objects: mergedObjects,
+      keypointSchemas: inferKeypointSchemas(
+        keypointSchemas,
+        mergedPoints,
+        mergedObjects,
+      ),
+      regions,
+      calibration,
+      homography,
+      behaviors,
+      events,
+    });
+  };
+
+  const replaceTracks = (
+    importedPoints: TrackPoint[],
+    importedObjects: TrackedObject[],
+    ids: number[],
+  ) => {
+    // Single history entry, so the whole import can be undone at once
+    loadProject({
+      points: importedPoints,
+      objects: importedObjects,
+      // CSV files carry keypoint names but no skeleton, so existing schemas are kept
+      keypointSchemas: inferKeypointSchemas(
+        keypointSchemas,
+        importedPoints,
+        importedObjects,
+      ),
+      regions,
+      calibration,
+      homography,
+      // Coded behaviors stay with the objects that still exist
+      behaviors,
+      events: events.filter((e) =>
+        importedObjects.some((o) => o.id === e.objectId),
+      ),
+    });
+    setActiveObjectId(ids[0]);
+  };
+
+  const handleFileImport = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
+      const name = file.name.toLowerCase();
       const reader = new FileReader();
       reader.onload = (evt) => {
         const text = evt.target?.result as string;
-        const newPoints = parseCSV(text);
-        setPoints(newPoints);
-        const maxId = newPoints.reduce(
-          (acc, p) => Math.max(acc, p.objectId),
-          1,
-        );
-        setNumObjects(maxId);
-        setActiveObjectId(1);
-        markAsClean();
+        if (name.endsWith(PROJECT_FILE_EXTENSION)) importProjectFile(text);
+        else if (name.endsWith(".txt")) importMOTFile(text);
+        else importCSVFile(text, file.name);
       };
       reader.readAsText(file);
     }
-    if (csvInputRef.current) csvInputRef.current.value = "";
+    if (importInputRef.current) importInputRef.current.value = "";
   };
 
+  // -- Auto-Tracking --
+  const {
+    status: autoTrackingStatus,
+    start: startAutoTracking,
+    cancel: cancelAutoTracking,
+    dismiss: dismissAutoTracking,
+  } = useAutoTracking({
+    videoSrc: videoUrl,
+    videoDimensions: videoMeta
+      ? { w: videoMeta.width, h: videoMeta.height }
+      : null,
+    videoDuration: videoMeta?.duration ?? 0,
+    videoFps,
+    settings,
+    points,
+    addPoint,
+    beginBatch,
+    endBatch,
+  });
+  // Manual edits wait until a run ends, as during playback
+  const isAutoTracking = autoTrackingStatus?.isRunning ?? false;
+
+  // Undo and redo first end a running run, whose points are then undone as one step
+  const handleUndo = useCallback(() => {
+    cancelAutoTracking();
+    undo();
+  }, [cancelAutoTracking, undo]);
+
+  const handleRedo = useCallback(() => {
+    cancelAutoTracking();
+    redo();
+  }, [cancelAutoTracking, redo]);
+
   const deleteCurrent = useCallback(() => {
-    if (isPlaying) return;
+    if (isPlaying || isAutoTracking) return;
 
     // Check if current frame is a tracking frame
     if (
@@ -405,36 +1140,572 @@ const App: React.FC = () => {
         settings.samplingRateDen,
       )
     ) {
-      deletePoint(currentTime, activeObjectId);
+      deletePoint(currentTime, activeObjectId, activeKeypoint);
+    }
+  }, [
+    currentTime,
+    activeObjectId,
+    activeKeypoint,
+    deletePoint,
+    isPlaying,
+    isAutoTracking,
+    videoFps,
+    settings,
+  ]);
+
+  // -- Visibility --
+  // O: the current location becomes an occluded estimate (or visible again). Without one,
+  // the suggestion or the latest location before this frame is taken as the estimate.
+  const toggleOccluded = useCallback(() => {
+    if (isPlaying || isAutoTracking || !isFrameAligned) return;
+    if (activePosition && hasLocation(activePosition)) {
+      addPoint(
+        withVisibility(
+          toManualPoint(activePosition),
+          activePosition.visibility === "occluded" ? "visible" : "occluded",
+        ),
+      );
+      return;
     }
-  }, [currentTime, activeObjectId, deletePoint, isPlaying, videoFps, settings]);
+    const previous = visiblePoints
+      .filter(
+        (p) =>
+          p.objectId === activeObjectId &&
+          p.keypoint === activeKeypoint &&
+          hasLocation(p) &&
+          getFrameIndex(p.timestamp, videoFps) < currentFrame,
+      )
+      .reduce<TrackPoint | null>(
+        (a, b) => (a && a.timestamp > b.timestamp ? a : b),
+        null,
+      );
+    const estimate = suggestion ?? previous;
+    if (!estimate) return;
+    const timestamp =
+      activePosition?.timestamp ?? getFrameTime(currentFrame, videoFps);
+    addPoint({
+      id: getPointId(timestamp, activeObjectId, activeKeypoint),
+      timestamp,
+      objectId: activeObjectId,
+      x: estimate.x,
+      y: estimate.y,
+      ...(activeKeypoint !== undefined ? { keypoint: activeKeypoint } : {}),
+      visibility: "occluded",
+    });
+  }, [
+    isPlaying,
+    isAutoTracking,
+    isFrameAligned,
+    activePosition,
+    visiblePoints,
+    suggestion,
+    activeObjectId,
+    activeKeypoint,
+    currentFrame,
+    videoFps,
+    addPoint,
+  ]);
+
+  // Shift+O: an entry without a location, "out of frame" first, then "not applicable"
+  const logNotVisible = useCallback(() => {
+    if (isPlaying || isAutoTracking || !isFrameAligned) return;
+    const timestamp =
+      activePosition?.timestamp ?? getFrameTime(currentFrame, videoFps);
+    addPoint({
+      id: getPointId(timestamp, activeObjectId, activeKeypoint),
+      timestamp,
+      objectId: activeObjectId,
+      x: NaN,
+      y: NaN,
+      ...(activeKeypoint !== undefined ? { keypoint: activeKeypoint } : {}),
+      visibility:
+        activePosition?.visibility === "out-of-frame"
+          ? "not-applicable"
+          : "out-of-frame",
+    });
+  }, [
+    isPlaying,
+    isAutoTracking,
+    isFrameAligned,
+    activePosition,
+    activeObjectId,
+    activeKeypoint,
+    currentFrame,
+    videoFps,
+    addPoint,
+  ]);
+
+  // -- Identity Swap --
+  const toggleIdentitySwap = useCallback(() => {
+    setIdentitySwap((prev) => (prev ? null : { firstId: null }));
+  }, []);
+
+  const cancelIdentitySwap = useCallback(() => setIdentitySwap(null), []);
+
+  // While swapping, clicking markers picks the two objects instead of only selecting them.
+  // The swap covers the selected time range, or runs from the current frame to the end.
+  const handleSelectObject = useCallback(
+    (id: number) => {
+      setActiveObjectId(id);
+      if (!identitySwap || isAutoTracking) return;
+      if (identitySwap.firstId === null || identitySwap.firstId === id) {
+        setIdentitySwap({ firstId: id });
+        return;
+      }
+      if (selectedRange) {
+        swapIdentities(
+          identitySwap.firstId,
+          id,
+          selectedRange.start,
+          selectedRange.end,
+        );
+      } else {
+        swapIdentities(identitySwap.firstId, id, currentTime);
+      }
+      setIdentitySwap(null);
+    },
+    [
+      identitySwap,
+      isAutoTracking,
+      selectedRange,
+      currentTime,
+      swapIdentities,
+      setActiveObjectId,
+    ],
+  );
+
+  const selectKeypointIndex = useCallback(
+    (index: number) => {
+      setKeypointSelection({
+        objectId: activeObjectId,
+        frame: currentFrame,
+        index,
+      });
+    },
+    [activeObjectId, currentFrame],
+  );
+
+  const cycleKeypoint = useCallback(
+    (step: number) => {
+      if (!activeSchema) return;
+      const n = activeSchema.keypoints.length;
+      selectKeypointIndex((activeKeypointIndex + step + n) % n);
+    },
+    [activeSchema, activeKeypointIndex, selectKeypointIndex],
+  );
+
+  const selectKeypoint = useCallback(
+    (name: string) => {
+      const index = activeSchema?.keypoints.indexOf(name) ?? -1;
+      if (index >= 0) selectKeypointIndex(index);
+    },
+    [activeSchema, selectKeypointIndex],
+  );
+
+  // Logging a keypoint moves on to the next one still missing on this frame
+  const handleLogPoint = useCallback(
+    (p: TrackPoint) => {
+      addPoint(p);
+      if (!activeSchema || p.keypoint === undefined) return;
+      const { keypoints } = activeSchema;
+      const start = keypoints.indexOf(p.keypoint);
+      for (let step = 1; step <= keypoints.length; step++) {
+        const index = (start + step) % keypoints.length;
+        const k = keypoints[index];
+        if (
+          step === keypoints.length ||
+          (k !== p.keypoint && !loggedKeypoints.has(k))
+        ) {
+          selectKeypointIndex(index);
+          return;
+        }
+      }
+    },
+    [addPoint, activeSchema, loggedKeypoints, selectKeypointIndex],
+  );
+
+  const acceptSuggestion = useCallback(() => {
+    if (isPlaying || isAutoTracking || !suggestion) return;
+    handleLogPoint(toManualPoint(suggestion));
+  }, [isPlaying, isAutoTracking, suggestion, handleLogPoint]);
+
+  const toggleAssistedTracking = useCallback(() => {
+    setSettings((s) => ({ ...s, assistedTracking: !s.assistedTracking }));
+  }, []);
+
+  // -- Run-Ahead --
+  // Runs start at the latest location of the active object up to the current frame
+  const autoTrackingAnchor = useMemo(() => {
+    const candidates = visiblePoints.filter(
+      (p) =>
+        p.objectId === activeObjectId &&
+        p.keypoint === activeKeypoint &&
+        getFrameIndex(p.timestamp, videoFps) <= currentFrame,
+    );
+    if (candidates.length === 0) return null;
+    const latest = candidates.reduce((a, b) =>
+      a.timestamp > b.timestamp ? a : b,
+    );
+    // No run starts from an object that is out of frame
+    return hasLocation(latest) ? latest : null;
+  }, [visiblePoints, activeObjectId, activeKeypoint, currentFrame, videoFps]);
+
+  const runAhead = useCallback(() => {
+    if (isPlaying || isAutoTracking || !autoTrackingAnchor) return;
+    // A selected range that lies ahead limits the run
+    const rangeEnd =
+      selectedRange && getFrameIndex(selectedRange.end, videoFps) > currentFrame
+        ? getFrameIndex(selectedRange.end, videoFps)
+        : undefined;
+    startAutoTracking(autoTrackingAnchor, rangeEnd);
+  }, [
+    isPlaying,
+    isAutoTracking,
+    autoTrackingAnchor,
+    selectedRange,
+    currentFrame,
+    videoFps,
+    startAutoTracking,
+  ]);
+
+  const autoPointCount = useMemo(
+    () =>
+      points.filter((p) => p.objectId === activeObjectId && p.source === "auto")
+        .length,
+    [points, activeObjectId],
+  );
+
+  const revertAutoPoints = useCallback(() => {
+    if (isAutoTracking) return;
+    removePoints((p) => p.objectId === activeObjectId && p.source === "auto");
+  }, [isAutoTracking, activeObjectId, removePoints]);
+
+  // Reverts only the points written by the last run
+  const revertAutoTrackingRun = useCallback(() => {
+    if (!autoTrackingStatus) return;
+    const { objectId, keypoint, startFrame, endFrame } = autoTrackingStatus;
+    removePoints((p) => {
+      if (p.objectId !== objectId || p.keypoint !== keypoint) return false;
+      if (p.source !== "auto") return false;
+      const frame = getFrameIndex(p.timestamp, videoFps);
+      return frame > startFrame && frame <= endFrame;
+    });
+    dismissAutoTracking();
+  }, [autoTrackingStatus, videoFps, removePoints, dismissAutoTracking]);
 
   // -- Object Navigation Handlers --
-  const handlePrevObject = useCallback(() => {
-    setActiveObjectId((prev) => (prev === 1 ? numObjects : prev - 1));
-  }, [numObjects, setActiveObjectId]);
+  const cycleObject = useCallback(
+    (step: number) => {
+      if (objects.length === 0) return;
+      const index = objects.findIndex((o) => o.id === activeObjectId);
+      const next = (index + step + objects.length) % objects.length;
+      setActiveObjectId(objects[next].id);
+    },
+    [objects, activeObjectId, setActiveObjectId],
+  );
+
+  const handlePrevObject = useCallback(() => cycleObject(-1), [cycleObject]);
+  const handleNextObject = useCallback(() => cycleObject(1), [cycleObject]);
+
+  const closeObjectsDialog = useCallback(
+    () => setIsObjectsDialogOpen(false),
+    [],
+  );
+
+  const handleSaveObjects = useCallback(
+    (next: TrackedObject[], schemas: KeypointSchema[]) => {
+      // Objects and schemas change together as one undo step
+      const batch = beginBatch();
+      setObjects(next);
+      setKeypointSchemas(schemas);
+      endBatch(batch);
+      setIsObjectsDialogOpen(false);
+    },
+    [setObjects, setKeypointSchemas, beginBatch, endBatch],
+  );
 
-  const handleNextObject = useCallback(() => {
-    setActiveObjectId((prev) => (prev % numObjects) + 1);
-  }, [numObjects, setActiveObjectId]);
+  // -- Object Tracks --
+  const closeTracksDialog = useCallback(() => setIsTracksDialogOpen(false), []);
+
+  const handleDeleteTrack = useCallback(
+    (id: number, renumber: boolean) => {
+      editTracks((tracks) => deleteObjectTrack(tracks, id, renumber));
+      // Stay on the same object when its ID moves down
+      if (renumber && activeObjectId > id)
+        setActiveObjectId(activeObjectId - 1);
+      setIsTracksDialogOpen(false);
+    },
+    [editTracks, activeObjectId, setActiveObjectId],
+  );
+
+  const handleMergeTracks = useCallback(
+    (sourceId: number, targetId: number, resolution: ConflictResolution) => {
+      editTracks((tracks) =>
+        mergeObjectTracks(
+          tracks,
+          sourceId,
+          targetId,
+          resolution,
+          videoFps,
+          behaviors,
+        ),
+      );
+      setActiveObjectId(targetId);
+      setIsTracksDialogOpen(false);
+    },
+    [editTracks, videoFps, behaviors, setActiveObjectId],
+  );
+
+  // The part from the current frame on becomes the active object
+  const handleSplitTrack = useCallback(
+    (id: number) => {
+      const newId = objects.reduce((acc, o) => Math.max(acc, o.id), 0) + 1;
+      editTracks((tracks) =>
+        splitObjectTrack(tracks, id, newId, currentTime, videoFps),
+      );
+      setActiveObjectId(newId);
+      setIsTracksDialogOpen(false);
+    },
+    [objects, editTracks, currentTime, videoFps, setActiveObjectId],
+  );
+
+  // -- Regions --
+  const openRegionsDialog = useCallback(() => {
+    setFocusRegionId(null);
+    setIsRegionsDialogOpen(true);
+  }, []);
+
+  const closeRegionsDialog = useCallback(
+    () => setIsRegionsDialogOpen(false),
+    [],
+  );
+
+  const handleSaveRegions = useCallback(
+    (next: Region[]) => {
+      setRegions(next);
+      setIsRegionsDialogOpen(false);
+    },
+    [setRegions],
+  );
+
+  // -- Ethogram --
+  const closeEthogramDialog = useCallback(
+    () => setIsEthogramDialogOpen(false),
+    [],
+  );
+
+  const handleSaveBehaviors = useCallback(
+    (next: Behavior[]) => {
+      setBehaviors(next);
+      setIsEthogramDialogOpen(false);
+    },
+    [setBehaviors],
+  );
+
+  // Behavior keys code an event of the active object at the current frame, also while playing
+  const codeBehavior = useCallback(
+    (key: string) => {
+      const behavior = behaviors.find((b) => b.key === key);
+      if (!behavior || isAutoTracking) return;
+      setEvents((prev) =>
+        codeBehaviorEvent(
+          prev,
+          behavior,
+          activeObjectId,
+          getFrameTime(currentFrame, videoFps),
+        ),
+      );
+    },
+    [
+      behaviors,
+      isAutoTracking,
+      activeObjectId,
+      currentFrame,
+      videoFps,
+      setEvents,
+    ],
+  );
+
+  const startRegion = useCallback(() => {
+    setIsRegionsDialogOpen(false);
+    setIsCalibrationDialogOpen(false);
+    setShapeDraft({ kind: "region", vertices: [] });
+  }, []);
+
+  // -- Calibration --
+  const openCalibrationDialog = useCallback(() => {
+    setCalibrationLine(null);
+    setIsCalibrationDialogOpen(true);
+  }, []);
+
+  const closeCalibrationDialog = useCallback(() => {
+    setCalibrationLine(null);
+    setIsCalibrationDialogOpen(false);
+  }, []);
+
+  const handleSaveCalibration = useCallback(
+    (next: ScaleCalibration | null, exportCalibrated: boolean) => {
+      setCalibration(next);
+      setSettings((s) => ({ ...s, exportCalibrated }));
+      setCalibrationLine(null);
+      setIsCalibrationDialogOpen(false);
+    },
+    [setCalibration],
+  );
+
+  const startCalibrationLine = useCallback(() => {
+    setIsCalibrationDialogOpen(false);
+    setShapeDraft({ kind: "calibration", vertices: [] });
+  }, []);
+
+  const openHomographyDialog = useCallback(() => {
+    setHomographyDraft(null);
+    setIsHomographyDialogOpen(true);
+  }, []);
+
+  const closeHomographyDialog = useCallback(() => {
+    setHomographyDraft(null);
+    setIsHomographyDialogOpen(false);
+  }, []);
+
+  const handleSaveHomography = useCallback(
+    (next: HomographyCalibration | null, showWorldGrid: boolean) => {
+      setHomography(next);
+      setSettings((s) => ({ ...s, showWorldGrid }));
+      setHomographyDraft(null);
+      setIsHomographyDialogOpen(false);
+    },
+    [setHomography],
+  );
+
+  const startControlPoints = useCallback((draft: HomographyDraft) => {
+    setHomographyDraft(draft);
+    setIsHomographyDialogOpen(false);
+    setShapeDraft({ kind: "homography", vertices: [] });
+  }, []);
+
+  // -- Shape Drawing --
+  const addShapeVertex = useCallback(
+    (v: { x: number; y: number }) => {
+      if (!shapeDraft) return;
+      const vertices = [...shapeDraft.vertices, v];
+      // A calibration line is complete with its second end point
+      if (shapeDraft.kind === "calibration" && vertices.length === 2) {
+        setShapeDraft(null);
+        setCalibrationLine([vertices[0], vertices[1]]);
+        setIsCalibrationDialogOpen(true);
+        return;
+      }
+      setShapeDraft({ ...shapeDraft, vertices });
+    },
+    [shapeDraft],
+  );
+
+  const removeShapeVertex = useCallback(() => {
+    setShapeDraft((draft) =>
+      draft ? { ...draft, vertices: draft.vertices.slice(0, -1) } : draft,
+    );
+  }, []);
+
+  // Tools started from a calibration dialog return to it
+  const cancelShape = useCallback(() => {
+    if (shapeDraft?.kind === "calibration") setIsCalibrationDialogOpen(true);
+    if (shapeDraft?.kind === "homography") setIsHomographyDialogOpen(true);
+    setShapeDraft(null);
+  }, [shapeDraft]);
+
+  // Stores a region polygon and asks for its name,
+  // or hands new control points to the calibration dialog
+  const finishShape = useCallback(() => {
+    if (shapeDraft?.kind === "homography") {
+      const added = shapeDraft.vertices.map((image) => ({
+        image,
+        world: { x: "", y: "" },
+      }));
+      setHomographyDraft((draft) =>
+        draft ? { ...draft, points: [...draft.points, ...added] } : draft,
+      );
+      setShapeDraft(null);
+      setIsHomographyDialogOpen(true);
+      return;
+    }
+    if (shapeDraft?.kind !== "region" || shapeDraft.vertices.length < 3) {
+      return;
+    }
+    const id = regions.reduce((acc, r) => Math.max(acc, r.id), 0) + 1;
+    setRegions([...regions, { id, name: "", vertices: shapeDraft.vertices }]);
+    setShapeDraft(null);
+    setFocusRegionId(id);
+    setIsRegionsDialogOpen(true);
+  }, [shapeDraft, regions, setRegions]);
+
+  const toggleTimeline = useCallback(
+    () => setIsTimelineOpen((open) => !open),
+    [],
+  );
+
+  const closeTimeline = useCallback(() => setIsTimelineOpen(false), []);
+
+  // -- Modal Dialogs --
+  const isModalOpen =
+    isUnsavedDialogOpen ||
+    isObjectsDialogOpen ||
+    isTracksDialogOpen ||
+    isRegionsDialogOpen ||
+    isEthogramDialogOpen ||
+    isCalibrationDialogOpen ||
+    isHomographyDialogOpen ||
+    isKinematicsOpen ||
+    isExportDialogOpen ||
+    csvImport !== null ||
+    pendingImport !== null ||
+    pendingMerge !== null ||
+    recoverableSession !== null;
+
+  // Dialogs edit the project as well, so a running run ends before one opens
+  useEffect(() => {
+    if (isModalOpen) cancelAutoTracking();
+  }, [isModalOpen, cancelAutoTracking]);
 
   // -- Global Keyboard Shortcuts --
   useGlobalShortcuts({
-    numObjects,
-    activeObjectId,
-    setActiveObjectId,
-    setNumObjects,
+    onPrevObject: handlePrevObject,
+    onNextObject: handleNextObject,
+    onAddObject: addObject,
     setSettings,
     isPlaying,
     setIsPlaying,
     setIsSpaceHeld,
     setIsHelpOpen,
     deleteCurrent,
+    acceptSuggestion,
+    toggleAssistedTracking,
+    runAhead,
+    isAutoTracking,
+    cancelAutoTracking,
+    toggleTimeline,
+    cycleKeypoint,
+    isDrawingShape: shapeDraft !== null,
+    toggleOccluded,
+    logNotVisible,
+    isSwappingIdentities: identitySwap !== null,
+    toggleIdentitySwap,
+    cancelIdentitySwap,
+    startRegion,
+    finishShape,
+    cancelShape,
+    removeShapeVertex,
+    saveProject: handleSaveProject,
+    undo: handleUndo,
+    redo: handleRedo,
     jumpToPrevious,
     jumpToNext,
     jumpToFirst,
     jumpToFinal,
-    disableShortcuts: isUnsavedDialogOpen, // Disable when modal is open
+    jumpToFlagged,
+    codeBehavior,
+    // Disable when modal is open
+    disableShortcuts: isModalOpen,
   });
 
   // -- Render --
@@ -602,13 +1873,18 @@ const App: React.FC = () => {
       <main className="flex-1 relative overflow-hidden">
         <TrackerWorkspace
           videoSrc={videoUrl}
-          points={visiblePoints}
+          points={displayPoints}
+          objects={objects}
+          keypointSchemas={keypointSchemas}
           activeObjectId={activeObjectId}
+          activeKeypoint={activeKeypoint}
           settings={settings}
           onAddPoint={addPoint}
-          onSelectObject={setActiveObjectId}
+          onLogPoint={handleLogPoint}
+          onSelectObject={handleSelectObject}
           onTimeUpdate={setCurrentTime}
           isPlaying={isPlaying}
+          isAutoTracking={isAutoTracking}
           setIsPlaying={setIsPlaying}
           playbackTrigger={playbackTrigger}
           seekRequest={seekRequest}
@@ -617,6 +1893,22 @@ const App: React.FC = () => {
           onToggleHelp={() => setIsHelpOpen(true)}
           isObstructed={isObstructed}
           onStatusDimensionsChange={handleStatusDimensionsChange}
+          onMetadataLoaded={setVideoMeta}
+          onSuggestionChange={setSuggestion}
+          regions={regions}
+          shapeDraft={shapeDraft}
+          onAddShapeVertex={addShapeVertex}
+          onFinishShape={finishShape}
+          identitySwap={identitySwap}
+          isRangeSelected={selectedRange !== null}
+          worldGrid={worldGrid}
+          controlPoints={
+            shapeDraft?.kind === "homography"
+              ? (homographyDraft?.points.map((p) => p.image) ?? null)
+              : worldGrid && homography
+                ? homography.points.map((p) => p.image)
+                : null
+          }
         />
 
         <ControlWidget
@@ -628,15 +1920,42 @@ const App: React.FC = () => {
           settings={settings}
           setSettings={setSettings}
           activeObjectId={activeObjectId}
-          numObjects={numObjects}
-          setActiveObjectId={setActiveObjectId}
-          setNumObjects={setNumObjects}
+          objects={objects}
+          keypoints={activeSchema?.keypoints.map((name) => ({
+            name,
+            isLogged: loggedKeypoints.has(name),
+          }))}
+          activeKeypoint={activeKeypoint}
+          onSelectKeypoint={selectKeypoint}
+          onAddObject={addObject}
+          onEditObjects={() => setIsObjectsDialogOpen(true)}
+          onEditTracks={() => setIsTracksDialogOpen(true)}
+          onEditRegions={openRegionsDialog}
+          regionCount={regions.length}
+          onEditEthogram={() => setIsEthogramDialogOpen(true)}
+          behaviorCount={behaviors.length}
+          activePosition={activePosition}
+          worldPosition={worldPosition}
+          calibration={calibration}
+          onCalibrate={openCalibrationDialog}
+          isRectified={homography !== null}
+          onRectify={openHomographyDialog}
+          onAnalyze={() => setIsKinematicsOpen(true)}
+          onToggleAssist={toggleAssistedTracking}
+          onRunAhead={runAhead}
+          canRunAhead={
+            !isPlaying && !isAutoTracking && autoTrackingAnchor !== null
+          }
+          onRevertAuto={revertAutoPoints}
+          autoPointCount={autoPointCount}
           onPrevObject={handlePrevObject}
           onNextObject={handleNextObject}
           onLoadVideo={handleLoadVideoClick}
-          onImportCSV={handleImportCSVClick}
-          onExportCSV={handleExport}
+          onImport={openImportPicker}
+          onExport={() => setIsExportDialogOpen(true)}
+          onSaveProject={handleSaveProject}
           position={widgetPosition}
+          bottomOffset={isTimelineOpen ? timelineHeight : 0}
           onPositionChange={setWidgetPosition}
           onDrag={handleWidgetDrag}
           onSizeChange={handleWidgetDimensionsChange}
@@ -644,6 +1963,10 @@ const App: React.FC = () => {
           onJumpToPrev={jumpToPrevious}
           onJumpToNext={jumpToNext}
           onJumpToFinal={jumpToFinal}
+          onUndo={handleUndo}
+          onRedo={handleRedo}
+          canUndo={canUndo}
+          canRedo={canRedo}
         />
 
         {/* Hidden Inputs for I/O */}
@@ -655,25 +1978,179 @@ const App: React.FC = () => {
           className="hidden"
         />
         <input
-          ref={csvInputRef}
+          ref={importInputRef}
           type="file"
-          accept=".csv"
-          onChange={handleCSVImport}
+          accept={`.csv,.txt,${PROJECT_FILE_EXTENSION}`}
+          onChange={handleFileImport}
           className="hidden"
         />
+
+        <AutoTrackingStatus
+          status={autoTrackingStatus}
+          object={objects.find((o) => o.id === autoTrackingStatus?.objectId)}
+          onCancel={cancelAutoTracking}
+          onRevert={revertAutoTrackingRun}
+          onDismiss={dismissAutoTracking}
+        />
       </main>
 
+      {isTimelineOpen && videoMeta && (
+        <TimelinePanel
+          objects={objects}
+          points={visiblePoints}
+          activeObjectId={activeObjectId}
+          currentTime={currentTime}
+          duration={videoMeta.duration}
+          videoFps={videoFps}
+          settings={settings}
+          selection={selectedRange}
+          onSelectionChange={setSelectedRange}
+          onSeek={triggerSeek}
+          onSelectObject={setActiveObjectId}
+          behaviors={behaviors}
+          events={events}
+          onClose={closeTimeline}
+          onHeightChange={setTimelineHeight}
+        />
+      )}
+
       <HelpDialog isOpen={isHelpOpen} onClose={() => setIsHelpOpen(false)} />
 
       <UnsavedChangesDialog
         isOpen={isUnsavedDialogOpen}
         onClose={() => setIsUnsavedDialogOpen(false)}
-        onDiscard={handleDiscardAndProceed}
-        onExport={handleExportAndProceed}
+        onDiscard={proceedWithPendingAction}
+        onSave={handleSaveAndProceed}
         actionDescription={
-          pendingAction === "CSV" ? "importing a CSV" : "loading a new video"
+          pendingAction?.type === "IMPORT"
+            ? "replacing it with the imported file"
+            : "loading a new video"
         }
       />
+
+      <ObjectsDialog
+        isOpen={isObjectsDialogOpen}
+        objects={objects}
+        keypointSchemas={keypointSchemas}
+        activeObjectId={activeObjectId}
+        onClose={closeObjectsDialog}
+        onSave={handleSaveObjects}
+      />
+
+      <TracksDialog
+        isOpen={isTracksDialogOpen}
+        points={points}
+        objects={objects}
+        activeObjectId={activeObjectId}
+        currentTime={currentTime}
+        fps={videoFps}
+        onClose={closeTracksDialog}
+        onDelete={handleDeleteTrack}
+        onMerge={handleMergeTracks}
+        onSplit={handleSplitTrack}
+      />
+
+      <RegionsDialog
+        isOpen={isRegionsDialogOpen}
+        regions={regions}
+        focusRegionId={focusRegionId}
+        onClose={closeRegionsDialog}
+        onSave={handleSaveRegions}
+        onDrawRegion={startRegion}
+      />
+
+      <EthogramDialog
+        isOpen={isEthogramDialogOpen}
+        behaviors={behaviors}
+        events={events}
+        onClose={closeEthogramDialog}
+        onSave={handleSaveBehaviors}
+      />
+
+      <CalibrationDialog
+        isOpen={isCalibrationDialogOpen}
+        calibration={calibration}
+        line={calibrationLine}
+        exportCalibrated={settings.exportCalibrated}
+        onClose={closeCalibrationDialog}
+        onSave={handleSaveCalibration}
+        onDrawLine={startCalibrationLine}
+      />
+
+      <ImportDialog
+        isOpen={csvImport !== null}
+        fileName={csvImport?.fileName ?? ""}
+        text={csvImport?.text ?? ""}
+        videoFps={videoFps}
+        onClose={closeCSVImport}
+        onImport={handleCSVImport}
+      />
+
+      {importVideo && (
+        <ImportCheckDialog
+          isOpen={pendingImport !== null}
+          points={pendingImport?.parsed.points ?? []}
+          video={importVideo}
+          onClose={closeImportCheck}
+          onImport={handleCheckedImport}
+        />
+      )}
+
+      <MergeImportDialog
+        isOpen={pendingMerge !== null}
+        fps={videoFps}
+        existingPoints={points}
+        existingObjects={objects}
+        incomingPoints={pendingMerge?.parsed.points ?? EMPTY_POINTS}
+        incomingObjects={pendingMerge?.objects ?? EMPTY_OBJECTS}
+        onClose={closeMergeImport}
+        onReplace={handleReplaceImport}
+        onMerge={handleMergeImport}
+      />
+
+      <ExportDialog
+        isOpen={isExportDialogOpen}
+        options={exportOptions}
+        progress={exportProgress}
+        onClose={closeExportDialog}
+        onExport={handleExportFormat}
+      />
+
+      <KinematicsPanel
+        isOpen={isKinematicsOpen}
+        objects={objects}
+        keypointSchemas={keypointSchemas}
+        points={visiblePoints}
+        videoFps={videoFps}
+        transform={worldTransform ?? PIXEL_TRANSFORM}
+        activeObjectId={activeObjectId}
+        currentTime={currentTime}
+        onSelectObject={setActiveObjectId}
+        onSeek={triggerSeek}
+        onExport={handleExportKinematics}
+        onClose={closeKinematics}
+      />
+
+      <HomographyDialog
+        isOpen={isHomographyDialogOpen}
+        homography={homography}
+        draft={homographyDraft}
+        showWorldGrid={settings.showWorldGrid}
+        onClose={closeHomographyDialog}
+        onSave={handleSaveHomography}
+        onAddPoints={startControlPoints}
+        onExport={handleExportRectified}
+      />
+
+      <RecoveryDialog
+        isOpen={recoverableSession !== null}
+        savedAt={recoverableSession?.savedAt ?? 0}
+        numPoints={recoverableSession?.project.points.length ?? 0}
+        numObjects={recoverableSession?.project.objects.length ?? 0}
+        onRestore={restoreSession}
+        onDiscard={discardSession}
+        onDismiss={dismissSession}
+      />
     </div>
   );
 };
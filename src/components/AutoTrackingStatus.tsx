@@ -0,0 +1,119 @@
+import React from "react";
+import { FastForward, Square, Undo2, X } from "lucide-react";
+import { TrackedObject } from "@/types";
+import { getObjectLabel } from "@/utils";
+import {
+  AutoTrackingStatus as Status,
+  AutoTrackingStopReason,
+} from "@/hooks/useAutoTracking";
+import { Key } from "@/components/Key";
+
+const STOP_MESSAGES: Record<AutoTrackingStopReason, string> = {
+  completed: "Reached the end of the range",
+  "low-confidence": "Stopped: match confidence too low",
+  "left-frame": "Stopped: object left the frame",
+  "reached-logged": "Stopped at a location logged by hand",
+  cancelled: "Cancelled",
+  error: "Stopped: an error occurred (see console)",
+};
+
+interface Props {
+  status: Status | null;
+  object: TrackedObject | undefined;
+  onCancel: () => void;
+  onRevert: () => void;
+  onDismiss: () => void;
+}
+
+export const AutoTrackingStatus: React.FC<Props> = ({
+  status,
+  object,
+  onCancel,
+  onRevert,
+  onDismiss,
+}) => {
+  if (!status) return null;
+
+  const span = Math.max(1, status.endFrame - status.startFrame);
+  const progress = Math.min(
+    1,
+    (status.currentFrame - status.startFrame) / span,
+  );
+
+  return (
+    <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-40 w-[24rem] bg-gray-900/95 backdrop-blur border border-gray-750/50 rounded-xl shadow-2xl overflow-hidden">
+      <div className="flex items-center gap-3 px-4 py-3">
+        <FastForward
+          size={20}
+          className={`text-active shrink-0 ${status.isRunning ? "animate-pulse" : ""}`}
+        />
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 text-sm font-medium text-gray-200">
+            <span
+              className="w-2.5 h-2.5 rounded-full shrink-0"
+              style={{ backgroundColor: object?.color }}
+            />
+            <span className="truncate">
+              Auto-tracking {getObjectLabel(status.objectId, object)}
+            </span>
+          </div>
+          <div className="text-xs text-gray-500 mt-0.5 font-mono">
+            Frame {status.currentFrame} · {status.pointsAdded} points
+            {status.lastScore !== null &&
+              ` · score ${status.lastScore.toFixed(2)}`}
+          </div>
+        </div>
+
+        {status.isRunning ? (
+          <button
+            onClick={onCancel}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium bg-gray-800 hover:bg-gray-750 border border-gray-750 text-gray-300 hover:text-white rounded-lg transition outline-none focus-visible:border-active group"
+          >
+            <Square
+              size={14}
+              className="text-gray-400 group-hover:text-active transition-colors"
+            />
+            Cancel
+            <Key>Esc</Key>
+          </button>
+        ) : (
+          <div className="flex items-center gap-1">
+            {status.pointsAdded > 0 && (
+              <button
+                onClick={onRevert}
+                className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium bg-gray-800 hover:bg-gray-750 border border-gray-750 text-gray-300 hover:text-white rounded-lg transition outline-none focus-visible:border-active group"
+              >
+                <Undo2
+                  size={14}
+                  className="text-gray-400 group-hover:text-active transition-colors"
+                />
+                Revert
+              </button>
+            )}
+            <button
+              onClick={onDismiss}
+              className="text-gray-400 hover:text-white transition p-1.5 rounded-lg border border-transparent focus-visible:border-active outline-none"
+            >
+              <X size={18} />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {status.isRunning ? (
+        <div className="h-1 w-full bg-gray-800">
+          <div
+            className="h-full bg-active transition-[width] duration-150"
+            style={{ width: `${progress * 100}%` }}
+          />
+        </div>
+      ) : (
+        status.stopReason && (
+          <div className="px-4 py-2 text-xs text-gray-400 bg-gray-850 border-t border-gray-800">
+            {STOP_MESSAGES[status.stopReason]}
+          </div>
+        )
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,193 @@
+import React, { useEffect, useRef, useState } from "react";
+import { X, Ruler, Trash2 } from "lucide-react";
+import { ScaleCalibration } from "@/types";
+import { getLineLength } from "@/utils";
+import { useDialogFocusTrap } from "@/hooks/useDialogFocusTrap";
+
+const DEFAULT_UNIT = "mm";
+
+interface Props {
+  isOpen: boolean;
+  calibration: ScaleCalibration | null;
+  line: ScaleCalibration["line"] | null; // Newly drawn reference line, replaces the stored one
+  exportCalibrated: boolean;
+  onClose: () => void;
+  onSave: (
+    calibration: ScaleCalibration | null,
+    exportCalibrated: boolean,
+  ) => void;
+  onDrawLine: () => void;
+}
+
+export const CalibrationDialog: React.FC<Props> = ({
+  isOpen,
+  calibration,
+  line,
+  exportCalibrated,
+  onClose,
+  onSave,
+  onDrawLine,
+}) => {
+  const dialogRef = useRef<HTMLFormElement>(null);
+
+  const [length, setLength] = useState("");
+  const [unit, setUnit] = useState(DEFAULT_UNIT);
+  const [withExport, setWithExport] = useState(exportCalibrated);
+
+  useEffect(() => {
+    if (isOpen) {
+      setLength(calibration ? calibration.length.toString() : "");
+      setUnit(calibration?.unit ?? DEFAULT_UNIT);
+      setWithExport(exportCalibrated);
+    }
+  }, [isOpen, calibration, exportCalibrated]);
+
+  // Focus the length input, or the draw button if there is no line yet
+  useDialogFocusTrap(dialogRef, isOpen, onClose, {
+    initialFocus: (dialog) =>
+      dialog.querySelector<HTMLElement>("input:not([disabled])") ??
+      dialog.querySelector<HTMLElement>("button"),
+    focusable: "button:not([disabled]), input:not([disabled])",
+  });
+
+  if (!isOpen) return null;
+
+  const referenceLine = line ?? calibration?.line ?? null;
+  const pixelLength = referenceLine ? getLineLength(referenceLine) : 0;
+  const realLength = Number(length);
+  const isValid =
+    pixelLength >= 1 &&
+    Number.isFinite(realLength) &&
+    realLength > 0 &&
+    unit.trim() !== "";
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!referenceLine || !isValid) return;
+    onSave(
+      { line: referenceLine, length: realLength, unit: unit.trim() },
+      withExport,
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <form
+        ref={dialogRef}
+        onSubmit={handleSubmit}
+        className="bg-gray-900 border border-gray-750 rounded-xl shadow-2xl w-full max-w-md overflow-hidden flex flex-col max-h-[85vh]"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="calibration-title"
+      >
+        {/* Header (Lighter - 850) */}
+        <div className="flex justify-between items-center px-6 py-4 border-b border-gray-800 bg-gray-850">
+          <div className="flex items-center gap-3">
+            <Ruler className="text-active" size={22} />
+            <h2 id="calibration-title" className="text-lg font-bold text-white">
+              Scale calibration
+            </h2>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition p-1.5 rounded-lg border border-transparent focus-visible:border-active outline-none"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto custom-scrollbar space-y-4">
+          <p className="text-sm text-gray-500 px-1">
+            Draw a line over an object of known length, e.g. a ruler in the
+            frame, and enter its real length. Positions are then also shown in
+            real-world units (origin at the top-left corner of the video).
+          </p>
+
+          <div className="grid grid-cols-[7rem_1fr] gap-3 items-center px-1 text-sm">
+            <span className="text-gray-500 font-medium">Reference line</span>
+            <div className="flex items-center justify-between gap-3">
+              <span className="font-mono text-gray-300">
+                {referenceLine ? `${pixelLength.toFixed(1)} px` : "none"}
+              </span>
+              <button
+                type="button"
+                onClick={onDrawLine}
+                className="px-3 py-1.5 text-sm font-medium text-gray-400 hover:text-white rounded-lg border border-transparent hover:bg-gray-800 transition outline-none focus-visible:border-active"
+              >
+                {referenceLine ? "Redraw line" : "Draw line"}
+              </button>
+            </div>
+
+            <span className="text-gray-500 font-medium">Real length</span>
+            <div className="flex items-center gap-3">
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={length}
+                disabled={!referenceLine}
+                onChange={(e) => setLength(e.target.value)}
+                className="w-full bg-gray-800/80 border border-gray-750 rounded-lg px-3 py-1.5 text-gray-200 placeholder-gray-600 outline-none focus:border-active disabled:opacity-50"
+              />
+              <input
+                type="text"
+                value={unit}
+                disabled={!referenceLine}
+                placeholder={DEFAULT_UNIT}
+                aria-label="Unit"
+                onChange={(e) => setUnit(e.target.value)}
+                className="w-20 bg-gray-800/80 border border-gray-750 rounded-lg px-3 py-1.5 text-gray-200 placeholder-gray-600 outline-none focus:border-active disabled:opacity-50"
+              />
+            </div>
+
+            <span className="text-gray-500 font-medium">Scale</span>
+            <span className="font-mono text-gray-300">
+              {isValid
+                ? `1 px = ${(realLength / pixelLength).toPrecision(4)} ${unit.trim()}`
+                : "–"}
+            </span>
+          </div>
+
+          <label className="flex items-center gap-2 px-1 text-sm font-medium text-gray-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={withExport}
+              onChange={(e) => setWithExport(e.target.checked)}
+              className="accent-active"
+            />
+            Add calibrated columns to CSV exports
+          </label>
+        </div>
+
+        {/* Footer Actions (Lighter - 850) */}
+        <div className="bg-gray-850 px-6 py-4 flex items-center justify-end gap-3 border-t border-gray-800">
+          {calibration && (
+            <button
+              type="button"
+              onClick={() => onSave(null, withExport)}
+              className="mr-auto flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-400 hover:text-white rounded-lg border border-transparent hover:bg-gray-800 transition outline-none focus-visible:border-active"
+            >
+              <Trash2 size={16} />
+              Remove
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium bg-gray-800 hover:bg-gray-750 border border-gray-750 text-gray-400 hover:text-white rounded-lg transition outline-none focus-visible:border-active"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!isValid}
+            className="px-4 py-2 text-sm font-medium bg-gray-800 hover:bg-gray-750 border border-gray-750 text-gray-300 hover:text-white rounded-lg transition outline-none focus-visible:border-active disabled:opacity-50 disabled:pointer-events-none"
+          >
+            Save
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
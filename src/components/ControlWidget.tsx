@@ -10,13 +10,44 @@ import {
   ArrowLeft,
   ArrowRight,
   ArrowRightToLine,
+  Undo2,
+  Redo2,
+  Save,
+  Tags,
+  GitFork,
+  ListChecks,
+  WandSparkles,
+  FastForward,
+  Eraser,
+  Pentagon,
+  Ruler,
+  Grid3x3,
+  Activity,
 } from "lucide-react";
 import { SpinBox } from "@/components/SpinBox";
-import { AppSettings } from "@/types";
-import { formatTime } from "@/utils";
+import {
+  AppSettings,
+  InterpolationMode,
+  PointVisibility,
+  ScaleCalibration,
+  TrackedObject,
+} from "@/types";
+import {
+  formatTime,
+  getObjectLabel,
+  hasLocation,
+  LOW_LIKELIHOOD,
+  VISIBILITY_LABELS,
+} from "@/utils";
 import { useLongPress } from "@/hooks/useLongPress";
 import { Tooltip } from "@/components/Tooltip";
 
+const INTERPOLATION_OPTIONS: { mode: InterpolationMode; label: string }[] = [
+  { mode: "none", label: "Off" },
+  { mode: "linear", label: "Linear" },
+  { mode: "cubic", label: "Cubic" },
+];
+
 interface ControlWidgetProps {
   currentTime: number;
   currentFrame: number;
@@ -26,15 +57,42 @@ interface ControlWidgetProps {
   settings: AppSettings;
   setSettings: React.Dispatch<React.SetStateAction<AppSettings>>;
   activeObjectId: number;
-  numObjects: number;
-  setActiveObjectId: React.Dispatch<React.SetStateAction<number>>;
-  setNumObjects: React.Dispatch<React.SetStateAction<number>>;
+  objects: TrackedObject[];
+  keypoints?: { name: string; isLogged: boolean }[]; // Schema of the active object, if any
+  activeKeypoint?: string;
+  onSelectKeypoint?: (name: string) => void;
+  onAddObject: () => void;
+  onEditObjects: () => void;
+  onEditTracks: () => void; // Delete, merge and split object tracks
+  onEditRegions: () => void;
+  regionCount: number;
+  onEditEthogram: () => void;
+  behaviorCount: number;
+  activePosition: {
+    x: number;
+    y: number;
+    likelihood?: number;
+    visibility?: PointVisibility;
+  } | null; // Active object (or keypoint) on the current frame
+  worldPosition: { x: number; y: number; unit: string } | null; // Same, in calibrated units
+  calibration: ScaleCalibration | null;
+  onCalibrate: () => void;
+  isRectified: boolean; // A perspective calibration is set
+  onRectify: () => void;
+  onAnalyze: () => void;
+  onToggleAssist: () => void;
+  onRunAhead: () => void;
+  canRunAhead: boolean;
+  onRevertAuto: () => void;
+  autoPointCount: number; // Auto-tracked points of the active object
   onPrevObject: () => void;
   onNextObject: () => void;
   onLoadVideo: () => void;
-  onImportCSV: () => void;
-  onExportCSV: () => void;
+  onImport: () => void;
+  onExport: () => void;
+  onSaveProject: () => void;
   position: { x: number; y: number } | null;
+  bottomOffset?: number; // Space taken by docked panels while not moved (px)
   onPositionChange: (pos: { x: number; y: number }) => void;
   onDrag?: (x: number, y: number) => void;
   onSizeChange?: (w: number, h: number) => void;
@@ -42,6 +100,10 @@ interface ControlWidgetProps {
   onJumpToPrev: () => void;
   onJumpToNext: () => void;
   onJumpToFinal: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
 }
 
 export const ControlWidget: React.FC<ControlWidgetProps> = ({
@@ -53,15 +115,37 @@ export const ControlWidget: React.FC<ControlWidgetProps> = ({
   settings,
   setSettings,
   activeObjectId,
-  numObjects,
-  setActiveObjectId,
-  setNumObjects,
+  objects,
+  keypoints = [],
+  activeKeypoint,
+  onSelectKeypoint,
+  onAddObject,
+  onEditObjects,
+  onEditTracks,
+  onEditRegions,
+  onEditEthogram,
+  behaviorCount,
+  regionCount,
+  activePosition,
+  worldPosition,
+  calibration,
+  onCalibrate,
+  isRectified,
+  onRectify,
+  onAnalyze,
+  onToggleAssist,
+  onRunAhead,
+  canRunAhead,
+  onRevertAuto,
+  autoPointCount,
   onPrevObject,
   onNextObject,
   onLoadVideo,
-  onImportCSV,
-  onExportCSV,
+  onImport,
+  onExport,
+  onSaveProject,
   position,
+  bottomOffset = 0,
   onPositionChange,
   onDrag,
   onSizeChange,
@@ -69,9 +153,16 @@ export const ControlWidget: React.FC<ControlWidgetProps> = ({
   onJumpToPrev,
   onJumpToNext,
   onJumpToFinal,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
 }) => {
   const widgetRef = useRef<HTMLDivElement>(null);
 
+  const activeIndex = objects.findIndex((o) => o.id === activeObjectId);
+  const activeObject = objects[activeIndex];
+
   // Track drag state: start point, initial position, and current live position
   const dragRef = useRef<{
     startX: number;
@@ -233,7 +324,9 @@ export const ControlWidget: React.FC<ControlWidgetProps> = ({
   const style: React.CSSProperties =
     currentX !== undefined && currentY !== undefined
       ? { transform: `translate3d(${currentX}px, ${currentY}px, 0)` }
-      : {};
+      : bottomOffset > 0
+        ? { bottom: bottomOffset + 24 } // Keep bottom-6 spacing above the panel
+        : {};
 
   const transitionClass = !isDragging
     ? "transition-transform duration-300 ease-out"
@@ -300,6 +393,64 @@ export const ControlWidget: React.FC<ControlWidgetProps> = ({
             <ArrowRightToLine size={20} />
           </button>
         </Tooltip>
+
+        <div className="w-px self-stretch bg-gray-750/80" />
+
+        <Tooltip content="Undo" shortcut={["Ctrl", "Z"]}>
+          <button
+            onClick={(e) => {
+              onUndo();
+              e.currentTarget.blur();
+            }}
+            disabled={!canUndo}
+            className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-800 rounded transition outline-none border border-transparent focus-visible:border-active cursor-pointer disabled:opacity-40 disabled:pointer-events-none"
+          >
+            <Undo2 size={20} />
+          </button>
+        </Tooltip>
+
+        <Tooltip content="Redo" shortcut={["Ctrl", "Shift", "Z"]}>
+          <button
+            onClick={(e) => {
+              onRedo();
+              e.currentTarget.blur();
+            }}
+            disabled={!canRedo}
+            className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-800 rounded transition outline-none border border-transparent focus-visible:border-active cursor-pointer disabled:opacity-40 disabled:pointer-events-none"
+          >
+            <Redo2 size={20} />
+          </button>
+        </Tooltip>
+
+        <div className="w-px self-stretch bg-gray-750/80" />
+
+        <Tooltip content="Auto-track from here" shortcut={["Shift", "A"]}>
+          <button
+            onClick={(e) => {
+              onRunAhead();
+              e.currentTarget.blur();
+            }}
+            disabled={!canRunAhead}
+            className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-800 rounded transition outline-none border border-transparent focus-visible:border-active cursor-pointer disabled:opacity-40 disabled:pointer-events-none"
+          >
+            <FastForward size={20} />
+          </button>
+        </Tooltip>
+
+        <Tooltip
+          content={`Revert ${autoPointCount} auto-tracked location${autoPointCount === 1 ? "" : "s"}`}
+        >
+          <button
+            onClick={(e) => {
+              onRevertAuto();
+              e.currentTarget.blur();
+            }}
+            disabled={autoPointCount === 0}
+            className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-800 rounded transition outline-none border border-transparent focus-visible:border-active cursor-pointer disabled:opacity-40 disabled:pointer-events-none"
+          >
+            <Eraser size={20} />
+          </button>
+        </Tooltip>
       </div>
 
       {/* Main Stats & Settings Panel */}
@@ -391,6 +542,46 @@ export const ControlWidget: React.FC<ControlWidgetProps> = ({
             </div>
           </div>
 
+          {/* Row 2b: Interpolation */}
+          <div className="flex items-end justify-between gap-4">
+            <div className="flex flex-col">
+              <span className="text-sm text-gray-400 font-medium mb-2">
+                Interpolation
+              </span>
+              <div className="flex bg-gray-800/80 rounded-lg border border-gray-750 overflow-hidden shadow-sm">
+                {INTERPOLATION_OPTIONS.map(({ mode, label }) => (
+                  <button
+                    key={mode}
+                    onClick={() =>
+                      setSettings((s) => ({ ...s, interpolation: mode }))
+                    }
+                    aria-pressed={settings.interpolation === mode}
+                    className={`px-3 py-1 text-sm font-medium border-r last:border-r-0 border-gray-700 transition outline-none focus-visible:bg-gray-700 ${settings.interpolation === mode ? "bg-gray-700 text-white" : "text-gray-400 hover:bg-gray-700 hover:text-white"}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <label
+              className={`flex items-center gap-2 text-sm font-medium pb-1.5 ${settings.interpolation === "none" ? "text-gray-600" : "text-gray-400 cursor-pointer"}`}
+            >
+              <input
+                type="checkbox"
+                checked={settings.exportInterpolated}
+                disabled={settings.interpolation === "none"}
+                onChange={(e) =>
+                  setSettings((s) => ({
+                    ...s,
+                    exportInterpolated: e.target.checked,
+                  }))
+                }
+                className="accent-active"
+              />
+              Include in CSV
+            </label>
+          </div>
+
           {/* Row 3: Object Controls */}
           <div className="flex items-center space-x-3">
             <div
@@ -421,10 +612,17 @@ export const ControlWidget: React.FC<ControlWidgetProps> = ({
                 </button>
               </Tooltip>
 
-              <div className="flex-1 flex items-center justify-center font-mono text-base font-medium text-gray-200 py-1.5">
-                Object&nbsp;
-                <span className="text-active text-lg">{activeObjectId}</span>
-                &nbsp;<span className="text-gray-500">/</span>&nbsp;{numObjects}
+              <div className="flex-1 min-w-0 flex items-center justify-center gap-2 font-mono text-base font-medium text-gray-200 py-1.5">
+                <span
+                  className="w-3 h-3 rounded-full shrink-0"
+                  style={{ backgroundColor: activeObject?.color }}
+                />
+                <span className="text-lg truncate">
+                  {getObjectLabel(activeObjectId, activeObject)}
+                </span>
+                <span className="text-gray-500 shrink-0">
+                  {activeIndex + 1}/{objects.length}
+                </span>
               </div>
 
               <Tooltip content="Next object" shortcut={["Tab"]}>
@@ -443,14 +641,107 @@ export const ControlWidget: React.FC<ControlWidgetProps> = ({
               </Tooltip>
             </div>
 
+            <Tooltip content="Edit names, colors and categories">
+              <button
+                onClick={(e) => {
+                  e.currentTarget.blur();
+                  onEditObjects();
+                }}
+                /* onPointerDown={(e) => e.stopPropagation()} */
+                className="p-3 bg-gray-800 hover:bg-gray-700 border border-gray-750 rounded-lg text-gray-300 hover:text-white transition outline-none focus-visible:border-active group cursor-pointer"
+              >
+                <Tags
+                  size={20}
+                  className="text-gray-400 group-hover:text-active group-hover:scale-110 transition-all"
+                />
+              </button>
+            </Tooltip>
+
+            <Tooltip content="Delete, merge or split tracks">
+              <button
+                onClick={(e) => {
+                  e.currentTarget.blur();
+                  onEditTracks();
+                }}
+                className="p-3 bg-gray-800 hover:bg-gray-700 border border-gray-750 rounded-lg text-gray-300 hover:text-white transition outline-none focus-visible:border-active group cursor-pointer"
+              >
+                <GitFork
+                  size={20}
+                  className="text-gray-400 group-hover:text-active group-hover:scale-110 transition-all"
+                />
+              </button>
+            </Tooltip>
+
+            <Tooltip
+              content={
+                regionCount > 0
+                  ? `Edit regions (${regionCount})`
+                  : "Define regions"
+              }
+            >
+              <button
+                onClick={(e) => {
+                  e.currentTarget.blur();
+                  onEditRegions();
+                }}
+                className="p-3 bg-gray-800 hover:bg-gray-700 border border-gray-750 rounded-lg text-gray-300 hover:text-white transition outline-none focus-visible:border-active group cursor-pointer"
+              >
+                <Pentagon
+                  size={20}
+                  className="text-gray-400 group-hover:text-active group-hover:scale-110 transition-all"
+                />
+              </button>
+            </Tooltip>
+
+            <Tooltip
+              content={
+                behaviorCount > 0
+                  ? `Edit ethogram (${behaviorCount} behaviors)`
+                  : "Define behaviors"
+              }
+            >
+              <button
+                onClick={(e) => {
+                  e.currentTarget.blur();
+                  onEditEthogram();
+                }}
+                className="p-3 bg-gray-800 hover:bg-gray-700 border border-gray-750 rounded-lg text-gray-300 hover:text-white transition outline-none focus-visible:border-active group cursor-pointer"
+              >
+                <ListChecks
+                  size={20}
+                  className="text-gray-400 group-hover:text-active group-hover:scale-110 transition-all"
+                />
+              </button>
+            </Tooltip>
+
+            <Tooltip
+              content={
+                settings.assistedTracking
+                  ? "Disable assisted tracking"
+                  : "Enable assisted tracking"
+              }
+              shortcut={["A"]}
+            >
+              <button
+                onClick={(e) => {
+                  e.currentTarget.blur();
+                  onToggleAssist();
+                }}
+                aria-pressed={settings.assistedTracking}
+                className={`p-3 bg-gray-800 hover:bg-gray-700 border rounded-lg text-gray-300 hover:text-white transition outline-none focus-visible:border-active group cursor-pointer ${settings.assistedTracking ? "border-active" : "border-gray-750"}`}
+              >
+                <WandSparkles
+                  size={20}
+                  className={`group-hover:scale-110 transition-all ${settings.assistedTracking ? "text-active" : "text-gray-400 group-hover:text-active"}`}
+                />
+              </button>
+            </Tooltip>
+
             <Tooltip content="Add new object track" shortcut={["N"]}>
               <button
                 onClick={(e) => {
                   e.currentTarget.blur();
-                  setNumObjects((n) => {
-                    setActiveObjectId(n + 1);
-                    return n + 1;
-                  });
+                  onAddObject();
                 }}
                 /* onPointerDown={(e) => e.stopPropagation()} */
                 className="p-3 bg-gray-800 hover:bg-gray-700 border border-gray-750 rounded-lg text-gray-300 hover:text-white transition outline-none focus-visible:border-active group cursor-pointer"
@@ -463,8 +754,139 @@ export const ControlWidget: React.FC<ControlWidgetProps> = ({
             </Tooltip>
           </div>
 
+          {/* Row 3b: Keypoints of the active object */}
+          {keypoints.length > 0 && (
+            <div className="flex items-center gap-2">
+              <Tooltip content="Next keypoint" shortcut={["K"]}>
+                <span className="text-xs font-medium text-gray-500 shrink-0">
+                  Keypoint
+                </span>
+              </Tooltip>
+              <div className="flex-1 flex flex-wrap gap-1.5">
+                {keypoints.map(({ name, isLogged }) => (
+                  <button
+                    key={name}
+                    onClick={(e) => {
+                      e.currentTarget.blur();
+                      onSelectKeypoint?.(name);
+                    }}
+                    aria-pressed={name === activeKeypoint}
+                    className={`flex items-center gap-1.5 px-2 py-0.5 text-xs font-mono rounded-md border transition outline-none focus-visible:border-active cursor-pointer ${name === activeKeypoint ? "border-active text-white bg-gray-750" : "border-gray-750 text-gray-400 bg-gray-800 hover:text-white"}`}
+                  >
+                    <span
+                      className={`w-1.5 h-1.5 rounded-full shrink-0 ${isLogged ? "bg-active" : "border border-gray-500"}`}
+                    />
+                    {name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Row 3c: Position of the active object */}
+          <div className="flex items-center gap-2">
+            <span className="text-xs font-medium text-gray-500 shrink-0">
+              Position
+            </span>
+            <div className="flex-1 flex flex-wrap gap-x-3 font-mono text-xs text-gray-300">
+              {activePosition ? (
+                <>
+                  {hasLocation(activePosition) ? (
+                    <span>
+                      {activePosition.x.toFixed(1)},{" "}
+                      {activePosition.y.toFixed(1)} px
+                    </span>
+                  ) : (
+                    <span className="text-gray-500">no location</span>
+                  )}
+                  {activePosition.visibility && (
+                    <span className="text-inactive">
+                      {VISIBILITY_LABELS[activePosition.visibility]}
+                    </span>
+                  )}
+                  {worldPosition && (
+                    <span className="text-active">
+                      {worldPosition.x.toFixed(2)}, {worldPosition.y.toFixed(2)}{" "}
+                      {worldPosition.unit}
+                    </span>
+                  )}
+                  {activePosition.likelihood !== undefined && (
+                    <span
+                      title="Likelihood of the imported prediction"
+                      className={
+                        activePosition.likelihood < LOW_LIKELIHOOD
+                          ? "text-active"
+                          : "text-gray-500"
+                      }
+                    >
+                      p = {activePosition.likelihood.toFixed(2)}
+                    </span>
+                  )}
+                </>
+              ) : (
+                <span className="text-gray-600">not logged</span>
+              )}
+            </div>
+            <Tooltip
+              content={
+                calibration
+                  ? `Edit scale calibration (${calibration.unit})`
+                  : "Calibrate scale"
+              }
+            >
+              <button
+                onClick={(e) => {
+                  e.currentTarget.blur();
+                  onCalibrate();
+                }}
+                aria-pressed={calibration !== null}
+                className={`p-1.5 bg-gray-800 hover:bg-gray-700 border rounded-md text-gray-300 hover:text-white transition outline-none focus-visible:border-active group cursor-pointer ${calibration ? "border-active" : "border-gray-750"}`}
+              >
+                <Ruler
+                  size={14}
+                  className={`group-hover:scale-110 transition-all ${calibration ? "text-active" : "text-gray-400 group-hover:text-active"}`}
+                />
+              </button>
+            </Tooltip>
+            <Tooltip
+              content={
+                isRectified
+                  ? "Edit perspective calibration"
+                  : "Calibrate perspective"
+              }
+            >
+              <button
+                onClick={(e) => {
+                  e.currentTarget.blur();
+                  onRectify();
+                }}
+                aria-pressed={isRectified}
+                className={`p-1.5 bg-gray-800 hover:bg-gray-700 border rounded-md text-gray-300 hover:text-white transition outline-none focus-visible:border-active group cursor-pointer ${isRectified ? "border-active" : "border-gray-750"}`}
+              >
+                <Grid3x3
+                  size={14}
+                  className={`group-hover:scale-110 transition-all ${isRectified ? "text-active" : "text-gray-400 group-hover:text-active"}`}
+                />
+              </button>
+            </Tooltip>
+            <Tooltip content="Kinematics (speed, heading, path length)">
+              <button
+                onClick={(e) => {
+                  e.currentTarget.blur();
+                  onAnalyze();
+                }}
+                className="p-1.5 bg-gray-800 hover:bg-gray-700 border border-gray-750 rounded-md text-gray-300 hover:text-white transition outline-none focus-visible:border-active group cursor-pointer"
+              >
+                <Activity
+                  size={14}
+                  className="text-gray-400 group-hover:text-active group-hover:scale-110 transition-all"
+                />
+              </button>
+            </Tooltip>
+          </div>
+
           {/* Row 4: I/O */}
-          <div className="grid grid-cols-3 gap-3 pt-1">
+          <div className="grid grid-cols-4 gap-3 pt-1">
             <button
               onClick={(e) => {
                 onLoadVideo();
@@ -482,7 +904,7 @@ export const ControlWidget: React.FC<ControlWidgetProps> = ({
 
             <button
               onClick={(e) => {
-                onImportCSV();
+                onImport();
                 e.currentTarget.blur();
               }}
               /* onPointerDown={(e) => e.stopPropagation()} */
@@ -492,12 +914,12 @@ export const ControlWidget: React.FC<ControlWidgetProps> = ({
                 size={18}
                 className="text-gray-400 group-hover:text-active group-hover:scale-110 transition-all"
               />
-              <span>Import CSV</span>
+              <span>Import</span>
             </button>
 
             <button
               onClick={(e) => {
-                onExportCSV();
+                onExport();
                 e.currentTarget.blur();
               }}
               /* onPointerDown={(e) => e.stopPropagation()} */
@@ -507,8 +929,25 @@ export const ControlWidget: React.FC<ControlWidgetProps> = ({
                 size={18}
                 className="text-gray-400 group-hover:text-active group-hover:scale-110 transition-all"
               />
-              <span>Export CSV</span>
+              <span>Export</span>
             </button>
+
+            <Tooltip content="Save project file" shortcut={["Ctrl", "S"]}>
+              <button
+                onClick={(e) => {
+                  onSaveProject();
+                  e.currentTarget.blur();
+                }}
+                /* onPointerDown={(e) => e.stopPropagation()} */
+                className="flex flex-col items-center justify-center space-y-1 bg-gray-800 hover:bg-gray-700 border border-gray-750 text-gray-300 hover:text-white text-xs font-medium py-2 rounded-lg cursor-pointer transition group outline-none focus-visible:border-active"
+              >
+                <Save
+                  size={18}
+                  className="text-gray-400 group-hover:text-active group-hover:scale-110 transition-all"
+                />
+                <span>Save Project</span>
+              </button>
+            </Tooltip>
           </div>
         </div>
       </div>
@@ -0,0 +1,221 @@
+import React, { useEffect, useRef, useState } from "react";
+import { X, ListChecks, Plus, Trash2 } from "lucide-react";
+import { Behavior, BehaviorEvent, BehaviorType } from "@/types";
+import { createBehavior, getBehaviorKeyError } from "@/services/ethogram";
+import { useDialogFocusTrap } from "@/hooks/useDialogFocusTrap";
+
+interface Props {
+  isOpen: boolean;
+  behaviors: Behavior[];
+  events: BehaviorEvent[]; // For the event counts of each behavior
+  onClose: () => void;
+  onSave: (behaviors: Behavior[]) => void;
+}
+
+export const EthogramDialog: React.FC<Props> = ({
+  isOpen,
+  behaviors,
+  events,
+  onClose,
+  onSave,
+}) => {
+  const dialogRef = useRef<HTMLFormElement>(null);
+
+  // Behaviors removed from the draft take their coded events along on save
+  const [draft, setDraft] = useState<Behavior[]>(behaviors);
+
+  useEffect(() => {
+    if (isOpen) setDraft(behaviors);
+  }, [isOpen, behaviors]);
+
+  useDialogFocusTrap(dialogRef, isOpen, onClose, {
+    initialFocus: (dialog) =>
+      dialog.querySelector<HTMLElement>('input[type="text"], button'),
+  });
+
+  if (!isOpen) return null;
+
+  const updateDraft = (id: number, patch: Partial<Behavior>) => {
+    setDraft((prev) => prev.map((b) => (b.id === id ? { ...b, ...patch } : b)));
+  };
+
+  const handleAdd = () => {
+    setDraft((prev) => {
+      const nextId = prev.reduce((acc, b) => Math.max(acc, b.id), 0) + 1;
+      return [...prev, createBehavior(nextId, prev)];
+    });
+  };
+
+  const countEvents = (id: number) =>
+    events.filter((e) => e.behaviorId === id).length;
+  const errors = new Map(
+    draft.map((b) => [b.id, getBehaviorKeyError(b.key, draft, b.id)]),
+  );
+  const isValid = [...errors.values()].every((error) => error === null);
+  const removedEvents = behaviors
+    .filter((b) => !draft.some((d) => d.id === b.id))
+    .reduce((acc, b) => acc + countEvents(b.id), 0);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+    onSave(draft.map((b) => ({ ...b, name: b.name.trim() })));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <form
+        ref={dialogRef}
+        onSubmit={handleSubmit}
+        className="bg-gray-900 border border-gray-750 rounded-xl shadow-2xl w-full max-w-xl overflow-hidden flex flex-col max-h-[85vh]"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="ethogram-title"
+      >
+        {/* Header (Lighter - 850) */}
+        <div className="flex justify-between items-center px-6 py-4 border-b border-gray-800 bg-gray-850">
+          <div className="flex items-center gap-3">
+            <ListChecks className="text-active" size={22} />
+            <h2 id="ethogram-title" className="text-lg font-bold text-white">
+              Ethogram
+            </h2>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition p-1.5 rounded-lg border border-transparent focus-visible:border-active outline-none"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Behavior Table */}
+        <div className="p-6 overflow-y-auto custom-scrollbar space-y-2">
+          {draft.length === 0 ? (
+            <p className="text-sm text-gray-500 px-1">
+              No behaviors yet. Each behavior is coded with its key for the
+              active object at the current frame, also during playback.
+            </p>
+          ) : (
+            <div className="grid grid-cols-[2.5rem_1fr_3rem_5.5rem_3rem_2.25rem] gap-3 px-1 text-sm text-gray-500 font-medium">
+              <span>Color</span>
+              <span>Name</span>
+              <span>Key</span>
+              <span>Type</span>
+              <span>Events</span>
+              <span />
+            </div>
+          )}
+          {draft.map((behavior) => {
+            const error = errors.get(behavior.id);
+            return (
+              <div key={behavior.id} className="px-1 py-1">
+                <div className="grid grid-cols-[2.5rem_1fr_3rem_5.5rem_3rem_2.25rem] gap-3 items-center">
+                  <input
+                    type="color"
+                    value={behavior.color}
+                    onChange={(e) =>
+                      updateDraft(behavior.id, { color: e.target.value })
+                    }
+                    className="w-9 h-9 bg-transparent border border-gray-750 rounded-lg cursor-pointer outline-none focus-visible:border-active"
+                  />
+                  <input
+                    type="text"
+                    value={behavior.name}
+                    placeholder={`behavior ${behavior.id}`}
+                    onChange={(e) =>
+                      updateDraft(behavior.id, { name: e.target.value })
+                    }
+                    className="w-full bg-gray-800/80 border border-gray-750 rounded-lg px-3 py-1.5 text-gray-200 placeholder-gray-600 outline-none focus:border-active"
+                  />
+                  <input
+                    type="text"
+                    value={behavior.key.toUpperCase()}
+                    maxLength={1}
+                    aria-label="Key"
+                    aria-invalid={error !== null}
+                    onChange={(e) =>
+                      updateDraft(behavior.id, {
+                        key: e.target.value.toLowerCase(),
+                      })
+                    }
+                    className={`w-full bg-gray-800/80 border rounded-lg px-2 py-1.5 text-center font-mono text-gray-200 outline-none focus:border-active ${error ? "border-active/60" : "border-gray-750"}`}
+                  />
+                  <select
+                    value={behavior.type}
+                    onChange={(e) =>
+                      updateDraft(behavior.id, {
+                        type: e.target.value as BehaviorType,
+                      })
+                    }
+                    className="w-full bg-gray-800/80 border border-gray-750 rounded-lg px-2 py-1.5 text-sm text-gray-200 outline-none focus:border-active"
+                  >
+                    <option value="state">State</option>
+                    <option value="point">Point</option>
+                  </select>
+                  <span className="font-mono text-gray-400 text-center">
+                    {countEvents(behavior.id)}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setDraft((prev) =>
+                        prev.filter((b) => b.id !== behavior.id),
+                      )
+                    }
+                    aria-label={`Delete ${behavior.name || `behavior ${behavior.id}`}`}
+                    className="p-2 text-gray-500 hover:text-white rounded-lg border border-transparent hover:bg-gray-800 transition outline-none focus-visible:border-active"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+                {error && <p className="mt-1 text-xs text-active">{error}</p>}
+              </div>
+            );
+          })}
+
+          <button
+            type="button"
+            onClick={handleAdd}
+            className="mt-2 flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-gray-400 hover:text-white rounded-lg border border-transparent hover:bg-gray-800 transition outline-none focus-visible:border-active group"
+          >
+            <Plus
+              size={16}
+              className="group-hover:text-active transition-colors"
+            />
+            Add behavior
+          </button>
+          <p className="text-xs text-gray-500 px-1">
+            A state starts with its key and stops with the next press; a point
+            is an instant. Pressing the key on the frame where an event starts
+            removes it.
+          </p>
+        </div>
+
+        {/* Footer Actions (Lighter - 850) */}
+        <div className="bg-gray-850 px-6 py-4 flex items-center justify-end gap-3 border-t border-gray-800">
+          {removedEvents > 0 && (
+            <span className="mr-auto text-xs text-gray-500">
+              Removes <span className="text-active">{removedEvents}</span> coded
+              events
+            </span>
+          )}
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium bg-gray-800 hover:bg-gray-750 border border-gray-750 text-gray-400 hover:text-white rounded-lg transition outline-none focus-visible:border-active"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!isValid}
+            className="px-4 py-2 text-sm font-medium bg-gray-800 hover:bg-gray-750 border border-gray-750 text-gray-300 hover:text-white rounded-lg transition outline-none focus-visible:border-active disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,217 @@
+import React, { useEffect, useRef, useState } from "react";
+import { X, Download } from "lucide-react";
+import { useDialogFocusTrap } from "@/hooks/useDialogFocusTrap";
+
+export type ExportFormat = "csv" | "mot" | "dlc" | "coco" | "events";
+
+export interface ExportOptions {
+  motBoxSize: number; // px, for points logged without a box
+  dlcScorer: string;
+  cocoIncludeFrames: boolean; // Bundle the frame images with the JSON in a ZIP
+}
+
+const FORMATS: { format: ExportFormat; label: string; description: string }[] =
+  [
+    {
+      format: "csv",
+      label: "Tracks CSV",
+      description:
+        "One row per object and time with keypoints, boxes, regions and object names.",
+    },
+    {
+      format: "mot",
+      label: "MOTChallenge (gt.txt)",
+      description:
+        "frame,id,x,y,w,h,conf,class,visibility with 1-based frames. Keypoints are skipped.",
+    },
+    {
+      format: "dlc",
+      label: "DeepLabCut labels",
+      description:
+        "Multi-animal CollectedData CSV: one column pair per individual and body part, one row per frame image.",
+    },
+    {
+      format: "coco",
+      label: "COCO JSON",
+      description:
+        "Images, annotations (boxes and keypoints) and categories for the frames that have points.",
+    },
+    {
+      format: "events",
+      label: "Behavior events (BORIS)",
+      description:
+        "Coded ethogram events as a BORIS-like table: subject, behavior, time and START / STOP / POINT status.",
+    },
+  ];
+
+interface Props {
+  isOpen: boolean;
+  options: ExportOptions;
+  progress: { done: number; total: number } | null; // Frame extraction of a running export
+  onClose: () => void;
+  onExport: (format: ExportFormat, options: ExportOptions) => void;
+}
+
+export const ExportDialog: React.FC<Props> = ({
+  isOpen,
+  options,
+  progress,
+  onClose,
+  onExport,
+}) => {
+  const dialogRef = useRef<HTMLFormElement>(null);
+
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [draft, setDraft] = useState<ExportOptions>(options);
+
+  useEffect(() => {
+    if (isOpen) setDraft(options);
+  }, [isOpen, options]);
+
+  useDialogFocusTrap(dialogRef, isOpen, onClose, {
+    initialFocus: (dialog) =>
+      dialog.querySelector<HTMLElement>('input[type="radio"]:checked'),
+    // Arrow keys move within the radio group, Tab only stops at the selected format
+    focusable:
+      'button:not([disabled]), input:not([type="radio"]), input[type="radio"]:checked',
+  });
+
+  if (!isOpen) return null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (progress) return;
+    onExport(format, {
+      motBoxSize: draft.motBoxSize > 0 ? draft.motBoxSize : options.motBoxSize,
+      dlcScorer: draft.dlcScorer.trim() || options.dlcScorer,
+      cocoIncludeFrames: draft.cocoIncludeFrames,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <form
+        ref={dialogRef}
+        onSubmit={handleSubmit}
+        className="bg-gray-900 border border-gray-750 rounded-xl shadow-2xl w-full max-w-md overflow-hidden flex flex-col max-h-[85vh]"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="export-title"
+      >
+        {/* Header (Lighter - 850) */}
+        <div className="flex justify-between items-center px-6 py-4 border-b border-gray-800 bg-gray-850">
+          <div className="flex items-center gap-3">
+            <Download className="text-active" size={22} />
+            <h2 id="export-title" className="text-lg font-bold text-white">
+              Export
+            </h2>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition p-1.5 rounded-lg border border-transparent focus-visible:border-active outline-none"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Formats */}
+        <div className="p-6 overflow-y-auto custom-scrollbar space-y-2">
+          {FORMATS.map(({ format: f, label, description }) => (
+            <label
+              key={f}
+              className={`block px-4 py-3 rounded-lg border cursor-pointer transition ${format === f ? "border-active bg-gray-800/60" : "border-gray-750 hover:bg-gray-800/40"}`}
+            >
+              <div className="flex items-center gap-3">
+                <input
+                  type="radio"
+                  name="export-format"
+                  value={f}
+                  checked={format === f}
+                  onChange={() => setFormat(f)}
+                  className="accent-active"
+                />
+                <span className="text-sm font-medium text-gray-200">
+                  {label}
+                </span>
+              </div>
+              <p className="text-xs text-gray-500 mt-1 ml-6">{description}</p>
+
+              {/* Format Options */}
+              {f === "mot" && format === f && (
+                <div className="flex items-center gap-3 mt-3 ml-6 text-sm">
+                  <span className="text-gray-400">Box size for points</span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={draft.motBoxSize}
+                    onChange={(e) =>
+                      setDraft((d) => ({
+                        ...d,
+                        motBoxSize: Number(e.target.value),
+                      }))
+                    }
+                    className="w-20 bg-gray-800/80 border border-gray-750 rounded-lg px-3 py-1 text-gray-200 outline-none focus:border-active"
+                  />
+                  <span className="text-gray-500">px</span>
+                </div>
+              )}
+              {f === "dlc" && format === f && (
+                <div className="flex items-center gap-3 mt-3 ml-6 text-sm">
+                  <span className="text-gray-400">Scorer</span>
+                  <input
+                    type="text"
+                    value={draft.dlcScorer}
+                    onChange={(e) =>
+                      setDraft((d) => ({ ...d, dlcScorer: e.target.value }))
+                    }
+                    className="flex-1 bg-gray-800/80 border border-gray-750 rounded-lg px-3 py-1 text-gray-200 outline-none focus:border-active"
+                  />
+                </div>
+              )}
+              {f === "coco" && format === f && (
+                <label className="flex items-center gap-3 mt-3 ml-6 text-sm text-gray-400 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={draft.cocoIncludeFrames}
+                    onChange={(e) =>
+                      setDraft((d) => ({
+                        ...d,
+                        cocoIncludeFrames: e.target.checked,
+                      }))
+                    }
+                    className="accent-active"
+                  />
+                  Bundle frame images (ZIP)
+                </label>
+              )}
+            </label>
+          ))}
+        </div>
+
+        {/* Footer Actions (Lighter - 850) */}
+        <div className="bg-gray-850 px-6 py-4 flex items-center justify-end gap-3 border-t border-gray-800">
+          {progress && (
+            <span className="mr-auto text-xs text-gray-500 font-mono">
+              Extracting frame {progress.done} / {progress.total}
+            </span>
+          )}
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium bg-gray-800 hover:bg-gray-750 border border-gray-750 text-gray-400 hover:text-white rounded-lg transition outline-none focus-visible:border-active"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={progress !== null}
+            className="px-4 py-2 text-sm font-medium bg-gray-800 hover:bg-gray-750 border border-gray-750 text-gray-300 hover:text-white rounded-lg transition outline-none focus-visible:border-active disabled:opacity-50"
+          >
+            Export
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
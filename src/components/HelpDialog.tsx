@@ -1,5 +1,5 @@
 import React, { useEffect, useRef } from 'react';
-import { X, Hand, CircleAlert, ZoomIn, Crosshair, Trash2, PlusCircle, ArrowLeft, ArrowRight, ArrowLeftToLine, ArrowRightToLine, Play, ChevronsUpDown, ChevronLeft, ChevronRight, HelpCircle } from 'lucide-react';
+import { X, Hand, CircleAlert, ZoomIn, Crosshair, Trash2, PlusCircle, ArrowLeft, ArrowRight, ArrowLeftToLine, ArrowRightToLine, Play, ChevronsUpDown, ChevronLeft, ChevronRight, HelpCircle, Undo2, Save, WandSparkles, CornerDownLeft, FastForward, GanttChart, Waypoints, BoxSelect, Pentagon, ArrowLeftRight, EyeOff, MessageSquare, ListChecks } from 'lucide-react';
 import { PiMouseLeftClickFill, PiMouseScroll } from 'react-icons/pi';
 import { Key } from '@/components/Key';
 
@@ -94,6 +94,17 @@ export const HelpDialog: React.FC<Props> = ({ isOpen, onClose }) => {
                     <ChevronsUpDown size={20} className="text-active" />
                   </dd>
 
+                  <dt className="flex justify-end whitespace-nowrap"><Key>T</Key></dt>
+                  <dd className="text-gray-300 text-base">
+                    <div className="flex items-center gap-3">
+                      <span>Show/hide timeline</span>
+                      <GanttChart size={20} className="text-active" />
+                    </div>
+                    <div className="flex gap-2 items-center text-gray-500">
+                      <span>click to seek, drag to select a range</span>
+                    </div>
+                  </dd>
+
                   <dt className="flex justify-end whitespace-nowrap"><Key>Esc</Key></dt>
                   <dd className="text-gray-300 text-base flex items-center gap-3">
                     <span>Show/hide this help</span>
@@ -116,6 +127,15 @@ export const HelpDialog: React.FC<Props> = ({ isOpen, onClose }) => {
                       <Crosshair size={20} className="text-active" />
                   </dd>
                   
+                  <dt className="flex justify-end whitespace-nowrap items-center gap-1.5">
+                      <Key>Ctrl</Key> 
+                      <span className="text-gray-400 text-sm">Drag</span>
+                  </dt>
+                  <dd className="text-gray-300 text-base flex items-center gap-3">
+                      <span>Draw bounding box (drag corners to resize)</span>
+                      <BoxSelect size={20} className="text-active" />
+                  </dd>
+
                   <dt className="flex justify-end whitespace-nowrap items-center">
                      <Key>Tab</Key> <span className="text-gray-500 text-sm mx-1">/</span> <Key>Shift</Key><Key>Tab</Key>
                   </dt>
@@ -133,11 +153,104 @@ export const HelpDialog: React.FC<Props> = ({ isOpen, onClose }) => {
                       <PlusCircle size={20} className="text-active" />
                   </dd>
                   
+                  <dt className="flex justify-end whitespace-nowrap items-center">
+                     <Key>K</Key> <span className="text-gray-500 text-sm mx-1">/</span> <Key>Shift</Key><Key>K</Key>
+                  </dt>
+                  <dd className="text-gray-300 text-base flex items-center gap-3">
+                      <span>Cycle next / previous keypoint</span>
+                      <Waypoints size={20} className="text-active" />
+                  </dd>
+
+                  <dt className="flex justify-end whitespace-nowrap"><Key>G</Key></dt>
+                  <dd className="text-gray-300 text-base">
+                    <div className="flex items-center gap-3">
+                      <span>Draw region (polygon)</span>
+                      <Pentagon size={20} className="text-active" />
+                    </div>
+                    <div className="flex gap-2 items-center text-gray-500">
+                      <span>Enter to close, Backspace to remove a vertex</span>
+                    </div>
+                  </dd>
+
+                  <dt className="flex justify-end whitespace-nowrap"><Key>A</Key></dt>
+                  <dd className="text-gray-300 text-base flex items-center gap-3">
+                      <span>Toggle assisted tracking</span>
+                      <WandSparkles size={20} className="text-active" />
+                  </dd>
+
+                  <dt className="flex justify-end whitespace-nowrap"><Key>Enter</Key></dt>
+                  <dd className="text-gray-300 text-base flex items-center gap-3">
+                      <span>Accept suggested location</span>
+                      <CornerDownLeft size={20} className="text-active" />
+                  </dd>
+
+                  <dt className="flex justify-end whitespace-nowrap"><Key>Shift</Key><Key>A</Key></dt>
+                  <dd className="text-gray-300 text-base">
+                    <div className="flex items-center gap-3">
+                      <span>Auto-track active object from here</span>
+                      <FastForward size={20} className="text-active" />
+                    </div>
+                    <div className="flex gap-2 items-center text-gray-500">
+                      <span>press Esc to cancel</span>
+                    </div>
+                  </dd>
+
                   <dt className="flex justify-end whitespace-nowrap"><Key>X</Key></dt>
                   <dd className="text-gray-300 text-base flex items-center gap-3">
                       <span>Delete current record</span>
                       <Trash2 size={20} className="text-active" />
                   </dd>
+
+                  <dt className="flex justify-end whitespace-nowrap items-center">
+                     <Key>O</Key> <span className="text-gray-500 text-sm mx-1">/</span> <Key>Shift</Key><Key>O</Key>
+                  </dt>
+                  <dd className="text-gray-300 text-base">
+                    <div className="flex items-center gap-3">
+                      <span>Mark as occluded / not visible</span>
+                      <EyeOff size={20} className="text-active" />
+                    </div>
+                    <div className="flex gap-2 items-center text-gray-500">
+                      <span>occluded keeps an estimated location; not visible (out of frame, not applicable) has none</span>
+                    </div>
+                  </dd>
+
+                  <dt className="flex justify-end whitespace-nowrap"><Key>S</Key></dt>
+                  <dd className="text-gray-300 text-base">
+                    <div className="flex items-center gap-3">
+                      <span>Swap identities of two objects</span>
+                      <ArrowLeftRight size={20} className="text-active" />
+                    </div>
+                    <div className="flex gap-2 items-center text-gray-500">
+                      <span>click both markers; from here on, or within the timeline selection</span>
+                    </div>
+                  </dd>
+
+                  <dt className="flex justify-end whitespace-nowrap items-center">
+                     <Key>1</Key> <span className="text-gray-500 text-sm mx-1">…</span> <Key>9</Key>
+                  </dt>
+                  <dd className="text-gray-300 text-base">
+                    <div className="flex items-center gap-3">
+                      <span>Code behavior of the ethogram</span>
+                      <ListChecks size={20} className="text-active" />
+                    </div>
+                    <div className="flex gap-2 items-center text-gray-500">
+                      <span>the keys you bound; starts or stops a state, logs a point event</span>
+                    </div>
+                  </dd>
+
+                  <dt className="flex justify-end whitespace-nowrap items-center">
+                     <Key>Ctrl</Key><Key>Z</Key> <span className="text-gray-500 text-sm mx-1">/</span> <Key>Ctrl</Key><Key>Shift</Key><Key>Z</Key>
+                  </dt>
+                  <dd className="text-gray-300 text-base flex items-center gap-3">
+                      <span>Undo / redo last edit</span>
+                      <Undo2 size={20} className="text-active" />
+                  </dd>
+
+                  <dt className="flex justify-end whitespace-nowrap"><Key>Ctrl</Key><Key>S</Key></dt>
+                  <dd className="text-gray-300 text-base flex items-center gap-3">
+                      <span>Save project file</span>
+                      <Save size={20} className="text-active" />
+                  </dd>
                 </dl>
               </section>
             </div>
@@ -191,6 +304,19 @@ export const HelpDialog: React.FC<Props> = ({ isOpen, onClose }) => {
                       <span>Forward to final record</span>
                       <ArrowRightToLine size={20} className="text-active" />
                   </dd>
+
+                  <dt className="flex justify-end whitespace-nowrap items-center">
+                     <Key>J</Key> <span className="text-gray-500 text-sm mx-1">/</span> <Key>Shift</Key><Key>J</Key>
+                  </dt>
+                  <dd className="text-gray-300 text-base">
+                    <div className="flex items-center gap-3">
+                        <span>Next / previous flagged record</span>
+                        <MessageSquare size={20} className="text-active" />
+                    </div>
+                    <div className="flex gap-2 items-center text-gray-500">
+                      <span>rated low confidence or with a note (double-click a current marker to edit)</span>
+                    </div>
+                  </dd>
                 </dl>
                 <div className="mt-8 flex gap-2 items-start text-gray-500">
                   <CircleAlert size={16} className="mt-0.5 shrink-0" />
@@ -0,0 +1,319 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { X, Grid3x3, Plus, Trash2, Download } from "lucide-react";
+import { ControlPoint, HomographyCalibration } from "@/types";
+import { Key } from "@/components/Key";
+import { MIN_CONTROL_POINTS, solveHomography } from "@/services/homography";
+import { useDialogFocusTrap } from "@/hooks/useDialogFocusTrap";
+
+const DEFAULT_UNIT = "mm";
+
+// World coordinates are edited as text, so rows can be incomplete
+export interface ControlPointDraft {
+  image: { x: number; y: number };
+  world: { x: string; y: string };
+}
+
+export interface HomographyDraft {
+  points: ControlPointDraft[];
+  unit: string;
+}
+
+const toDraft = (
+  calibration: HomographyCalibration | null,
+): HomographyDraft => ({
+  points:
+    calibration?.points.map((p) => ({
+      image: p.image,
+      world: { x: p.world.x.toString(), y: p.world.y.toString() },
+    })) ?? [],
+  unit: calibration?.unit ?? DEFAULT_UNIT,
+});
+
+const parseCoordinate = (text: string): number =>
+  text.trim() === "" ? NaN : Number(text);
+
+// Control points of a draft, or null while some world coordinates are missing
+const parseDraft = (draft: HomographyDraft): ControlPoint[] | null => {
+  const points = draft.points.map((p) => ({
+    image: p.image,
+    world: { x: parseCoordinate(p.world.x), y: parseCoordinate(p.world.y) },
+  }));
+  return points.every(
+    (p) => Number.isFinite(p.world.x) && Number.isFinite(p.world.y),
+  )
+    ? points
+    : null;
+};
+
+interface Props {
+  isOpen: boolean;
+  homography: HomographyCalibration | null;
+  draft: HomographyDraft | null; // Edits kept while placing control points, replaces the stored calibration
+  showWorldGrid: boolean;
+  onClose: () => void;
+  onSave: (
+    homography: HomographyCalibration | null,
+    showWorldGrid: boolean,
+  ) => void;
+  onAddPoints: (draft: HomographyDraft) => void;
+  onExport: (homography: HomographyCalibration) => void;
+}
+
+export const HomographyDialog: React.FC<Props> = ({
+  isOpen,
+  homography,
+  draft: pendingDraft,
+  showWorldGrid,
+  onClose,
+  onSave,
+  onAddPoints,
+  onExport,
+}) => {
+  const dialogRef = useRef<HTMLFormElement>(null);
+
+  // World coordinates stay text while typing and are parsed on save
+  const [draft, setDraft] = useState<HomographyDraft>(() =>
+    toDraft(homography),
+  );
+  const [showGrid, setShowGrid] = useState(showWorldGrid);
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(pendingDraft ?? toDraft(homography));
+      setShowGrid(showWorldGrid);
+    }
+  }, [isOpen, pendingDraft, homography, showWorldGrid]);
+
+  // Focus the first missing world coordinate, e.g. of newly placed points
+  useDialogFocusTrap(dialogRef, isOpen, onClose, {
+    initialFocus: (dialog) =>
+      Array.from(
+        dialog.querySelectorAll<HTMLInputElement>("input[data-world]"),
+      ).find((i) => i.value === "") ??
+      dialog.querySelector<HTMLElement>("input, button"),
+    focusable: "button:not([disabled]), input:not([disabled])",
+  });
+
+  const points = useMemo(() => parseDraft(draft), [draft]);
+  const solved = useMemo(
+    () => (points ? solveHomography(points) : null),
+    [points],
+  );
+
+  if (!isOpen) return null;
+
+  const unit = draft.unit.trim() || DEFAULT_UNIT;
+  const calibration: HomographyCalibration | null =
+    points && solved ? { points, unit } : null;
+  const rmsError = solved
+    ? Math.sqrt(
+        solved.errors.reduce((acc, e) => acc + e * e, 0) / solved.errors.length,
+      )
+    : 0;
+
+  const updateWorld = (
+    index: number,
+    patch: Partial<{ x: string; y: string }>,
+  ) => {
+    setDraft((prev) => ({
+      ...prev,
+      points: prev.points.map((p, i) =>
+        i === index ? { ...p, world: { ...p.world, ...patch } } : p,
+      ),
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (calibration) onSave(calibration, showGrid);
+  };
+
+  let status: string;
+  if (draft.points.length < MIN_CONTROL_POINTS) {
+    status = `Place at least ${MIN_CONTROL_POINTS} control points (${draft.points.length} so far).`;
+  } else if (!points) {
+    status = "Enter the world coordinates of every control point.";
+  } else if (!solved) {
+    status =
+      "The points do not determine a perspective, e.g. three of them are collinear.";
+  } else {
+    status = `RMS reprojection error: ${rmsError.toPrecision(3)} ${unit}`;
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <form
+        ref={dialogRef}
+        onSubmit={handleSubmit}
+        className="bg-gray-900 border border-gray-750 rounded-xl shadow-2xl w-full max-w-xl overflow-hidden flex flex-col max-h-[85vh]"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="homography-title"
+      >
+        {/* Header (Lighter - 850) */}
+        <div className="flex justify-between items-center px-6 py-4 border-b border-gray-800 bg-gray-850">
+          <div className="flex items-center gap-3">
+            <Grid3x3 className="text-active" size={22} />
+            <h2 id="homography-title" className="text-lg font-bold text-white">
+              Perspective calibration
+            </h2>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition p-1.5 rounded-lg border border-transparent focus-visible:border-active outline-none"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Control Point Table */}
+        <div className="p-6 overflow-y-auto custom-scrollbar space-y-2">
+          <p className="text-sm text-gray-500 px-1 pb-2">
+            Click four or more points on the arena floor whose real-world
+            positions are known (e.g. corners and markings), then enter their
+            coordinates. Tracks on that plane can then be exported rectified.
+          </p>
+          {draft.points.length > 0 && (
+            <div className="grid grid-cols-[1.5rem_1fr_1fr_1fr_4.5rem_2.25rem] gap-3 px-1 text-sm text-gray-500 font-medium">
+              <span>#</span>
+              <span>Image (px)</span>
+              <span>World X</span>
+              <span>World Y</span>
+              <span>Error</span>
+              <span />
+            </div>
+          )}
+          {draft.points.map((p, index) => (
+            <div
+              key={index}
+              className="grid grid-cols-[1.5rem_1fr_1fr_1fr_4.5rem_2.25rem] gap-3 items-center px-1 py-1"
+            >
+              <span className="font-mono text-gray-300">{index + 1}</span>
+              <span className="font-mono text-xs text-gray-400">
+                {p.image.x.toFixed(1)}, {p.image.y.toFixed(1)}
+              </span>
+              <input
+                type="number"
+                step="any"
+                data-world
+                value={p.world.x}
+                aria-label={`World X of point ${index + 1}`}
+                onChange={(e) => updateWorld(index, { x: e.target.value })}
+                className="w-full bg-gray-800/80 border border-gray-750 rounded-lg px-3 py-1.5 text-gray-200 placeholder-gray-600 outline-none focus:border-active"
+              />
+              <input
+                type="number"
+                step="any"
+                data-world
+                value={p.world.y}
+                aria-label={`World Y of point ${index + 1}`}
+                onChange={(e) => updateWorld(index, { y: e.target.value })}
+                className="w-full bg-gray-800/80 border border-gray-750 rounded-lg px-3 py-1.5 text-gray-200 placeholder-gray-600 outline-none focus:border-active"
+              />
+              <span className="font-mono text-xs text-gray-400">
+                {solved ? solved.errors[index].toPrecision(2) : "–"}
+              </span>
+              <button
+                type="button"
+                onClick={() =>
+                  setDraft((prev) => ({
+                    ...prev,
+                    points: prev.points.filter((_, i) => i !== index),
+                  }))
+                }
+                aria-label={`Delete point ${index + 1}`}
+                className="p-2 text-gray-500 hover:text-white rounded-lg border border-transparent hover:bg-gray-800 transition outline-none focus-visible:border-active"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+
+          <button
+            type="button"
+            onClick={() => onAddPoints(draft)}
+            className="mt-2 flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-gray-400 hover:text-white rounded-lg border border-transparent hover:bg-gray-800 transition outline-none focus-visible:border-active group"
+          >
+            <Plus
+              size={16}
+              className="group-hover:text-active transition-colors"
+            />
+            Place points
+          </button>
+          <p className="text-xs text-gray-500 px-1">
+            Click to place control points, then press <Key>Enter</Key> to return
+            here.
+          </p>
+
+          <div className="pt-4 mt-2 border-t border-gray-800 space-y-3 px-1">
+            <div className="flex items-center gap-3 text-sm">
+              <span className="text-gray-500 font-medium">Unit</span>
+              <input
+                type="text"
+                value={draft.unit}
+                placeholder={DEFAULT_UNIT}
+                aria-label="Unit"
+                onChange={(e) =>
+                  setDraft((prev) => ({ ...prev, unit: e.target.value }))
+                }
+                className="w-20 bg-gray-800/80 border border-gray-750 rounded-lg px-3 py-1.5 text-gray-200 placeholder-gray-600 outline-none focus:border-active"
+              />
+              <span
+                className={`flex-1 text-xs ${solved ? "text-gray-300" : "text-gray-500"}`}
+              >
+                {status}
+              </span>
+            </div>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showGrid}
+                onChange={(e) => setShowGrid(e.target.checked)}
+                className="accent-active"
+              />
+              Draw the projected world grid on the video
+            </label>
+          </div>
+        </div>
+
+        {/* Footer Actions (Lighter - 850) */}
+        <div className="bg-gray-850 px-6 py-4 flex items-center justify-end gap-3 border-t border-gray-800">
+          {homography && (
+            <button
+              type="button"
+              onClick={() => onSave(null, showGrid)}
+              className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-400 hover:text-white rounded-lg border border-transparent hover:bg-gray-800 transition outline-none focus-visible:border-active"
+            >
+              <Trash2 size={16} />
+              Remove
+            </button>
+          )}
+          <button
+            type="button"
+            disabled={!calibration}
+            onClick={() => calibration && onExport(calibration)}
+            className="mr-auto flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-400 hover:text-white rounded-lg border border-transparent hover:bg-gray-800 transition outline-none focus-visible:border-active disabled:opacity-50 disabled:pointer-events-none"
+          >
+            <Download size={16} />
+            Export rectified CSV
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium bg-gray-800 hover:bg-gray-750 border border-gray-750 text-gray-400 hover:text-white rounded-lg transition outline-none focus-visible:border-active"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!calibration}
+            className="px-4 py-2 text-sm font-medium bg-gray-800 hover:bg-gray-750 border border-gray-750 text-gray-300 hover:text-white rounded-lg transition outline-none focus-visible:border-active disabled:opacity-50 disabled:pointer-events-none"
+          >
+            Save
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
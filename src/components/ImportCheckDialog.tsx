@@ -0,0 +1,243 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { X, TriangleAlert } from "lucide-react";
+import { TrackPoint } from "@/types";
+import {
+  ISSUE_ORDER,
+  ImportFixes,
+  ImportIssue,
+  ImportVideo,
+  applyImportFixes,
+  validateImport,
+} from "@/services/importValidation";
+import { useDialogFocusTrap } from "@/hooks/useDialogFocusTrap";
+
+const ISSUE_LABELS: Record<ImportIssue, { title: string; detail: string }> = {
+  outside: {
+    title: "Outside the video frame",
+    detail: "Locations or boxes beyond the video size",
+  },
+  "beyond-duration": {
+    title: "Outside the video duration",
+    detail: "Timestamps before the start or after the end",
+  },
+  "between-frames": {
+    title: "Between frames",
+    detail: "Timestamps that do not land on a frame at the detected FPS",
+  },
+  "off-schedule": {
+    title: "Off the sampling schedule",
+    detail: "Hidden until the sampling rate includes their frames",
+  },
+};
+
+const NO_FIXES: ImportFixes = {
+  snap: "none",
+  outside: "keep",
+  dropBeyondDuration: false,
+};
+
+const selectClass =
+  "bg-gray-800/80 border border-gray-750 rounded-lg px-2 py-1.5 text-sm text-gray-200 outline-none focus:border-active";
+
+interface Props {
+  isOpen: boolean;
+  points: TrackPoint[];
+  video: ImportVideo;
+  onClose: () => void;
+  onImport: (points: TrackPoint[]) => void;
+}
+
+export const ImportCheckDialog: React.FC<Props> = ({
+  isOpen,
+  points,
+  video,
+  onClose,
+  onImport,
+}) => {
+  const dialogRef = useRef<HTMLFormElement>(null);
+  const [fixes, setFixes] = useState<ImportFixes>(NO_FIXES);
+
+  useEffect(() => {
+    if (isOpen) setFixes(NO_FIXES);
+  }, [isOpen, points]);
+
+  useDialogFocusTrap(dialogRef, isOpen, onClose, {
+    initialFocus: (dialog) => dialog.querySelector("select"),
+  });
+
+  const report = useMemo(
+    () => (isOpen ? validateImport(points, video) : null),
+    [isOpen, points, video],
+  );
+  const fixed = useMemo(
+    () => (isOpen ? applyImportFixes(points, video, fixes) : null),
+    [isOpen, points, video, fixes],
+  );
+
+  if (!isOpen || !report || !fixed) return null;
+
+  const issues = ISSUE_ORDER.filter((issue) => report.counts[issue] > 0);
+  const hasTimingIssues =
+    report.counts["between-frames"] > 0 || report.counts["off-schedule"] > 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (fixed.points.length === 0) return;
+    onImport(fixed.points);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <form
+        ref={dialogRef}
+        onSubmit={handleSubmit}
+        className="bg-gray-900 border border-gray-750 rounded-xl shadow-2xl w-full max-w-xl overflow-hidden flex flex-col max-h-[85vh]"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="import-check-title"
+      >
+        {/* Header (Lighter - 850) */}
+        <div className="flex justify-between items-center px-6 py-4 border-b border-gray-800 bg-gray-850">
+          <div className="flex items-center gap-3">
+            <TriangleAlert className="text-active" size={22} />
+            <h2
+              id="import-check-title"
+              className="text-lg font-bold text-white"
+            >
+              Check Import
+            </h2>
+            <span className="text-sm text-gray-500">
+              {video.width}×{video.height} px,{" "}
+              {(video.duration / 1000).toFixed(2)} s, {video.fps.toFixed(2)} fps
+            </span>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition p-1.5 rounded-lg border border-transparent focus-visible:border-active outline-none"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto custom-scrollbar space-y-5">
+          {/* Problems */}
+          <div className="space-y-3">
+            {issues.map((issue) => (
+              <div key={issue} className="px-1">
+                <div className="flex items-baseline justify-between gap-3">
+                  <span className="text-sm font-medium text-gray-200">
+                    {ISSUE_LABELS[issue].title}
+                  </span>
+                  <span className="font-mono text-sm text-active">
+                    {report.counts[issue]} of {report.total}
+                  </span>
+                </div>
+                <p className="text-xs text-gray-500">
+                  {ISSUE_LABELS[issue].detail}
+                </p>
+                <ul className="mt-1 font-mono text-xs text-gray-400">
+                  {report.examples[issue].map((p) => (
+                    <li key={p.id}>
+                      #{p.objectId}
+                      {p.keypoint !== undefined && ` ${p.keypoint}`} at{" "}
+                      {p.timestamp.toFixed(2)} ms ({p.x.toFixed(1)},{" "}
+                      {p.y.toFixed(1)})
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+
+          {/* Fixes */}
+          <div className="pt-4 border-t border-gray-800 space-y-3 px-1">
+            <h3 className="text-sm font-bold text-gray-300">Fixes</h3>
+            {hasTimingIssues && (
+              <label className="flex items-center justify-between gap-3 text-sm text-gray-400">
+                Timestamps
+                <select
+                  value={fixes.snap}
+                  onChange={(e) =>
+                    setFixes((f) => ({
+                      ...f,
+                      snap: e.target.value as ImportFixes["snap"],
+                    }))
+                  }
+                  className={selectClass}
+                >
+                  <option value="none">Keep</option>
+                  <option value="frame">Snap to nearest frame</option>
+                  <option value="sampling">
+                    Snap to nearest sampling frame
+                  </option>
+                </select>
+              </label>
+            )}
+            {report.counts.outside > 0 && (
+              <label className="flex items-center justify-between gap-3 text-sm text-gray-400">
+                Outside the frame
+                <select
+                  value={fixes.outside}
+                  onChange={(e) =>
+                    setFixes((f) => ({
+                      ...f,
+                      outside: e.target.value as ImportFixes["outside"],
+                    }))
+                  }
+                  className={selectClass}
+                >
+                  <option value="keep">Keep</option>
+                  <option value="clamp">Clamp to the frame</option>
+                  <option value="drop">Drop</option>
+                </select>
+              </label>
+            )}
+            {report.counts["beyond-duration"] > 0 && (
+              <label className="flex items-center justify-between gap-3 text-sm text-gray-400 cursor-pointer">
+                Drop points outside the video duration
+                <input
+                  type="checkbox"
+                  checked={fixes.dropBeyondDuration}
+                  onChange={(e) =>
+                    setFixes((f) => ({
+                      ...f,
+                      dropBeyondDuration: e.target.checked,
+                    }))
+                  }
+                  className="accent-active"
+                />
+              </label>
+            )}
+          </div>
+
+          <p className="text-sm text-gray-400 px-1">
+            {fixed.points.length} of {report.total} points will be imported
+            {fixed.dropped > 0 && `, ${fixed.dropped} dropped`}
+            {fixed.collapsed > 0 &&
+              `, ${fixed.collapsed} merged onto the same frame`}
+            .
+          </p>
+        </div>
+
+        {/* Footer Actions (Lighter - 850) */}
+        <div className="bg-gray-850 px-6 py-4 flex items-center justify-end gap-3 border-t border-gray-800">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium bg-gray-800 hover:bg-gray-750 border border-gray-750 text-gray-400 hover:text-white rounded-lg transition outline-none focus-visible:border-active"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={fixed.points.length === 0}
+            className="px-4 py-2 text-sm font-medium bg-gray-800 hover:bg-gray-750 border border-gray-750 text-gray-300 hover:text-white rounded-lg transition outline-none focus-visible:border-active disabled:opacity-50"
+          >
+            Import
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
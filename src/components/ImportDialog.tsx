@@ -0,0 +1,308 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { X, FileSpreadsheet } from "lucide-react";
+import { CSVColumnMapping, TimeUnit } from "@/types";
+import {
+  CSV_DELIMITERS,
+  ParsedCSV,
+  getKeypointColumns,
+  guessCSVMapping,
+  parseDelimited,
+  parseMappedCSV,
+} from "@/utils";
+import { useDialogFocusTrap } from "@/hooks/useDialogFocusTrap";
+
+type ColumnRole = Exclude<
+  keyof CSVColumnMapping,
+  "delimiter" | "hasHeader" | "timeUnit" | "keypoints"
+>;
+
+const ROLES: { role: ColumnRole; label: string; required: boolean }[] = [
+  { role: "time", label: "Time", required: true },
+  { role: "objectId", label: "Object ID", required: true },
+  { role: "x", label: "X", required: false },
+  { role: "y", label: "Y", required: false },
+  { role: "width", label: "Box width", required: false },
+  { role: "height", label: "Box height", required: false },
+  { role: "name", label: "Object name", required: false },
+  { role: "category", label: "Category", required: false },
+  { role: "color", label: "Color", required: false },
+  { role: "visibility", label: "Visibility", required: false },
+  { role: "confidence", label: "Confidence", required: false },
+  { role: "note", label: "Note", required: false },
+  { role: "interpolated", label: "Interpolated flag", required: false },
+];
+
+const DELIMITER_LABELS: Record<string, string> = {
+  ",": "Comma",
+  ";": "Semicolon",
+  "\t": "Tab",
+  "|": "Pipe",
+};
+
+const TIME_UNITS: { unit: TimeUnit; label: string }[] = [
+  { unit: "ms", label: "Milliseconds" },
+  { unit: "s", label: "Seconds" },
+  { unit: "frame", label: "Frame index" },
+];
+
+const PREVIEW_ROWS = 6;
+const MAX_LISTED_REJECTIONS = 200;
+
+const selectClass =
+  "w-full bg-gray-800/80 border border-gray-750 rounded-lg px-2 py-1.5 text-sm text-gray-200 outline-none focus:border-active";
+
+interface Props {
+  isOpen: boolean;
+  fileName: string;
+  text: string;
+  videoFps: number; // Converts frame indices to time
+  onClose: () => void;
+  onImport: (parsed: ParsedCSV) => void;
+}
+
+export const ImportDialog: React.FC<Props> = ({
+  isOpen,
+  fileName,
+  text,
+  videoFps,
+  onClose,
+  onImport,
+}) => {
+  const dialogRef = useRef<HTMLFormElement>(null);
+  const [mapping, setMapping] = useState<CSVColumnMapping>(() =>
+    guessCSVMapping(text),
+  );
+
+  useEffect(() => {
+    if (isOpen) setMapping(guessCSVMapping(text));
+  }, [isOpen, text]);
+
+  useDialogFocusTrap(dialogRef, isOpen, onClose, {
+    initialFocus: (dialog) => dialog.querySelector("select"),
+  });
+
+  const rows = useMemo(
+    () => (isOpen ? parseDelimited(text, mapping.delimiter) : []),
+    [isOpen, text, mapping.delimiter],
+  );
+  const result = useMemo(
+    () => (isOpen ? parseMappedCSV(text, mapping, videoFps) : null),
+    [isOpen, text, mapping, videoFps],
+  );
+
+  if (!isOpen || !result) return null;
+
+  const columnCount = Math.max(0, ...rows.map((r) => r.fields.length));
+  const header = mapping.hasHeader
+    ? (rows[0]?.fields ?? []).map((f) => f.trim())
+    : [];
+  const columnName = (i: number) => header[i] || `Column ${i + 1}`;
+  const previewRows = rows.slice(
+    mapping.hasHeader ? 1 : 0,
+    (mapping.hasHeader ? 1 : 0) + PREVIEW_ROWS,
+  );
+  const keypointCount = getKeypointColumns(header).length;
+  const roleOf = (i: number) =>
+    ROLES.find(({ role }) => mapping[role] === i)?.label;
+
+  const update = (patch: Partial<CSVColumnMapping>) =>
+    setMapping((m) => ({ ...m, ...patch }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (result.points.length === 0) return;
+    onImport({ points: result.points, objects: result.objects });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <form
+        ref={dialogRef}
+        onSubmit={handleSubmit}
+        className="bg-gray-900 border border-gray-750 rounded-xl shadow-2xl w-full max-w-3xl overflow-hidden flex flex-col max-h-[85vh]"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="import-title"
+      >
+        {/* Header (Lighter - 850) */}
+        <div className="flex justify-between items-center px-6 py-4 border-b border-gray-800 bg-gray-850">
+          <div className="flex items-center gap-3 min-w-0">
+            <FileSpreadsheet className="text-active shrink-0" size={22} />
+            <h2 id="import-title" className="text-lg font-bold text-white">
+              Import CSV
+            </h2>
+            <span className="text-sm text-gray-500 truncate">{fileName}</span>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition p-1.5 rounded-lg border border-transparent focus-visible:border-active outline-none"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto custom-scrollbar space-y-5">
+          {/* File Layout */}
+          <div className="flex flex-wrap items-center gap-x-6 gap-y-2 px-1 text-sm">
+            <label className="flex items-center gap-3 text-gray-400">
+              Delimiter
+              <select
+                value={mapping.delimiter}
+                onChange={(e) =>
+                  // Columns differ per delimiter, so the mapping is guessed again
+                  setMapping(guessCSVMapping(text, e.target.value))
+                }
+                className={`${selectClass} w-32`}
+              >
+                {CSV_DELIMITERS.map((d) => (
+                  <option key={d} value={d}>
+                    {DELIMITER_LABELS[d]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-gray-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={mapping.hasHeader}
+                onChange={(e) => update({ hasHeader: e.target.checked })}
+                className="accent-active"
+              />
+              First row is a header
+            </label>
+            {keypointCount > 0 && (
+              <label className="flex items-center gap-2 text-gray-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={mapping.keypoints}
+                  onChange={(e) => update({ keypoints: e.target.checked })}
+                  className="accent-active"
+                />
+                Keypoint columns ({keypointCount})
+              </label>
+            )}
+          </div>
+
+          {/* Preview */}
+          <div className="overflow-x-auto custom-scrollbar border border-gray-800 rounded-lg">
+            <table className="text-xs font-mono whitespace-nowrap">
+              <thead className="bg-gray-850 text-gray-400">
+                <tr>
+                  {Array.from({ length: columnCount }, (_, i) => (
+                    <th key={i} className="px-3 py-1.5 text-left font-medium">
+                      <div>{columnName(i)}</div>
+                      <div className="font-sans text-[10px] text-active h-3">
+                        {roleOf(i)}
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="text-gray-300">
+                {previewRows.map(({ fields, line }) => (
+                  <tr key={line} className="border-t border-gray-800">
+                    {Array.from({ length: columnCount }, (_, i) => (
+                      <td key={i} className="px-3 py-1">
+                        {fields[i] ?? ""}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Column Mapping */}
+          <div className="grid grid-cols-3 gap-x-4 gap-y-3 px-1">
+            {ROLES.map(({ role, label, required }) => (
+              <label key={role} className="flex flex-col gap-1">
+                <span className="text-xs font-medium text-gray-500">
+                  {label}
+                  {required && <span className="text-active"> *</span>}
+                </span>
+                <div className="flex gap-2">
+                  <select
+                    value={mapping[role]}
+                    onChange={(e) => update({ [role]: Number(e.target.value) })}
+                    className={selectClass}
+                  >
+                    <option value={-1}>—</option>
+                    {Array.from({ length: columnCount }, (_, i) => (
+                      <option key={i} value={i}>
+                        {columnName(i)}
+                      </option>
+                    ))}
+                  </select>
+                  {role === "time" && (
+                    <select
+                      value={mapping.timeUnit}
+                      onChange={(e) =>
+                        update({ timeUnit: e.target.value as TimeUnit })
+                      }
+                      aria-label="Time unit"
+                      className={selectClass}
+                    >
+                      {TIME_UNITS.map(({ unit, label }) => (
+                        <option key={unit} value={unit}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              </label>
+            ))}
+          </div>
+
+          {/* Result */}
+          <div className="px-1 space-y-2">
+            <p className="text-sm text-gray-400">
+              {result.points.length} points from {result.rowCount} rows
+              {result.rejected.length > 0 && (
+                <span className="text-active">
+                  , {result.rejected.length} rows rejected
+                </span>
+              )}
+            </p>
+            {result.rejected.length > 0 && (
+              <ul className="max-h-40 overflow-y-auto custom-scrollbar bg-gray-950/60 border border-gray-800 rounded-lg px-3 py-2 text-xs font-mono text-gray-400 space-y-0.5">
+                {result.rejected
+                  .slice(0, MAX_LISTED_REJECTIONS)
+                  .map(({ line, reason }) => (
+                    <li key={line}>
+                      <span className="text-gray-500">Line {line}:</span>{" "}
+                      {reason}
+                    </li>
+                  ))}
+                {result.rejected.length > MAX_LISTED_REJECTIONS && (
+                  <li className="text-gray-600">
+                    … and {result.rejected.length - MAX_LISTED_REJECTIONS} more
+                  </li>
+                )}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        {/* Footer Actions (Lighter - 850) */}
+        <div className="bg-gray-850 px-6 py-4 flex items-center justify-end gap-3 border-t border-gray-800">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium bg-gray-800 hover:bg-gray-750 border border-gray-750 text-gray-400 hover:text-white rounded-lg transition outline-none focus-visible:border-active"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={result.points.length === 0}
+            className="px-4 py-2 text-sm font-medium bg-gray-800 hover:bg-gray-750 border border-gray-750 text-gray-300 hover:text-white rounded-lg transition outline-none focus-visible:border-active disabled:opacity-50"
+          >
+            Import
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,304 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { X, Activity, Download } from "lucide-react";
+import { KeypointSchema, TrackPoint, TrackedObject } from "@/types";
+import { getKeypointSchema, getObjectLabel, hasLocation } from "@/utils";
+import {
+  CoordinateTransform,
+  KinematicSample,
+  computeKinematics,
+  kinematicsToCSV,
+  summarizeKinematics,
+} from "@/services/kinematics";
+import { useDialogFocusTrap } from "@/hooks/useDialogFocusTrap";
+
+type SeriesKey =
+  "speed" | "acceleration" | "pathLength" | "heading" | "turningAngle";
+
+interface Props {
+  isOpen: boolean;
+  objects: TrackedObject[];
+  keypointSchemas: KeypointSchema[];
+  points: TrackPoint[]; // Logged points on the sampling schedule
+  videoFps: number;
+  transform: CoordinateTransform; // Calibration, or pixels if uncalibrated
+  activeObjectId: number;
+  currentTime: number;
+  onSelectObject: (id: number) => void;
+  onSeek: (time: number) => void;
+  onExport: (csv: string) => void;
+  onClose: () => void;
+}
+
+// Objects with keypoints are analyzed along their first keypoint (as their trail)
+const getTrack = (
+  points: TrackPoint[],
+  object: TrackedObject,
+  keypointSchemas: KeypointSchema[],
+) => {
+  const keypoint = getKeypointSchema(keypointSchemas, object)?.keypoints[0];
+  return points.filter(
+    (p) =>
+      p.objectId === object.id && p.keypoint === keypoint && hasLocation(p),
+  );
+};
+
+const formatValue = (v: number) =>
+  Math.abs(v) >= 1000 || v === 0 ? v.toFixed(0) : v.toPrecision(3);
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 56;
+
+const Chart: React.FC<{
+  label: string;
+  samples: KinematicSample[];
+  valueOf: (s: KinematicSample) => number | null;
+  color: string;
+  currentTime: number;
+  onSeek: (time: number) => void;
+}> = ({ label, samples, valueOf, color, currentTime, onSeek }) => {
+  const values = samples.flatMap((s) => {
+    const v = valueOf(s);
+    return v === null ? [] : [{ t: s.timestamp, v }];
+  });
+  if (values.length < 2) {
+    return (
+      <div className="bg-gray-950/60 border border-gray-800 rounded-lg p-3">
+        <span className="text-xs font-medium text-gray-500">{label}</span>
+        <p className="text-xs text-gray-600 mt-2">Not enough samples</p>
+      </div>
+    );
+  }
+
+  const t0 = values[0].t;
+  const t1 = values[values.length - 1].t;
+  const min = Math.min(...values.map((p) => p.v));
+  const max = Math.max(...values.map((p) => p.v));
+  const x = (t: number) => ((t - t0) / (t1 - t0)) * CHART_WIDTH;
+  const y = (v: number) =>
+    max > min
+      ? CHART_HEIGHT - ((v - min) / (max - min)) * CHART_HEIGHT
+      : CHART_HEIGHT / 2;
+  const path = values.map((p) => `${x(p.t)},${y(p.v)}`).join(" ");
+  const isCurrentVisible = currentTime >= t0 && currentTime <= t1;
+
+  return (
+    <div className="bg-gray-950/60 border border-gray-800 rounded-lg p-3">
+      <div className="flex items-baseline justify-between gap-2">
+        <span className="text-xs font-medium text-gray-500">{label}</span>
+        <span className="font-mono text-[10px] text-gray-600">
+          {formatValue(min)} – {formatValue(max)}
+        </span>
+      </div>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full h-14 mt-2 cursor-pointer"
+        onClick={(e) => {
+          // Seek to the sample closest to the click
+          const rect = e.currentTarget.getBoundingClientRect();
+          const t = t0 + ((e.clientX - rect.left) / rect.width) * (t1 - t0);
+          const closest = values.reduce((a, b) =>
+            Math.abs(b.t - t) < Math.abs(a.t - t) ? b : a,
+          );
+          onSeek(closest.t);
+        }}
+      >
+        <polyline
+          points={path}
+          fill="none"
+          stroke={color}
+          strokeWidth={1.5}
+          vectorEffect="non-scaling-stroke"
+        />
+        {isCurrentVisible && (
+          <line
+            x1={x(currentTime)}
+            x2={x(currentTime)}
+            y1={0}
+            y2={CHART_HEIGHT}
+            stroke="white"
+            strokeOpacity={0.5}
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+      </svg>
+    </div>
+  );
+};
+
+export const KinematicsPanel: React.FC<Props> = ({
+  isOpen,
+  objects,
+  keypointSchemas,
+  points,
+  videoFps,
+  transform,
+  activeObjectId,
+  currentTime,
+  onSelectObject,
+  onSeek,
+  onExport,
+  onClose,
+}) => {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const [objectId, setObjectId] = useState(activeObjectId);
+
+  useEffect(() => {
+    if (isOpen) setObjectId(activeObjectId);
+  }, [isOpen, activeObjectId]);
+
+  useDialogFocusTrap(dialogRef, isOpen, onClose, {
+    focusable: "button:not([disabled])",
+  });
+
+  // Derived series of all objects (the export covers every object)
+  const series = useMemo(
+    () =>
+      isOpen
+        ? objects.map((o) => ({
+            objectId: o.id,
+            samples: computeKinematics(
+              getTrack(points, o, keypointSchemas),
+              videoFps,
+              transform,
+            ),
+          }))
+        : [],
+    [isOpen, objects, points, keypointSchemas, videoFps, transform],
+  );
+
+  if (!isOpen) return null;
+
+  const object = objects.find((o) => o.id === objectId) ?? objects[0];
+  const samples = series.find((s) => s.objectId === object.id)?.samples ?? [];
+  const summary = summarizeKinematics(samples);
+  const unit = transform.unit;
+
+  const stats: [string, string][] = [
+    ["Samples", samples.length.toString()],
+    ["Duration", `${summary.duration.toFixed(2)} s`],
+    ["Path length", `${formatValue(summary.pathLength)} ${unit}`],
+    ["Mean speed", `${formatValue(summary.meanSpeed)} ${unit}/s`],
+    ["Max speed", `${formatValue(summary.maxSpeed)} ${unit}/s`],
+    [
+      "Max |acceleration|",
+      `${formatValue(summary.maxAcceleration)} ${unit}/s²`,
+    ],
+    ["Mean |turning angle|", `${formatValue(summary.meanTurningAngle)}°`],
+  ];
+
+  const charts: { key: SeriesKey; label: string }[] = [
+    { key: "speed", label: `Speed (${unit}/s)` },
+    { key: "acceleration", label: `Acceleration (${unit}/s²)` },
+    { key: "pathLength", label: `Path length (${unit})` },
+    { key: "heading", label: "Heading (°)" },
+    { key: "turningAngle", label: "Turning angle (°)" },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div
+        ref={dialogRef}
+        className="bg-gray-900 border border-gray-750 rounded-xl shadow-2xl w-full max-w-3xl overflow-hidden flex flex-col max-h-[85vh]"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="kinematics-title"
+      >
+        {/* Header (Lighter - 850) */}
+        <div className="flex justify-between items-center px-6 py-4 border-b border-gray-800 bg-gray-850">
+          <div className="flex items-center gap-3">
+            <Activity className="text-active" size={22} />
+            <h2 id="kinematics-title" className="text-lg font-bold text-white">
+              Kinematics
+            </h2>
+            <span className="text-sm text-gray-500">
+              {unit === "px" ? "in pixels (uncalibrated)" : `in ${unit}`}
+            </span>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition p-1.5 rounded-lg border border-transparent focus-visible:border-active outline-none"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto custom-scrollbar space-y-4">
+          {/* Object Selection */}
+          <div className="flex flex-wrap gap-1.5">
+            {objects.map((o) => (
+              <button
+                key={o.id}
+                type="button"
+                onClick={() => {
+                  setObjectId(o.id);
+                  onSelectObject(o.id);
+                }}
+                aria-pressed={o.id === object.id}
+                className={`flex items-center gap-1.5 px-2 py-0.5 text-xs rounded-md border transition outline-none focus-visible:border-active cursor-pointer ${o.id === object.id ? "border-active text-white bg-gray-750" : "border-gray-750 text-gray-400 bg-gray-800 hover:text-white"}`}
+              >
+                <span
+                  className="w-2 h-2 rounded-full shrink-0"
+                  style={{ backgroundColor: o.color }}
+                />
+                {getObjectLabel(o.id, o)}
+              </button>
+            ))}
+          </div>
+
+          {/* Summary Stats */}
+          <div className="grid grid-cols-4 gap-x-6 gap-y-3 px-1">
+            {stats.map(([label, value]) => (
+              <div key={label} className="flex flex-col">
+                <span className="text-xs text-gray-500 font-medium">
+                  {label}
+                </span>
+                <span className="font-mono text-sm text-gray-200">{value}</span>
+              </div>
+            ))}
+          </div>
+
+          {/* Charts */}
+          <div className="grid grid-cols-2 gap-3">
+            {charts.map(({ key, label }) => (
+              <Chart
+                key={key}
+                label={label}
+                samples={samples}
+                valueOf={(s) => s[key]}
+                color={object.color}
+                currentTime={currentTime}
+                onSeek={onSeek}
+              />
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 px-1">
+            Derived from logged locations on the sampling schedule. Objects with
+            keypoints are analyzed along their first keypoint. Headings are
+            measured from the +x axis, with y pointing down in video pixels.
+          </p>
+        </div>
+
+        {/* Footer Actions (Lighter - 850) */}
+        <div className="bg-gray-850 px-6 py-4 flex items-center justify-end gap-3 border-t border-gray-800">
+          <button
+            type="button"
+            onClick={() => onExport(kinematicsToCSV(series, unit))}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium bg-gray-800 hover:bg-gray-750 border border-gray-750 text-gray-300 hover:text-white rounded-lg transition outline-none focus-visible:border-active"
+          >
+            <Download size={16} />
+            Export CSV
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium bg-gray-800 hover:bg-gray-750 border border-gray-750 text-gray-400 hover:text-white rounded-lg transition outline-none focus-visible:border-active"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
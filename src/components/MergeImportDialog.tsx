@@ -0,0 +1,362 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { X, GitMerge } from "lucide-react";
+import { TrackPoint, TrackedObject } from "@/types";
+import {
+  ConflictResolution,
+  IdMapping,
+  findConflicts,
+  getOffsetMapping,
+  mergeObjects,
+  mergePoints,
+  remapPoints,
+} from "@/services/importMerge";
+import { useDialogFocusTrap } from "@/hooks/useDialogFocusTrap";
+
+type MappingMode = "offset" | "manual";
+type ResolutionMode = ConflictResolution | "each";
+
+const MAX_LISTED_CONFLICTS = 200;
+
+const inputClass =
+  "bg-gray-800/80 border border-gray-750 rounded-lg px-2 py-1.5 text-sm text-gray-200 outline-none focus:border-active";
+
+interface Props {
+  isOpen: boolean;
+  fps: number;
+  existingPoints: TrackPoint[];
+  existingObjects: TrackedObject[];
+  incomingPoints: TrackPoint[];
+  incomingObjects: TrackedObject[]; // One entry per incoming object ID
+  onClose: () => void;
+  onReplace: () => void;
+  onMerge: (points: TrackPoint[], objects: TrackedObject[]) => void;
+}
+
+export const MergeImportDialog: React.FC<Props> = ({
+  isOpen,
+  fps,
+  existingPoints,
+  existingObjects,
+  incomingPoints,
+  incomingObjects,
+  onClose,
+  onReplace,
+  onMerge,
+}) => {
+  const dialogRef = useRef<HTMLFormElement>(null);
+
+  const maxExistingId = Math.max(0, ...existingObjects.map((o) => o.id));
+  const [mappingMode, setMappingMode] = useState<MappingMode>("offset");
+  const [offset, setOffset] = useState(maxExistingId);
+  const [manual, setManual] = useState<Record<number, number>>({});
+  const [resolutionMode, setResolutionMode] =
+    useState<ResolutionMode>("existing");
+  const [choices, setChoices] = useState<Map<string, ConflictResolution>>(
+    new Map(),
+  );
+
+  useEffect(() => {
+    if (isOpen) {
+      setMappingMode("offset");
+      setOffset(maxExistingId);
+      setManual(Object.fromEntries(incomingObjects.map((o) => [o.id, o.id])));
+      setResolutionMode("existing");
+      setChoices(new Map());
+    }
+  }, [isOpen, incomingObjects, maxExistingId]);
+
+  useDialogFocusTrap(dialogRef, isOpen, onClose, {
+    initialFocus: (dialog) => dialog.querySelector<HTMLElement>("input"),
+  });
+
+  const mapping = useMemo<IdMapping>(() => {
+    const ids = incomingObjects.map((o) => o.id);
+    if (mappingMode === "offset") return getOffsetMapping(ids, offset);
+    return new Map(ids.map((id) => [id, manual[id] ?? id]));
+  }, [incomingObjects, mappingMode, offset, manual]);
+
+  const remapped = useMemo(
+    () => (isOpen ? remapPoints(incomingPoints, mapping) : []),
+    [isOpen, incomingPoints, mapping],
+  );
+  const conflicts = useMemo(
+    () => (isOpen ? findConflicts(existingPoints, remapped, fps) : []),
+    [isOpen, existingPoints, remapped, fps],
+  );
+
+  const resolutions = useMemo(() => {
+    if (resolutionMode === "each") return choices;
+    return new Map(conflicts.map((c) => [c.key, resolutionMode]));
+  }, [resolutionMode, choices, conflicts]);
+
+  if (!isOpen) return null;
+
+  const isMappingValid = [...mapping.values()].every(
+    (id) => Number.isInteger(id) && id > 0,
+  );
+  const takenCount = conflicts.filter(
+    (c) => resolutions.get(c.key) === "incoming",
+  ).length;
+  const objectName = (objects: TrackedObject[], id: number) =>
+    objects.find((o) => o.id === id)?.name;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isMappingValid) return;
+    onMerge(
+      mergePoints(existingPoints, remapped, fps, resolutions),
+      mergeObjects(existingObjects, incomingObjects, mapping),
+    );
+  };
+
+  const setChoice = (key: string, resolution: ConflictResolution) =>
+    setChoices((prev) => new Map(prev).set(key, resolution));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <form
+        ref={dialogRef}
+        onSubmit={handleSubmit}
+        className="bg-gray-900 border border-gray-750 rounded-xl shadow-2xl w-full max-w-xl overflow-hidden flex flex-col max-h-[85vh]"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="merge-import-title"
+      >
+        {/* Header (Lighter - 850) */}
+        <div className="flex justify-between items-center px-6 py-4 border-b border-gray-800 bg-gray-850">
+          <div className="flex items-center gap-3">
+            <GitMerge className="text-active" size={22} />
+            <h2
+              id="merge-import-title"
+              className="text-lg font-bold text-white"
+            >
+              Import and Merge
+            </h2>
+            <span className="text-sm text-gray-500">
+              {incomingPoints.length} points, {incomingObjects.length} objects
+            </span>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition p-1.5 rounded-lg border border-transparent focus-visible:border-active outline-none"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto custom-scrollbar space-y-5">
+          <p className="text-sm text-gray-400 px-1">
+            The project already has {existingPoints.length} points. Merge the
+            imported tracks into it, or replace the current tracks.
+          </p>
+
+          {/* Object IDs */}
+          <div className="space-y-3 px-1">
+            <h3 className="text-sm font-bold text-gray-300">Object IDs</h3>
+            <label className="flex items-center gap-2 text-sm text-gray-400 cursor-pointer">
+              <input
+                type="radio"
+                name="mapping-mode"
+                checked={mappingMode === "offset"}
+                onChange={() => setMappingMode("offset")}
+                className="accent-active"
+              />
+              Offset incoming IDs by
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={offset}
+                onChange={(e) => {
+                  setMappingMode("offset");
+                  setOffset(Math.max(0, Math.round(Number(e.target.value))));
+                }}
+                className={`${inputClass} w-20`}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-400 cursor-pointer">
+              <input
+                type="radio"
+                name="mapping-mode"
+                checked={mappingMode === "manual"}
+                onChange={() => setMappingMode("manual")}
+                className="accent-active"
+              />
+              Map IDs manually
+            </label>
+            {mappingMode === "manual" && (
+              <div className="grid grid-cols-[auto_auto_1fr] items-center gap-x-3 gap-y-2 pl-6 text-sm">
+                {incomingObjects.map((o) => {
+                  const target = mapping.get(o.id) ?? o.id;
+                  const existingName = objectName(existingObjects, target);
+                  return (
+                    <React.Fragment key={o.id}>
+                      <span className="font-mono text-gray-300">
+                        #{o.id}
+                        {o.name && (
+                          <span className="font-sans text-gray-500">
+                            {" "}
+                            {o.name}
+                          </span>
+                        )}
+                      </span>
+                      <input
+                        type="number"
+                        min={1}
+                        step={1}
+                        value={target}
+                        onChange={(e) =>
+                          setManual((m) => ({
+                            ...m,
+                            [o.id]: Math.round(Number(e.target.value)),
+                          }))
+                        }
+                        aria-label={`Target ID for object ${o.id}`}
+                        className={`${inputClass} w-20`}
+                      />
+                      <span className="text-xs text-gray-500">
+                        {existingName !== undefined
+                          ? `into #${target}${existingName ? ` ${existingName}` : ""}`
+                          : "new object"}
+                      </span>
+                    </React.Fragment>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          {/* Conflicts */}
+          <div className="pt-4 border-t border-gray-800 space-y-3 px-1">
+            <div className="flex items-baseline justify-between gap-3">
+              <h3 className="text-sm font-bold text-gray-300">Conflicts</h3>
+              <span
+                className={`font-mono text-sm ${conflicts.length > 0 ? "text-active" : "text-gray-500"}`}
+              >
+                {conflicts.length}
+              </span>
+            </div>
+            <p className="text-xs text-gray-500">
+              Incoming points on a frame where the same object (and keypoint)
+              already has a location
+            </p>
+            {conflicts.length > 0 && (
+              <>
+                <div className="flex flex-wrap gap-x-5 gap-y-2 text-sm text-gray-400">
+                  {(
+                    [
+                      ["existing", "Keep existing"],
+                      ["incoming", "Take incoming"],
+                      ["each", "Choose per conflict"],
+                    ] as [ResolutionMode, string][]
+                  ).map(([mode, label]) => (
+                    <label
+                      key={mode}
+                      className="flex items-center gap-2 cursor-pointer"
+                    >
+                      <input
+                        type="radio"
+                        name="resolution-mode"
+                        checked={resolutionMode === mode}
+                        onChange={() => setResolutionMode(mode)}
+                        className="accent-active"
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+                {resolutionMode === "each" && (
+                  <ul className="max-h-48 overflow-y-auto custom-scrollbar bg-gray-950/60 border border-gray-800 rounded-lg px-3 py-2 text-xs font-mono text-gray-400 space-y-1">
+                    {conflicts
+                      .slice(0, MAX_LISTED_CONFLICTS)
+                      .map(({ key, existing, incoming }) => {
+                        const choice = choices.get(key) ?? "existing";
+                        return (
+                          <li
+                            key={key}
+                            className="flex items-center justify-between gap-3"
+                          >
+                            <span>
+                              #{existing.objectId}
+                              {existing.keypoint !== undefined &&
+                                ` ${existing.keypoint}`}{" "}
+                              at {existing.timestamp.toFixed(2)} ms
+                            </span>
+                            <span className="flex gap-1">
+                              {(
+                                [
+                                  ["existing", existing],
+                                  ["incoming", incoming],
+                                ] as [ConflictResolution, TrackPoint][]
+                              ).map(([resolution, p]) => (
+                                <button
+                                  key={resolution}
+                                  type="button"
+                                  onClick={() => setChoice(key, resolution)}
+                                  title={
+                                    resolution === "existing"
+                                      ? "Keep existing"
+                                      : "Take incoming"
+                                  }
+                                  className={`px-2 py-0.5 rounded border transition outline-none focus-visible:border-active ${
+                                    choice === resolution
+                                      ? "border-active text-white bg-gray-800"
+                                      : "border-gray-750 text-gray-500 hover:text-gray-300"
+                                  }`}
+                                >
+                                  ({p.x.toFixed(1)}, {p.y.toFixed(1)})
+                                </button>
+                              ))}
+                            </span>
+                          </li>
+                        );
+                      })}
+                    {conflicts.length > MAX_LISTED_CONFLICTS && (
+                      <li className="text-gray-600">
+                        … and {conflicts.length - MAX_LISTED_CONFLICTS} more
+                        (kept existing)
+                      </li>
+                    )}
+                  </ul>
+                )}
+              </>
+            )}
+          </div>
+
+          <p className="text-sm text-gray-400 px-1">
+            {incomingPoints.length - conflicts.length} points will be added
+            {conflicts.length > 0 &&
+              `, ${takenCount} of ${conflicts.length} conflicting points replaced`}
+            .
+          </p>
+        </div>
+
+        {/* Footer Actions (Lighter - 850) */}
+        <div className="bg-gray-850 px-6 py-4 flex items-center justify-end gap-3 border-t border-gray-800">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium bg-gray-800 hover:bg-gray-750 border border-gray-750 text-gray-400 hover:text-white rounded-lg transition outline-none focus-visible:border-active"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={onReplace}
+            className="px-4 py-2 text-sm font-medium bg-gray-800 hover:bg-gray-750 border border-gray-750 text-gray-400 hover:text-white rounded-lg transition outline-none focus-visible:border-active"
+          >
+            Replace Tracks
+          </button>
+          <button
+            type="submit"
+            disabled={!isMappingValid}
+            className="px-4 py-2 text-sm font-medium bg-gray-800 hover:bg-gray-750 border border-gray-750 text-gray-300 hover:text-white rounded-lg transition outline-none focus-visible:border-active disabled:opacity-50"
+          >
+            Merge
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
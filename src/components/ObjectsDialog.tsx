@@ -0,0 +1,293 @@
+import React, { useEffect, useRef, useState } from "react";
+import { X, Plus, Tags } from "lucide-react";
+import { KeypointSchema, TrackedObject } from "@/types";
+import { createObject } from "@/utils";
+import { useDialogFocusTrap } from "@/hooks/useDialogFocusTrap";
+
+const SUGGESTED_CATEGORIES = ["male", "female", "juvenile", "ball"];
+
+// Keypoint schemas are edited as text: "head, neck, tail" and "head-neck, neck-tail"
+type SchemaDraft = Record<string, { keypoints: string; edges: string }>;
+
+const toSchemaDraft = (schemas: KeypointSchema[]): SchemaDraft =>
+  Object.fromEntries(
+    schemas.map((s) => [
+      s.category,
+      {
+        keypoints: s.keypoints.join(", "),
+        edges: s.edges.map(([a, b]) => `${a}-${b}`).join(", "),
+      },
+    ]),
+  );
+
+const parseSchema = (
+  category: string,
+  text: { keypoints: string; edges: string },
+): KeypointSchema => {
+  const keypoints = Array.from(
+    new Set(
+      text.keypoints
+        .split(",")
+        .map((k) => k.trim())
+        .filter(Boolean),
+    ),
+  );
+  const edges: [string, string][] = [];
+  text.edges.split(",").forEach((token) => {
+    const edge = token.trim();
+    // Names may contain hyphens themselves, so try every split point
+    for (let i = edge.indexOf("-"); i > 0; i = edge.indexOf("-", i + 1)) {
+      const a = edge.slice(0, i).trim();
+      const b = edge.slice(i + 1).trim();
+      if (keypoints.includes(a) && keypoints.includes(b) && a !== b) {
+        edges.push([a, b]);
+        return;
+      }
+    }
+  });
+  return { category, keypoints, edges };
+};
+
+interface Props {
+  isOpen: boolean;
+  objects: TrackedObject[];
+  keypointSchemas: KeypointSchema[];
+  activeObjectId: number;
+  onClose: () => void;
+  onSave: (objects: TrackedObject[], keypointSchemas: KeypointSchema[]) => void;
+}
+
+export const ObjectsDialog: React.FC<Props> = ({
+  isOpen,
+  objects,
+  keypointSchemas,
+  activeObjectId,
+  onClose,
+  onSave,
+}) => {
+  const dialogRef = useRef<HTMLFormElement>(null);
+
+  // Objects and keypoint schemas are saved together, as one undo step
+  const [draft, setDraft] = useState<TrackedObject[]>(objects);
+  const [schemaDraft, setSchemaDraft] = useState<SchemaDraft>(() =>
+    toSchemaDraft(keypointSchemas),
+  );
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(objects);
+      setSchemaDraft(toSchemaDraft(keypointSchemas));
+    }
+  }, [isOpen, objects, keypointSchemas]);
+
+  // Focus the name of the active object when opened
+  useDialogFocusTrap(dialogRef, isOpen, onClose, {
+    initialFocus: (dialog) =>
+      dialog.querySelector<HTMLElement>(`[data-object-id="${activeObjectId}"]`),
+    focusable: "button, input",
+  });
+
+  if (!isOpen) return null;
+
+  const updateDraft = (id: number, patch: Partial<TrackedObject>) => {
+    setDraft((prev) => prev.map((o) => (o.id === id ? { ...o, ...patch } : o)));
+  };
+
+  const handleAdd = () => {
+    setDraft((prev) => {
+      const nextId = prev.reduce((acc, o) => Math.max(acc, o.id), 0) + 1;
+      return [...prev, createObject(nextId)];
+    });
+  };
+
+  const updateSchemaDraft = (
+    category: string,
+    patch: Partial<{ keypoints: string; edges: string }>,
+  ) => {
+    setSchemaDraft((prev) => {
+      const current = prev[category] ?? { keypoints: "", edges: "" };
+      return { ...prev, [category]: { ...current, ...patch } };
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(
+      draft.map((o) => ({
+        ...o,
+        name: o.name.trim(),
+        category: o.category.trim(),
+      })),
+      Object.entries(schemaDraft)
+        .map(([category, text]) => parseSchema(category, text))
+        .filter((s) => s.keypoints.length > 0),
+    );
+  };
+
+  const usedCategories = Array.from(
+    new Set(draft.map((o) => o.category.trim()).filter(Boolean)),
+  );
+  const categories = Array.from(
+    new Set([...SUGGESTED_CATEGORIES, ...usedCategories]),
+  );
+  // Schemas of categories no longer in use are kept, so they can be reused
+  const schemaCategories = Array.from(
+    new Set([...usedCategories, ...Object.keys(schemaDraft)]),
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <form
+        ref={dialogRef}
+        onSubmit={handleSubmit}
+        className="bg-gray-900 border border-gray-750 rounded-xl shadow-2xl w-full max-w-xl overflow-hidden flex flex-col max-h-[85vh]"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="objects-title"
+      >
+        {/* Header (Lighter - 850) */}
+        <div className="flex justify-between items-center px-6 py-4 border-b border-gray-800 bg-gray-850">
+          <div className="flex items-center gap-3">
+            <Tags className="text-active" size={22} />
+            <h2 id="objects-title" className="text-lg font-bold text-white">
+              Objects
+            </h2>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition p-1.5 rounded-lg border border-transparent focus-visible:border-active outline-none"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Object Table */}
+        <div className="p-6 overflow-y-auto custom-scrollbar space-y-2">
+          <div className="grid grid-cols-[2.5rem_2.5rem_1fr_1fr] gap-3 px-1 text-sm text-gray-500 font-medium">
+            <span>ID</span>
+            <span>Color</span>
+            <span>Name</span>
+            <span>Category</span>
+          </div>
+          {draft.map((obj) => (
+            <div
+              key={obj.id}
+              className={`grid grid-cols-[2.5rem_2.5rem_1fr_1fr] gap-3 items-center px-1 py-1 rounded-lg ${obj.id === activeObjectId ? "bg-gray-800/60" : ""}`}
+            >
+              <span className="font-mono text-gray-300 text-center">
+                {obj.id}
+              </span>
+              <input
+                type="color"
+                value={obj.color}
+                onChange={(e) => updateDraft(obj.id, { color: e.target.value })}
+                className="w-9 h-9 bg-transparent border border-gray-750 rounded-lg cursor-pointer outline-none focus-visible:border-active"
+              />
+              <input
+                type="text"
+                data-object-id={obj.id}
+                value={obj.name}
+                placeholder={obj.id.toString()}
+                onChange={(e) => updateDraft(obj.id, { name: e.target.value })}
+                className="w-full bg-gray-800/80 border border-gray-750 rounded-lg px-3 py-1.5 text-gray-200 placeholder-gray-600 outline-none focus:border-active"
+              />
+              <input
+                type="text"
+                list="object-categories"
+                value={obj.category}
+                placeholder="none"
+                onChange={(e) =>
+                  updateDraft(obj.id, { category: e.target.value })
+                }
+                className="w-full bg-gray-800/80 border border-gray-750 rounded-lg px-3 py-1.5 text-gray-200 placeholder-gray-600 outline-none focus:border-active"
+              />
+            </div>
+          ))}
+          <datalist id="object-categories">
+            {categories.map((c) => (
+              <option key={c} value={c} />
+            ))}
+          </datalist>
+
+          <button
+            type="button"
+            onClick={handleAdd}
+            className="mt-2 flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-gray-400 hover:text-white rounded-lg border border-transparent hover:bg-gray-800 transition outline-none focus-visible:border-active group"
+          >
+            <Plus
+              size={16}
+              className="group-hover:text-active transition-colors"
+            />
+            Add object
+          </button>
+
+          {/* Keypoint Schemas */}
+          {schemaCategories.length > 0 && (
+            <div className="pt-4 mt-4 border-t border-gray-800 space-y-2">
+              <div className="px-1">
+                <h3 className="text-sm font-bold text-gray-300">
+                  Keypoints by category
+                </h3>
+                <p className="text-xs text-gray-500 mt-0.5">
+                  Comma-separated keypoint names, logged in this order. Skeleton
+                  edges connect two keypoints, e.g. "head-neck".
+                </p>
+              </div>
+              <div className="grid grid-cols-[6rem_1fr_1fr] gap-3 px-1 text-sm text-gray-500 font-medium">
+                <span>Category</span>
+                <span>Keypoints</span>
+                <span>Skeleton</span>
+              </div>
+              {schemaCategories.map((category) => (
+                <div
+                  key={category}
+                  className="grid grid-cols-[6rem_1fr_1fr] gap-3 items-center px-1 py-1"
+                >
+                  <span className="text-gray-300 truncate" title={category}>
+                    {category}
+                  </span>
+                  <input
+                    type="text"
+                    value={schemaDraft[category]?.keypoints ?? ""}
+                    placeholder="none"
+                    onChange={(e) =>
+                      updateSchemaDraft(category, { keypoints: e.target.value })
+                    }
+                    className="w-full bg-gray-800/80 border border-gray-750 rounded-lg px-3 py-1.5 text-gray-200 placeholder-gray-600 outline-none focus:border-active"
+                  />
+                  <input
+                    type="text"
+                    value={schemaDraft[category]?.edges ?? ""}
+                    placeholder="none"
+                    onChange={(e) =>
+                      updateSchemaDraft(category, { edges: e.target.value })
+                    }
+                    className="w-full bg-gray-800/80 border border-gray-750 rounded-lg px-3 py-1.5 text-gray-200 placeholder-gray-600 outline-none focus:border-active"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Footer Actions (Lighter - 850) */}
+        <div className="bg-gray-850 px-6 py-4 flex items-center justify-end gap-3 border-t border-gray-800">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium bg-gray-800 hover:bg-gray-750 border border-gray-750 text-gray-400 hover:text-white rounded-lg transition outline-none focus-visible:border-active"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="px-4 py-2 text-sm font-medium bg-gray-800 hover:bg-gray-750 border border-gray-750 text-gray-300 hover:text-white rounded-lg transition outline-none focus-visible:border-active"
+          >
+            Save
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import React, { useEffect, useRef, useState } from "react";
+import { X } from "lucide-react";
+import { PointConfidence, TrackPoint } from "@/types";
+import { POINT_CONFIDENCES, toManualPoint, withAnnotation } from "@/utils";
+
+interface Props {
+  point: TrackPoint;
+  label: string; // Object (and keypoint) the point belongs to
+  position: { x: number; y: number }; // Screen position of the marker in the workspace
+  offset: number; // px below the marker
+  onSave: (point: TrackPoint) => void;
+  onClose: () => void;
+}
+
+export const PointNotePopover: React.FC<Props> = ({
+  point,
+  label,
+  position,
+  offset,
+  onSave,
+  onClose,
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const previousFocusRef = useRef<HTMLElement | null>(null);
+  const [confidence, setConfidence] = useState<PointConfidence | undefined>(
+    point.confidence,
+  );
+  const [note, setNote] = useState(point.note ?? "");
+
+  useEffect(() => {
+    setConfidence(point.confidence);
+    setNote(point.note ?? "");
+  }, [point.id, point.confidence, point.note]);
+
+  // Focus Management (Restore on close)
+  useEffect(() => {
+    previousFocusRef.current = document.activeElement as HTMLElement;
+    requestAnimationFrame(() => textareaRef.current?.focus());
+    return () => {
+      previousFocusRef.current?.focus({ preventScroll: true });
+    };
+  }, []);
+
+  const handleSave = () => {
+    // Saving an interpolated or suggested position without changes would turn it into a keyframe
+    if (confidence === point.confidence && note.trim() === (point.note ?? "")) {
+      onClose();
+      return;
+    }
+    onSave(withAnnotation(toManualPoint(point), confidence, note));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape") {
+      e.stopPropagation();
+      onClose();
+    } else if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      e.stopPropagation();
+      handleSave();
+    }
+  };
+
+  return (
+    <div
+      className="absolute z-30 w-64 -translate-x-1/2 bg-gray-900 border border-gray-750 rounded-xl shadow-2xl overflow-hidden cursor-default"
+      style={{ left: position.x, top: position.y + offset }}
+      role="dialog"
+      aria-label={`Confidence and note of ${label}`}
+      onPointerDown={(e) => e.stopPropagation()}
+      onDoubleClick={(e) => e.stopPropagation()}
+      onWheel={(e) => e.stopPropagation()}
+      onKeyDown={handleKeyDown}
+    >
+      <div className="flex justify-between items-center pl-3 pr-1.5 py-1.5 border-b border-gray-800 bg-gray-850">
+        <span className="text-sm font-medium text-gray-200 truncate">
+          {label}
+        </span>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-gray-400 hover:text-white transition p-1 rounded-lg border border-transparent focus-visible:border-active outline-none"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="p-3 space-y-3">
+        {/* Confidence (click the selected level again to clear it) */}
+        <div className="flex bg-gray-800/80 border border-gray-750 rounded-lg p-0.5">
+          {POINT_CONFIDENCES.map((level) => (
+            <button
+              key={level}
+              type="button"
+              onClick={() =>
+                setConfidence((c) => (c === level ? undefined : level))
+              }
+              className={`flex-1 px-2 py-1 text-xs font-medium capitalize rounded-md transition outline-none border focus-visible:border-active ${
+                confidence === level
+                  ? "bg-gray-700 border-gray-600 text-white"
+                  : "border-transparent text-gray-400 hover:text-white"
+              }`}
+            >
+              {level}
+            </button>
+          ))}
+        </div>
+
+        <textarea
+          ref={textareaRef}
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          rows={3}
+          placeholder="Note"
+          className="w-full resize-none bg-gray-800/80 border border-gray-750 rounded-lg px-2 py-1.5 text-sm text-gray-200 placeholder-gray-500 outline-none focus:border-active custom-scrollbar"
+        />
+      </div>
+
+      <div className="bg-gray-850 px-3 py-2 flex items-center justify-end gap-2 border-t border-gray-800">
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-3 py-1 text-xs font-medium bg-gray-800 hover:bg-gray-750 border border-gray-750 text-gray-400 hover:text-white rounded-lg transition outline-none focus-visible:border-active"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          className="px-3 py-1 text-xs font-medium bg-gray-800 hover:bg-gray-750 border border-gray-750 text-gray-300 hover:text-white rounded-lg transition outline-none focus-visible:border-active"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useRef } from "react";
+import { History, RotateCcw, Trash2 } from "lucide-react";
+import { useDialogFocusTrap } from "@/hooks/useDialogFocusTrap";
+
+interface Props {
+  isOpen: boolean;
+  savedAt: number;
+  numPoints: number;
+  numObjects: number;
+  onRestore: () => void;
+  onDiscard: () => void;
+  onDismiss: () => void; // Escape: keeps the session for later, never discards it
+}
+
+export const RecoveryDialog: React.FC<Props> = ({
+  isOpen,
+  savedAt,
+  numPoints,
+  numObjects,
+  onRestore,
+  onDiscard,
+  onDismiss,
+}) => {
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  // Focus the primary action (Restore) when opened
+  useDialogFocusTrap(dialogRef, isOpen, onDismiss, {
+    initialFocus: (dialog) =>
+      Array.from(dialog.querySelectorAll("button")).pop(),
+    focusable: "button",
+  });
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div
+        ref={dialogRef}
+        className="bg-gray-900 border border-gray-750 rounded-xl shadow-2xl w-full max-w-md overflow-hidden"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="recovery-title"
+      >
+        <div className="p-6">
+          <div className="flex items-start gap-4">
+            <div className="flex items-center justify-center w-12 h-12 bg-gray-800 border border-gray-750 rounded-xl shrink-0">
+              <History className="text-active" size={24} />
+            </div>
+            <div className="flex-1 pt-1">
+              <h2
+                id="recovery-title"
+                className="text-lg font-bold text-white mb-2"
+              >
+                Restore Previous Session?
+              </h2>
+              <p className="text-gray-400 text-sm leading-relaxed">
+                An autosaved session for this video was found (
+                {new Date(savedAt).toLocaleString()}).
+              </p>
+              <p className="text-gray-400 text-sm mt-4 leading-relaxed">
+                It contains{" "}
+                <span className="text-gray-200 font-medium">{numPoints}</span>{" "}
+                {numPoints === 1 ? "location" : "locations"} of{" "}
+                <span className="text-gray-200 font-medium">{numObjects}</span>{" "}
+                {numObjects === 1 ? "object" : "objects"}. Discarding it cannot
+                be undone.
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* Footer Actions (Lighter - 850) */}
+        <div className="bg-gray-850 px-6 py-4 flex items-center justify-end gap-3 border-t border-gray-800">
+          <button
+            onClick={onDiscard}
+            className="px-4 py-2 text-sm font-medium bg-gray-800 hover:bg-gray-750 border border-gray-750 text-gray-300 hover:text-white rounded-lg transition flex items-center gap-2 outline-none focus-visible:border-active group"
+          >
+            <Trash2
+              size={16}
+              className="text-gray-400 group-hover:text-red-500 group-hover:scale-110 transition-all"
+            />
+            Start Fresh
+          </button>
+          <button
+            onClick={onRestore}
+            className="px-4 py-2 text-sm font-medium bg-gray-800 hover:bg-gray-750 border border-gray-750 text-gray-300 hover:text-white rounded-lg transition flex items-center gap-2 outline-none focus-visible:border-active group"
+          >
+            <RotateCcw
+              size={16}
+              className="text-gray-400 group-hover:text-active group-hover:scale-110 transition-all"
+            />
+            Restore Session
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import React, { useEffect, useRef, useState } from "react";
+import { X, Pentagon, Plus, Trash2 } from "lucide-react";
+import { Region } from "@/types";
+import { Key } from "@/components/Key";
+import { useDialogFocusTrap } from "@/hooks/useDialogFocusTrap";
+
+interface Props {
+  isOpen: boolean;
+  regions: Region[];
+  focusRegionId: number | null; // e.g. a region that was just drawn and still needs a name
+  onClose: () => void;
+  onSave: (regions: Region[]) => void;
+  onDrawRegion: () => void;
+}
+
+export const RegionsDialog: React.FC<Props> = ({
+  isOpen,
+  regions,
+  focusRegionId,
+  onClose,
+  onSave,
+  onDrawRegion,
+}) => {
+  const dialogRef = useRef<HTMLFormElement>(null);
+
+  const [draft, setDraft] = useState<Region[]>(regions);
+
+  useEffect(() => {
+    if (isOpen) setDraft(regions);
+  }, [isOpen, regions]);
+
+  // Focus the name of the region to edit when opened
+  useDialogFocusTrap(dialogRef, isOpen, onClose, {
+    initialFocus: (dialog) =>
+      dialog.querySelector<HTMLElement>(
+        `[data-region-id="${focusRegionId}"]`,
+      ) ?? dialog.querySelector<HTMLElement>("input, button"),
+    focusable: "button, input",
+  });
+
+  if (!isOpen) return null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(draft.map((r) => ({ ...r, name: r.name.trim() })));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <form
+        ref={dialogRef}
+        onSubmit={handleSubmit}
+        className="bg-gray-900 border border-gray-750 rounded-xl shadow-2xl w-full max-w-md overflow-hidden flex flex-col max-h-[85vh]"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="regions-title"
+      >
+        {/* Header (Lighter - 850) */}
+        <div className="flex justify-between items-center px-6 py-4 border-b border-gray-800 bg-gray-850">
+          <div className="flex items-center gap-3">
+            <Pentagon className="text-active" size={22} />
+            <h2 id="regions-title" className="text-lg font-bold text-white">
+              Regions
+            </h2>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition p-1.5 rounded-lg border border-transparent focus-visible:border-active outline-none"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Region List */}
+        <div className="p-6 overflow-y-auto custom-scrollbar space-y-2">
+          {draft.length === 0 ? (
+            <p className="text-sm text-gray-500 px-1">
+              No regions yet. Regions are polygons in video coordinates, e.g.
+              the "center" or "shelter" zone of an arena. The export lists the
+              regions containing each location.
+            </p>
+          ) : (
+            <div className="grid grid-cols-[1fr_5rem_2.25rem] gap-3 px-1 text-sm text-gray-500 font-medium">
+              <span>Name</span>
+              <span>Vertices</span>
+              <span />
+            </div>
+          )}
+          {draft.map((region) => (
+            <div
+              key={region.id}
+              className="grid grid-cols-[1fr_5rem_2.25rem] gap-3 items-center px-1 py-1"
+            >
+              <input
+                type="text"
+                data-region-id={region.id}
+                value={region.name}
+                placeholder={`region ${region.id}`}
+                onChange={(e) =>
+                  setDraft((prev) =>
+                    prev.map((r) =>
+                      r.id === region.id ? { ...r, name: e.target.value } : r,
+                    ),
+                  )
+                }
+                className="w-full bg-gray-800/80 border border-gray-750 rounded-lg px-3 py-1.5 text-gray-200 placeholder-gray-600 outline-none focus:border-active"
+              />
+              <span className="font-mono text-gray-400 text-center">
+                {region.vertices.length}
+              </span>
+              <button
+                type="button"
+                onClick={() =>
+                  setDraft((prev) => prev.filter((r) => r.id !== region.id))
+                }
+                aria-label={`Delete ${region.name || `region ${region.id}`}`}
+                className="p-2 text-gray-500 hover:text-white rounded-lg border border-transparent hover:bg-gray-800 transition outline-none focus-visible:border-active"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+
+          <button
+            type="button"
+            onClick={onDrawRegion}
+            className="mt-2 flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-gray-400 hover:text-white rounded-lg border border-transparent hover:bg-gray-800 transition outline-none focus-visible:border-active group"
+          >
+            <Plus
+              size={16}
+              className="group-hover:text-active transition-colors"
+            />
+            Draw region
+            <Key>G</Key>
+          </button>
+          <p className="text-xs text-gray-500 px-1">
+            Click to place vertices, then press Enter or click the first vertex
+            to close the polygon. Unsaved edits in this list are discarded.
+          </p>
+        </div>
+
+        {/* Footer Actions (Lighter - 850) */}
+        <div className="bg-gray-850 px-6 py-4 flex items-center justify-end gap-3 border-t border-gray-800">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium bg-gray-800 hover:bg-gray-750 border border-gray-750 text-gray-400 hover:text-white rounded-lg transition outline-none focus-visible:border-active"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="px-4 py-2 text-sm font-medium bg-gray-800 hover:bg-gray-750 border border-gray-750 text-gray-300 hover:text-white rounded-lg transition outline-none focus-visible:border-active"
+          >
+            Save
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
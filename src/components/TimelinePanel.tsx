@@ -0,0 +1,419 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { GanttChart, X } from "lucide-react";
+import {
+  AppSettings,
+  Behavior,
+  BehaviorEvent,
+  TimeRange,
+  TrackPoint,
+  TrackedObject,
+} from "@/types";
+import {
+  formatTime,
+  getFrameIndex,
+  getFrameTime,
+  getObjectLabel,
+  getSamplingIntervalFrames,
+} from "@/utils";
+import { Key } from "@/components/Key";
+
+const RULER_HEIGHT = 18;
+const LANE_HEIGHT = 18;
+const MAX_VISIBLE_LANES = 8;
+const DRAG_THRESHOLD = 3; // px before a press becomes a range selection
+
+// Candidate ruler steps in seconds
+const RULER_STEPS = [1, 2, 5, 10, 15, 30, 60, 120, 300, 600, 900, 1800];
+
+interface Props {
+  objects: TrackedObject[];
+  points: TrackPoint[]; // Points on the sampling schedule
+  activeObjectId: number;
+  currentTime: number;
+  duration: number; // ms
+  videoFps: number;
+  settings: AppSettings;
+  selection: TimeRange | null;
+  onSelectionChange: (range: TimeRange | null) => void;
+  onSeek: (time: number) => void;
+  onSelectObject: (id: number) => void;
+  behaviors: Behavior[];
+  events: BehaviorEvent[]; // Coded behaviors, one row per object and behavior
+  onClose: () => void;
+  onHeightChange: (height: number) => void;
+}
+
+/**
+ * Frame spans between consecutive logged frames that skip at least one sampling frame.
+ */
+const getGaps = (frames: number[], intervalFrames: number) => {
+  const gaps: [number, number][] = [];
+  for (let i = 1; i < frames.length; i++) {
+    if (frames[i] - frames[i - 1] > intervalFrames) {
+      gaps.push([frames[i - 1], frames[i]]);
+    }
+  }
+  return gaps;
+};
+
+export const TimelinePanel: React.FC<Props> = ({
+  objects,
+  points,
+  activeObjectId,
+  currentTime,
+  duration,
+  videoFps,
+  settings,
+  selection,
+  onSelectionChange,
+  onSeek,
+  onSelectObject,
+  behaviors,
+  events,
+  onClose,
+  onHeightChange,
+}) => {
+  const panelRef = useRef<HTMLDivElement>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [trackWidth, setTrackWidth] = useState(0);
+
+  // Transient range while dragging (committed on release)
+  const [dragRange, setDragRange] = useState<TimeRange | null>(null);
+  const dragRef = useRef<{ startX: number; startTime: number } | null>(null);
+
+  const intervalFrames = getSamplingIntervalFrames(
+    videoFps,
+    settings.samplingRateNum,
+    settings.samplingRateDen,
+  );
+
+  // Sorted frames (and auto markers) per object
+  const lanes = useMemo(() => {
+    const byObject = new Map<number, TrackPoint[]>();
+    points.forEach((p) => {
+      const list = byObject.get(p.objectId) ?? [];
+      list.push(p);
+      byObject.set(p.objectId, list);
+    });
+    return objects.map((obj) => {
+      const lanePoints = (byObject.get(obj.id) ?? []).sort(
+        (a, b) => a.timestamp - b.timestamp,
+      );
+      const frames = lanePoints.map((p) =>
+        getFrameIndex(p.timestamp, videoFps),
+      );
+      return {
+        object: obj,
+        points: lanePoints,
+        gaps: getGaps(frames, intervalFrames),
+      };
+    });
+  }, [objects, points, videoFps, intervalFrames]);
+
+  // Object lanes, each followed by a row per behavior coded for it
+  const rows = useMemo(
+    () =>
+      lanes.flatMap((lane) => [
+        { lane, behavior: null, events: [] },
+        ...behaviors.flatMap((behavior) => {
+          const coded = events.filter(
+            (e) =>
+              e.behaviorId === behavior.id && e.objectId === lane.object.id,
+          );
+          return coded.length > 0 ? [{ lane, behavior, events: coded }] : [];
+        }),
+      ]),
+    [lanes, behaviors, events],
+  );
+
+  // Track width follows the panel
+  useEffect(() => {
+    const el = trackRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setTrackWidth(el.clientWidth));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // Report height so floating widgets can stay clear of the panel
+  useEffect(() => {
+    const el = panelRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => onHeightChange(el.offsetHeight));
+    observer.observe(el);
+    return () => {
+      observer.disconnect();
+      onHeightChange(0);
+    };
+  }, [onHeightChange]);
+
+  const canvasHeight = RULER_HEIGHT + rows.length * LANE_HEIGHT;
+
+  const xToTime = (x: number) =>
+    trackWidth > 0
+      ? Math.max(0, Math.min(duration, (x / trackWidth) * duration))
+      : 0;
+
+  // --- Drawing ---
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || trackWidth === 0) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(trackWidth * dpr);
+    canvas.height = Math.round(canvasHeight * dpr);
+    canvas.style.width = `${trackWidth}px`;
+    canvas.style.height = `${canvasHeight}px`;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, trackWidth, canvasHeight);
+
+    const x = (t: number) => (duration > 0 ? (t / duration) * trackWidth : 0);
+
+    // Ruler: pick the smallest step that leaves ~80px between labels
+    const secondsPerPx = duration / 1000 / trackWidth;
+    const step =
+      RULER_STEPS.find((s) => s / secondsPerPx >= 80) ??
+      RULER_STEPS[RULER_STEPS.length - 1];
+    ctx.fillStyle = "#71717a";
+    ctx.strokeStyle = "#3f3f46";
+    ctx.font = "10px monospace";
+    ctx.textAlign = "left";
+    ctx.textBaseline = "middle";
+    for (let s = 0; s * 1000 <= duration; s += step) {
+      const tx = Math.round(x(s * 1000)) + 0.5;
+      ctx.beginPath();
+      ctx.moveTo(tx, RULER_HEIGHT - 5);
+      ctx.lineTo(tx, canvasHeight);
+      ctx.stroke();
+      ctx.fillText(
+        formatTime(s * 1000, videoFps)
+          .replace(/^00:/, "")
+          .slice(0, -4),
+        tx + 3,
+        RULER_HEIGHT / 2,
+      );
+    }
+
+    rows.forEach(({ lane, behavior, events: coded }, i) => {
+      const top = RULER_HEIGHT + i * LANE_HEIGHT;
+
+      if (lane.object.id === activeObjectId) {
+        ctx.fillStyle = "rgba(255, 255, 255, 0.06)";
+        ctx.fillRect(0, top, trackWidth, LANE_HEIGHT);
+      }
+
+      if (behavior) {
+        ctx.fillStyle = behavior.color;
+        coded.forEach((e) => {
+          const x0 = x(e.timestamp);
+          if (behavior.type === "point") {
+            // Diamond at the instant
+            const cy = top + LANE_HEIGHT / 2;
+            ctx.beginPath();
+            ctx.moveTo(x0, cy - 5);
+            ctx.lineTo(x0 + 4, cy);
+            ctx.lineTo(x0, cy + 5);
+            ctx.lineTo(x0 - 4, cy);
+            ctx.closePath();
+            ctx.fill();
+            return;
+          }
+          // States still running extend to the playhead
+          const x1 = x(e.end ?? Math.max(currentTime, e.timestamp));
+          ctx.globalAlpha = e.end === undefined ? 0.5 : 0.85;
+          ctx.fillRect(x0, top + 4, Math.max(2, x1 - x0), LANE_HEIGHT - 8);
+          ctx.globalAlpha = 1;
+        });
+        return;
+      }
+
+      // Gaps in the sampling schedule
+      ctx.fillStyle = "rgba(239, 68, 68, 0.25)";
+      lane.gaps.forEach(([a, b]) => {
+        const x0 = x(getFrameTime(a, videoFps));
+        const x1 = x(getFrameTime(b, videoFps));
+        ctx.fillRect(x0, top + 3, Math.max(1, x1 - x0), LANE_HEIGHT - 6);
+      });
+
+      // Ticks at logged points (auto-tracked ones are shorter)
+      ctx.fillStyle = lane.object.color;
+      lane.points.forEach((p) => {
+        const inset = p.source === "auto" ? 6 : 3;
+        ctx.fillRect(
+          Math.round(x(p.timestamp)),
+          top + inset,
+          1,
+          LANE_HEIGHT - 2 * inset,
+        );
+      });
+    });
+
+    // Selected range
+    const range = dragRange ?? selection;
+    if (range) {
+      const x0 = x(range.start);
+      const x1 = x(range.end);
+      ctx.fillStyle = "rgba(255, 255, 255, 0.12)";
+      ctx.fillRect(x0, 0, Math.max(1, x1 - x0), canvasHeight);
+      ctx.fillStyle = "rgba(255, 255, 255, 0.6)";
+      ctx.fillRect(Math.round(x0), 0, 1, canvasHeight);
+      ctx.fillRect(Math.round(x1), 0, 1, canvasHeight);
+    }
+
+    // Playhead
+    ctx.fillStyle = "white";
+    ctx.fillRect(Math.round(x(currentTime)) - 1, 0, 2, canvasHeight);
+  }, [
+    rows,
+    trackWidth,
+    canvasHeight,
+    duration,
+    videoFps,
+    activeObjectId,
+    currentTime,
+    selection,
+    dragRange,
+  ]);
+
+  // --- Pointer Interaction ---
+  const localX = (e: React.PointerEvent) =>
+    e.clientX - e.currentTarget.getBoundingClientRect().left;
+
+  // Snaps a time to the nearest frame
+  const snap = (t: number) =>
+    getFrameTime(getFrameIndex(t, videoFps), videoFps);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { startX: localX(e), startTime: xToTime(localX(e)) };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (Math.abs(localX(e) - drag.startX) < DRAG_THRESHOLD && !dragRange) {
+      return;
+    }
+    const t = xToTime(localX(e));
+    setDragRange({
+      start: snap(Math.min(drag.startTime, t)),
+      end: snap(Math.max(drag.startTime, t)),
+    });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+    if (!drag) return;
+
+    if (dragRange) {
+      onSelectionChange(dragRange.end > dragRange.start ? dragRange : null);
+      setDragRange(null);
+    } else {
+      // Plain click: seek to the nearest sampling frame
+      const frame = getFrameIndex(drag.startTime, videoFps);
+      const target = Math.round(frame / intervalFrames) * intervalFrames;
+      onSeek(Math.min(getFrameTime(target, videoFps), duration));
+    }
+  };
+
+  const handlePointerCancel = () => {
+    dragRef.current = null;
+    setDragRange(null);
+  };
+
+  const shownRange = dragRange ?? selection;
+
+  return (
+    <div
+      ref={panelRef}
+      className="shrink-0 bg-gray-900 border-t border-gray-750 text-gray-300 select-none"
+    >
+      {/* Header */}
+      <div className="flex items-center gap-3 h-8 px-3 border-b border-gray-800 bg-gray-850 text-sm">
+        <GanttChart size={16} className="text-active" />
+        <span className="font-medium text-gray-200">Timeline</span>
+        <span className="text-gray-500 hidden sm:inline">
+          Click to seek, drag to select a range
+        </span>
+        <div className="flex-1" />
+        {shownRange && (
+          <div className="flex items-center gap-2 font-mono text-xs text-gray-300">
+            <span>
+              {formatTime(shownRange.start, videoFps)} –{" "}
+              {formatTime(shownRange.end, videoFps)}
+            </span>
+            {selection && !dragRange && (
+              <button
+                onClick={() => onSelectionChange(null)}
+                className="text-gray-400 hover:text-white transition p-0.5 rounded border border-transparent focus-visible:border-active outline-none"
+                aria-label="Clear selection"
+              >
+                <X size={14} />
+              </button>
+            )}
+          </div>
+        )}
+        <button
+          onClick={onClose}
+          className="flex items-center gap-1.5 text-gray-400 hover:text-white transition px-1.5 py-0.5 rounded border border-transparent focus-visible:border-active outline-none"
+          aria-label="Hide timeline"
+        >
+          <Key>T</Key>
+          <X size={16} />
+        </button>
+      </div>
+
+      {/* Lanes */}
+      <div
+        className="flex overflow-y-auto custom-scrollbar"
+        style={{
+          maxHeight: RULER_HEIGHT + MAX_VISIBLE_LANES * LANE_HEIGHT,
+        }}
+      >
+        <div className="shrink-0 w-36 border-r border-gray-800">
+          <div style={{ height: RULER_HEIGHT }} />
+          {rows.map(({ lane: { object }, behavior }) => (
+            <button
+              key={`${object.id}-${behavior?.id ?? ""}`}
+              onClick={() => onSelectObject(object.id)}
+              style={{ height: LANE_HEIGHT }}
+              className={`w-full flex items-center gap-2 text-xs text-left outline-none transition-colors ${behavior ? "pl-7 pr-3" : "px-3"} ${object.id === activeObjectId ? "text-white bg-gray-800" : "text-gray-400 hover:text-white hover:bg-gray-800/60"}`}
+            >
+              <span
+                className={`w-2 h-2 shrink-0 ${behavior ? "rounded-sm" : "rounded-full"}`}
+                style={{ backgroundColor: (behavior ?? object).color }}
+              />
+              <span className="truncate">
+                {behavior
+                  ? behavior.name || `behavior ${behavior.id}`
+                  : getObjectLabel(object.id, object)}
+              </span>
+              {behavior && (
+                <span className="ml-auto font-mono text-gray-500 uppercase">
+                  {behavior.key}
+                </span>
+              )}
+            </button>
+          ))}
+        </div>
+        <div ref={trackRef} className="flex-1 min-w-0">
+          <canvas
+            ref={canvasRef}
+            className="block cursor-pointer"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerCancel}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
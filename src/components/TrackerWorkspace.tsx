@@ -1,4 +1,4 @@
-import React, { useRef, useState, useEffect } from "react";
+import React, { useRef, useState, useEffect, useMemo } from "react";
 import {
   MousePointer2,
   Hand,
@@ -6,26 +6,50 @@ import {
   ZoomIn,
   HelpCircle,
   Crosshair,
+  WandSparkles,
+  BoxSelect,
+  Pentagon,
+  Ruler,
+  Grid3x3,
+  ArrowLeftRight,
+  MessageSquare,
 } from "lucide-react";
 import { PiMouseLeftClickFill, PiMouseScroll } from "react-icons/pi";
-import { TrackPoint, AppSettings } from "@/types";
+import {
+  TrackPoint,
+  TrackedObject,
+  AppSettings,
+  VideoMetadata,
+  KeypointSchema,
+  Region,
+  ShapeDraft,
+  IdentitySwap,
+} from "@/types";
+import { getObjectLabel, hasLocation } from "@/utils";
 import { useVideoSynchronization } from "@/hooks/useVideoSynchronization";
 import { useViewport } from "@/hooks/useViewport";
 import { useTrackOverlay } from "@/hooks/useTrackOverlay";
 import { useCanvasInteraction } from "@/hooks/useCanvasInteraction";
 import { useCanvasRendering } from "@/hooks/useCanvasRendering";
+import { useAssistedTracking } from "@/hooks/useAssistedTracking";
 import { Key } from "@/components/Key";
 import { Tooltip } from "@/components/Tooltip";
+import { PointNotePopover } from "@/components/PointNotePopover";
 
 interface Props {
   videoSrc: string;
   points: TrackPoint[];
+  objects: TrackedObject[];
+  keypointSchemas: KeypointSchema[];
   activeObjectId: number;
+  activeKeypoint?: string;
   settings: AppSettings;
   onAddPoint: (p: TrackPoint) => void;
+  onLogPoint: (p: TrackPoint) => void; // Ctrl+Click on the canvas
   onSelectObject: (id: number) => void;
   onTimeUpdate: (time: number) => void;
   isPlaying: boolean;
+  isAutoTracking: boolean; // Manual edits wait until the run ends
   setIsPlaying: (p: boolean) => void;
   playbackTrigger: number;
   seekRequest: { time: number; ts: number } | null;
@@ -34,17 +58,32 @@ interface Props {
   onToggleHelp: () => void;
   isObstructed: boolean;
   onStatusDimensionsChange: (dims: { width: number; height: number }) => void;
+  onMetadataLoaded?: (meta: VideoMetadata) => void;
+  onSuggestionChange?: (suggestion: TrackPoint | null) => void;
+  regions: Region[];
+  shapeDraft: ShapeDraft | null; // Non-null while drawing a region or calibration line
+  onAddShapeVertex: (v: { x: number; y: number }) => void;
+  onFinishShape: () => void;
+  identitySwap: IdentitySwap | null; // Non-null while picking two objects to swap
+  isRangeSelected: boolean; // Limits an identity swap to the timeline selection
+  worldGrid: [{ x: number; y: number }, { x: number; y: number }][] | null;
+  controlPoints: { x: number; y: number }[] | null;
 }
 
 export const TrackerWorkspace: React.FC<Props> = ({
   videoSrc,
   points,
+  objects,
+  keypointSchemas,
   activeObjectId,
+  activeKeypoint,
   settings,
   onAddPoint,
+  onLogPoint,
   onSelectObject,
   onTimeUpdate,
   isPlaying,
+  isAutoTracking,
   setIsPlaying,
   seekRequest,
   videoFps,
@@ -52,6 +91,16 @@ export const TrackerWorkspace: React.FC<Props> = ({
   onToggleHelp,
   isObstructed,
   onStatusDimensionsChange,
+  onMetadataLoaded,
+  onSuggestionChange,
+  regions,
+  shapeDraft,
+  onAddShapeVertex,
+  onFinishShape,
+  identitySwap,
+  isRangeSelected,
+  worldGrid,
+  controlPoints,
 }) => {
   // --- Video Synchronization ---
   const { videoRef, currentTime, videoDimensions, onLoadedMetadata } =
@@ -64,6 +113,7 @@ export const TrackerWorkspace: React.FC<Props> = ({
       settings,
       onTimeUpdate,
       isSpaceHeld,
+      onMetadataLoaded,
     });
 
   // --- Viewport & Transforms ---
@@ -76,6 +126,45 @@ export const TrackerWorkspace: React.FC<Props> = ({
     getConstrainedTransform,
   } = useViewport({ videoDimensions, videoSrc });
 
+  // Entries without a location (out of frame, not applicable) have nothing to draw
+  const locatedPoints = useMemo(() => points.filter(hasLocation), [points]);
+
+  // --- Assisted Tracking ---
+  const suggestion = useAssistedTracking({
+    videoRef,
+    videoSrc,
+    videoDimensions,
+    points: locatedPoints,
+    activeObjectId,
+    activeKeypoint,
+    currentTime,
+    videoFps,
+    isPlaying,
+    settings,
+  });
+
+  useEffect(() => {
+    onSuggestionChange?.(suggestion?.point ?? null);
+  }, [suggestion, onSuggestionChange]);
+
+  // The suggestion takes the place of an interpolated position on the same frame
+  const displayPoints = useMemo(() => {
+    if (!suggestion) return locatedPoints;
+    const { point } = suggestion;
+    return [
+      ...locatedPoints.filter(
+        (p) =>
+          !(
+            p.interpolated &&
+            p.objectId === point.objectId &&
+            p.keypoint === point.keypoint &&
+            p.timestamp === point.timestamp
+          ),
+      ),
+      point,
+    ];
+  }, [locatedPoints, suggestion]);
+
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const statusContainerRef = useRef<HTMLDivElement>(null);
 
@@ -83,9 +172,19 @@ export const TrackerWorkspace: React.FC<Props> = ({
   // Managed here to avoid circular dependencies between Overlay generation and Interaction hooks
   const [draggedPoint, setDraggedPoint] = useState<TrackPoint | null>(null);
 
+  // --- Confidence & Note Popover ---
+  const [editingPointId, setEditingPointId] = useState<string | null>(null);
+
+  // The popover belongs to the marker of one frame
+  useEffect(() => {
+    setEditingPointId(null);
+  }, [currentTime, isPlaying, isAutoTracking]);
+
   // --- Overlay Element Generation ---
   const uiElements = useTrackOverlay({
-    points,
+    points: displayPoints,
+    objects,
+    keypointSchemas,
     currentTime,
     videoFps,
     activeObjectId,
@@ -104,6 +203,7 @@ export const TrackerWorkspace: React.FC<Props> = ({
     handlePointerCancel,
     handleLostPointerCapture,
     handlePointerLeave,
+    handleDoubleClick,
   } = useCanvasInteraction({
     containerRef,
     videoDimensions,
@@ -111,18 +211,25 @@ export const TrackerWorkspace: React.FC<Props> = ({
     setTransform,
     getConstrainedTransform,
     uiElements,
-    points,
+    points: displayPoints,
     draggedPoint,
     setDraggedPoint,
     activeObjectId,
+    activeKeypoint,
     settings,
     currentTime,
     videoFps,
     isPlaying,
+    isAutoTracking,
     isSpaceHeld,
     canPan,
     onAddPoint,
+    onLogPoint,
     onSelectObject,
+    onEditPoint: identitySwap ? undefined : setEditingPointId,
+    shapeDraft,
+    onAddShapeVertex,
+    onFinishShape,
   });
 
   // --- Rendering Logic ---
@@ -132,8 +239,44 @@ export const TrackerWorkspace: React.FC<Props> = ({
     uiElements,
     transform,
     videoDimensions,
+    regions,
+    shapeDraft,
+    worldGrid,
+    controlPoints,
   });
 
+  // Point and screen position of a marker (e.g. the one being annotated or hovered)
+  const getMarker = (pointId: string | null) => {
+    const point = displayPoints.find((p) => p.id === pointId);
+    const element = uiElements.find(
+      (el) => el.type === "circle" && el.pointId === pointId,
+    );
+    if (!point || !element) return null;
+    return {
+      point,
+      element,
+      position: {
+        x: element.pos.x * transform.scale + transform.x,
+        y: element.pos.y * transform.scale + transform.y,
+      },
+      label:
+        getObjectLabel(
+          point.objectId,
+          objects.find((o) => o.id === point.objectId),
+        ) + (point.keypoint !== undefined ? ` · ${point.keypoint}` : ""),
+    };
+  };
+
+  const editing = getMarker(editingPointId);
+  const hovered =
+    debugState.mode === "IDLE" && debugState.hoverPointId !== editingPointId
+      ? getMarker(debugState.hoverPointId)
+      : null;
+  const hoverCard =
+    hovered && (hovered.point.confidence || hovered.point.note)
+      ? hovered
+      : null;
+
   const getInteractionPills = (state: typeof debugState) => {
     const pills = [];
 
@@ -147,6 +290,19 @@ export const TrackerWorkspace: React.FC<Props> = ({
         },
       ];
     }
+    if (state.mode === "BOXING" || state.mode === "RESIZING") {
+      return [
+        {
+          id: "box",
+          actionIcon: <BoxSelect size={18} />,
+          description: (
+            <span className="text-gray-200">
+              {state.mode === "BOXING" ? "Drawing box" : "Resizing box"}
+            </span>
+          ),
+        },
+      ];
+    }
     if (state.mode === "PANNING") {
       return [
         {
@@ -157,6 +313,88 @@ export const TrackerWorkspace: React.FC<Props> = ({
       ];
     }
 
+    if (shapeDraft?.kind === "calibration") {
+      return [
+        {
+          id: "calibration",
+          actionIcon: <Ruler size={18} />,
+          description: (
+            <div className="flex items-center gap-1.5 text-gray-200">
+              <PiMouseLeftClickFill size={16} className="text-gray-300" />
+              <span>
+                {shapeDraft.vertices.length === 0
+                  ? "to place start of reference line"
+                  : "to place end of reference line"}
+              </span>
+              <Key>Esc</Key>
+              <span>to cancel</span>
+            </div>
+          ),
+        },
+      ];
+    }
+
+    if (shapeDraft?.kind === "homography") {
+      return [
+        {
+          id: "homography",
+          actionIcon: <Grid3x3 size={18} />,
+          description: (
+            <div className="flex items-center gap-1.5 text-gray-200">
+              <PiMouseLeftClickFill size={16} className="text-gray-300" />
+              <span>to place control point</span>
+              <Key>Enter</Key>
+              <span>when done</span>
+              <Key>Esc</Key>
+              <span>to cancel</span>
+            </div>
+          ),
+        },
+      ];
+    }
+
+    if (shapeDraft) {
+      return [
+        {
+          id: "region",
+          actionIcon: <Pentagon size={18} />,
+          description: (
+            <div className="flex items-center gap-1.5 text-gray-200">
+              <PiMouseLeftClickFill size={16} className="text-gray-300" />
+              <span>to add vertex</span>
+              <Key>Enter</Key>
+              <span>to close</span>
+              <Key>Esc</Key>
+              <span>to cancel</span>
+            </div>
+          ),
+        },
+      ];
+    }
+
+    if (identitySwap) {
+      const target = objects.find((o) => o.id === identitySwap.firstId);
+      return [
+        {
+          id: `identity-swap-${identitySwap.firstId}`,
+          actionIcon: <ArrowLeftRight size={18} />,
+          description: (
+            <div className="flex items-center gap-1.5 text-gray-200">
+              <PiMouseLeftClickFill size={16} className="text-gray-300" />
+              <span>
+                {target
+                  ? `other marker to swap with ${target.name || `#${target.id}`}`
+                  : "two markers to swap their identities"}{" "}
+                {isRangeSelected ? "in the selection" : "from here on"}
+              </span>
+              <Key>Esc</Key>
+              <span>to cancel</span>
+            </div>
+          ),
+        },
+      ];
+    }
+
     // 2. Modifier Held (Exclusive override)
     if (state.isCtrl) {
       return [
@@ -166,7 +404,7 @@ export const TrackerWorkspace: React.FC<Props> = ({
           description: (
             <div className="flex items-center gap-2 text-gray-200">
               <PiMouseLeftClickFill size={16} className="text-gray-300" />
-              <span>to log location</span>
+              <span>to log location, drag to draw box</span>
             </div>
           ),
         },
@@ -188,10 +426,37 @@ export const TrackerWorkspace: React.FC<Props> = ({
       ),
     });
 
+    // Hint: Accept the proposed position
+    if (suggestion) {
+      pills.push({
+        id: "hint-suggestion",
+        actionIcon: <WandSparkles size={18} />,
+        description: (
+          <div className="flex items-center gap-1.5 text-gray-200">
+            <Key>Enter</Key>
+            <span className="ml-1">to accept suggestion</span>
+            <span className="ml-1 font-mono text-gray-500">
+              {suggestion.score.toFixed(2)}
+            </span>
+          </div>
+        ),
+      });
+    }
+
     // Object vs Background Interactions
     if (state.hoverType !== "NONE") {
       // Distinguish between Current Point (Draggable) and Past/History Point (Selectable only)
       if (state.hoverIsCurrent) {
+        pills.push({
+          id: "hint-obj-note",
+          actionIcon: <MessageSquare size={18} />,
+          description: (
+            <div className="flex items-center gap-2 text-gray-200">
+              <PiMouseLeftClickFill size={16} className="text-gray-300" />
+              <span>Double-click to rate or add note</span>
+            </div>
+          ),
+        });
         pills.push({
           id: "hint-obj-move",
           actionIcon: <Move size={18} />,
@@ -270,7 +535,11 @@ export const TrackerWorkspace: React.FC<Props> = ({
       tabIndex={0}
       className={`tracker-workspace relative w-full h-full bg-gray-950 overflow-hidden outline-none focus:outline-none select-none cursor-${debugState.predictedCursor}`}
       onWheel={handleWheel}
-      onPointerDown={handlePointerDown}
+      onPointerDown={(e) => {
+        setEditingPointId(null);
+        handlePointerDown(e);
+      }}
+      onDoubleClick={handleDoubleClick}
       onPointerMove={handlePointerMove}
       onPointerUp={handlePointerUp}
       onPointerCancel={handlePointerCancel}
@@ -301,6 +570,51 @@ export const TrackerWorkspace: React.FC<Props> = ({
         className="absolute top-0 left-0 pointer-events-none"
       />
 
+      {/* Confidence and note of the hovered marker */}
+      {hoverCard && (
+        <div
+          className="absolute z-30 max-w-xs -translate-x-1/2 -translate-y-full px-3 py-2 bg-gray-900/90 backdrop-blur border border-gray-700/50 rounded-lg shadow-xl pointer-events-none text-xs"
+          style={{
+            left: hoverCard.position.x,
+            top: hoverCard.position.y - hoverCard.element.radius - 8,
+          }}
+        >
+          <div className="flex items-center gap-2 font-medium text-gray-200 whitespace-nowrap">
+            {hoverCard.label}
+            {hoverCard.point.confidence && (
+              <span
+                className={
+                  hoverCard.point.confidence === "low"
+                    ? "text-active"
+                    : "text-inactive"
+                }
+              >
+                {hoverCard.point.confidence} confidence
+              </span>
+            )}
+          </div>
+          {hoverCard.point.note && (
+            <p className="mt-1 text-gray-400 whitespace-pre-wrap break-words">
+              {hoverCard.point.note}
+            </p>
+          )}
+        </div>
+      )}
+
+      {editing && (
+        <PointNotePopover
+          point={editing.point}
+          label={editing.label}
+          position={editing.position}
+          offset={editing.element.radius + 8}
+          onSave={(p) => {
+            onAddPoint(p);
+            setEditingPointId(null);
+          }}
+          onClose={() => setEditingPointId(null)}
+        />
+      )}
+
       {/*
             Interaction Status & Help Container
             Positioning toggles between Left and Right if obstructed by settings widget
@@ -0,0 +1,259 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { X, Split, Combine, Trash2, GitFork } from "lucide-react";
+import { TrackPoint, TrackedObject } from "@/types";
+import { formatTime, getFrameIndex, getObjectLabel } from "@/utils";
+import { ConflictResolution } from "@/services/importMerge";
+import { countMergeConflicts } from "@/services/trackOperations";
+import { useDialogFocusTrap } from "@/hooks/useDialogFocusTrap";
+
+const selectClass =
+  "bg-gray-800/80 border border-gray-750 rounded-lg px-2 py-1.5 text-sm text-gray-200 outline-none focus:border-active";
+
+const actionClass =
+  "flex items-center gap-2 px-3 py-1.5 text-sm font-medium bg-gray-800 hover:bg-gray-750 border border-gray-750 text-gray-300 hover:text-white rounded-lg transition outline-none focus-visible:border-active disabled:opacity-50 shrink-0";
+
+interface Props {
+  isOpen: boolean;
+  points: TrackPoint[];
+  objects: TrackedObject[];
+  activeObjectId: number;
+  currentTime: number; // Split point
+  fps: number;
+  onClose: () => void;
+  onDelete: (id: number, renumber: boolean) => void;
+  onMerge: (
+    sourceId: number,
+    targetId: number,
+    resolution: ConflictResolution,
+  ) => void;
+  onSplit: (id: number) => void;
+}
+
+export const TracksDialog: React.FC<Props> = ({
+  isOpen,
+  points,
+  objects,
+  activeObjectId,
+  currentTime,
+  fps,
+  onClose,
+  onDelete,
+  onMerge,
+  onSplit,
+}) => {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const [objectId, setObjectId] = useState(activeObjectId);
+  const [targetId, setTargetId] = useState<number | null>(null);
+  const [resolution, setResolution] = useState<ConflictResolution>("existing");
+  const [renumber, setRenumber] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setObjectId(activeObjectId);
+      setTargetId(null);
+      setResolution("existing");
+      setRenumber(false);
+    }
+  }, [isOpen, activeObjectId]);
+
+  useDialogFocusTrap(dialogRef, isOpen, onClose, {
+    initialFocus: (dialog) => dialog.querySelector("select"),
+  });
+
+  const others = objects.filter((o) => o.id !== objectId);
+  const target = targetId ?? others[0]?.id ?? null;
+
+  const conflicts = useMemo(
+    () =>
+      isOpen && target !== null
+        ? countMergeConflicts({ points }, objectId, target, fps)
+        : 0,
+    [isOpen, points, objectId, target, fps],
+  );
+
+  if (!isOpen) return null;
+
+  const label = (id: number) =>
+    getObjectLabel(
+      id,
+      objects.find((o) => o.id === id),
+    );
+  const own = points.filter((p) => p.objectId === objectId);
+  const splitFrame = getFrameIndex(currentTime, fps);
+  const splitCount = own.filter(
+    (p) => getFrameIndex(p.timestamp, fps) >= splitFrame,
+  ).length;
+  const followingCount = objects.filter((o) => o.id > objectId).length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div
+        ref={dialogRef}
+        className="bg-gray-900 border border-gray-750 rounded-xl shadow-2xl w-full max-w-xl overflow-hidden flex flex-col max-h-[85vh]"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="tracks-title"
+      >
+        {/* Header (Lighter - 850) */}
+        <div className="flex justify-between items-center px-6 py-4 border-b border-gray-800 bg-gray-850">
+          <div className="flex items-center gap-3">
+            <GitFork className="text-active" size={22} />
+            <h2 id="tracks-title" className="text-lg font-bold text-white">
+              Edit Tracks
+            </h2>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition p-1.5 rounded-lg border border-transparent focus-visible:border-active outline-none"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto custom-scrollbar space-y-5">
+          <label className="flex items-center justify-between gap-3 px-1 text-sm text-gray-400">
+            Object
+            <span className="flex items-center gap-3">
+              <span className="text-gray-500">{own.length} points</span>
+              <select
+                value={objectId}
+                onChange={(e) => {
+                  setObjectId(Number(e.target.value));
+                  setTargetId(null);
+                }}
+                className={selectClass}
+              >
+                {objects.map((o) => (
+                  <option key={o.id} value={o.id}>
+                    #{o.id} {o.name}
+                  </option>
+                ))}
+              </select>
+            </span>
+          </label>
+
+          {/* Split */}
+          <div className="pt-4 border-t border-gray-800 px-1 flex items-center justify-between gap-4">
+            <div>
+              <h3 className="text-sm font-bold text-gray-300">Split</h3>
+              <p className="text-xs text-gray-500">
+                Move the {splitCount} points from {formatTime(currentTime, fps)}{" "}
+                (frame {splitFrame}) on to a new object
+              </p>
+            </div>
+            <button
+              type="button"
+              disabled={splitCount === 0 || splitCount === own.length}
+              onClick={() => onSplit(objectId)}
+              className={actionClass}
+            >
+              <Split size={16} className="text-active" />
+              Split
+            </button>
+          </div>
+
+          {/* Merge */}
+          <div className="pt-4 border-t border-gray-800 px-1 space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <h3 className="text-sm font-bold text-gray-300">Merge</h3>
+                <p className="text-xs text-gray-500">
+                  Move all points of {label(objectId)} to another object and
+                  remove {label(objectId)}
+                </p>
+              </div>
+              <button
+                type="button"
+                disabled={target === null}
+                onClick={() =>
+                  target !== null && onMerge(objectId, target, resolution)
+                }
+                className={actionClass}
+              >
+                <Combine size={16} className="text-active" />
+                Merge
+              </button>
+            </div>
+            {target !== null && (
+              <label className="flex items-center justify-between gap-3 text-sm text-gray-400">
+                Into
+                <select
+                  value={target}
+                  onChange={(e) => setTargetId(Number(e.target.value))}
+                  className={selectClass}
+                >
+                  {others.map((o) => (
+                    <option key={o.id} value={o.id}>
+                      #{o.id} {o.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            {conflicts > 0 && target !== null && (
+              <label className="flex items-center justify-between gap-3 text-sm text-gray-400">
+                <span>
+                  <span className="text-active">{conflicts}</span> frames with
+                  points of both
+                </span>
+                <select
+                  value={resolution}
+                  onChange={(e) =>
+                    setResolution(e.target.value as ConflictResolution)
+                  }
+                  className={selectClass}
+                >
+                  <option value="existing">Keep {label(target)}</option>
+                  <option value="incoming">Keep {label(objectId)}</option>
+                </select>
+              </label>
+            )}
+          </div>
+
+          {/* Delete */}
+          <div className="pt-4 border-t border-gray-800 px-1 space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <h3 className="text-sm font-bold text-gray-300">Delete</h3>
+                <p className="text-xs text-gray-500">
+                  Remove {label(objectId)} with its {own.length} points
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => onDelete(objectId, renumber)}
+                className={actionClass}
+              >
+                <Trash2 size={16} className="text-active" />
+                Delete
+              </button>
+            </div>
+            {followingCount > 0 && (
+              <label className="flex items-center gap-2 text-sm text-gray-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={renumber}
+                  onChange={(e) => setRenumber(e.target.checked)}
+                  className="accent-active"
+                />
+                Renumber the {followingCount} following objects
+              </label>
+            )}
+          </div>
+        </div>
+
+        {/* Footer Actions (Lighter - 850) */}
+        <div className="bg-gray-850 px-6 py-4 flex items-center justify-end gap-3 border-t border-gray-800">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium bg-gray-800 hover:bg-gray-750 border border-gray-750 text-gray-400 hover:text-white rounded-lg transition outline-none focus-visible:border-active"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,11 +1,12 @@
-import React, { useEffect, useRef } from "react";
-import { AlertTriangle, Download, Trash2 } from "lucide-react";
+import React, { useRef } from "react";
+import { AlertTriangle, Save, Trash2 } from "lucide-react";
+import { useDialogFocusTrap } from "@/hooks/useDialogFocusTrap";
 
 interface Props {
   isOpen: boolean;
   onClose: () => void;
   onDiscard: () => void;
-  onExport: () => void;
+  onSave: () => void;
   actionDescription?: string;
 }
 
@@ -13,77 +14,13 @@ export const UnsavedChangesDialog: React.FC<Props> = ({
   isOpen,
   onClose,
   onDiscard,
-  onExport,
+  onSave,
   actionDescription = "loading a new video",
 }) => {
   const dialogRef = useRef<HTMLDivElement>(null);
-  const previousFocusRef = useRef<HTMLElement | null>(null);
 
-  // Focus Management (Trap & Restore)
-  useEffect(() => {
-    if (isOpen) {
-      // Save previously focused element
-      previousFocusRef.current = document.activeElement as HTMLElement;
-
-      // Focus first button (Cancel) when opened
-      requestAnimationFrame(() => {
-        const firstButton = dialogRef.current?.querySelector("button");
-        if (firstButton) (firstButton as HTMLElement).focus();
-      });
-
-      const handleKeyDown = (e: KeyboardEvent) => {
-        // Handle Escape
-        if (e.key === "Escape") {
-          e.stopPropagation();
-          onClose();
-          return;
-        }
-
-        // Handle Tab Cycle (Focus Trap)
-        if (e.key === "Tab") {
-          const dialog = dialogRef.current;
-          if (!dialog) return;
-
-          const focusable = dialog.querySelectorAll("button");
-          if (focusable.length === 0) return;
-
-          const first = focusable[0] as HTMLElement;
-          const last = focusable[focusable.length - 1] as HTMLElement;
-
-          const isInside = dialog.contains(document.activeElement);
-
-          // If focus somehow escaped, bring it back
-          if (!isInside) {
-            e.preventDefault();
-            first.focus();
-            return;
-          }
-
-          if (e.shiftKey) {
-            if (document.activeElement === first) {
-              e.preventDefault();
-              last.focus();
-            }
-          } else {
-            if (document.activeElement === last) {
-              e.preventDefault();
-              first.focus();
-            }
-          }
-        }
-      };
-
-      window.addEventListener("keydown", handleKeyDown);
-
-      return () => {
-        window.removeEventListener("keydown", handleKeyDown);
-        // Restore focus on close
-        if (previousFocusRef.current) {
-          previousFocusRef.current.focus();
-        }
-      };
-    }
-  }, [isOpen, onClose]);
+  // Focus first button (Cancel) when opened
+  useDialogFocusTrap(dialogRef, isOpen, onClose, { focusable: "button" });
 
   if (!isOpen) return null;
 
@@ -109,8 +46,8 @@ export const UnsavedChangesDialog: React.FC<Props> = ({
                 Unsaved Changes
               </h2>
               <p className="text-gray-400 text-sm leading-relaxed">
-                You have unsaved tracking data. Do you want to export it before{" "}
-                {actionDescription}?
+                You have unsaved tracking data. Do you want to save the project
+                before {actionDescription}?
               </p>
               <p className="text-gray-400 text-sm mt-4 leading-relaxed">
                 Proceeding will discard current progress if not saved.
@@ -138,14 +75,14 @@ export const UnsavedChangesDialog: React.FC<Props> = ({
             Discard & Proceed
           </button>
           <button
-            onClick={onExport}
+            onClick={onSave}
             className="px-4 py-2 text-sm font-medium bg-gray-800 hover:bg-gray-750 border border-gray-750 text-gray-300 hover:text-white rounded-lg transition flex items-center gap-2 outline-none focus-visible:border-active group"
           >
-            <Download
+            <Save
               size={16}
               className="text-gray-400 group-hover:text-active group-hover:scale-110 transition-all"
             />
-            Export & Proceed
+            Save & Proceed
           </button>
         </div>
       </div>
@@ -0,0 +1,171 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { AppSettings, TrackPoint } from "@/types";
+import {
+  getFrameIndex,
+  getFrameTime,
+  getPointId,
+  hasBox,
+  isTrackingFrame,
+} from "@/utils";
+import {
+  FrameSampler,
+  createFrameSampler,
+  readFrameRegion,
+  waitForFrame,
+} from "@/services/frameSampler";
+import {
+  MIN_MATCH_SCORE,
+  getSearchRect,
+  getTemplateRect,
+  locatePosition,
+} from "@/services/assistedTracking";
+
+interface UseAssistedTrackingProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  videoSrc: string;
+  videoDimensions: { w: number; h: number };
+  points: TrackPoint[];
+  activeObjectId: number;
+  activeKeypoint?: string; // Set when the active object has a keypoint schema
+  currentTime: number;
+  videoFps: number;
+  isPlaying: boolean;
+  settings: AppSettings;
+}
+
+export interface Suggestion {
+  point: TrackPoint; // Flagged as `suggested`
+  score: number; // Match quality (normalized cross-correlation)
+}
+
+/**
+ * Proposes the position of the active object on the current sampling frame.
+ * The patch around its last logged point is searched in the displayed frame.
+ */
+export function useAssistedTracking({
+  videoRef,
+  videoSrc,
+  videoDimensions,
+  points,
+  activeObjectId,
+  activeKeypoint,
+  currentTime,
+  videoFps,
+  isPlaying,
+  settings,
+}: UseAssistedTrackingProps): Suggestion | null {
+  const [suggestion, setSuggestion] = useState<Suggestion | null>(null);
+  const samplerRef = useRef<FrameSampler | null>(null);
+
+  const enabled = settings.assistedTracking;
+
+  // The template frame is read through a hidden player, the visible one stays put
+  useEffect(() => {
+    if (!enabled) return;
+    const sampler = createFrameSampler(videoSrc);
+    samplerRef.current = sampler;
+    return () => {
+      sampler.dispose();
+      samplerRef.current = null;
+    };
+  }, [enabled, videoSrc]);
+
+  const currentFrame = getFrameIndex(currentTime, videoFps);
+  const isAligned = isTrackingFrame(
+    currentTime,
+    videoFps,
+    settings.samplingRateNum,
+    settings.samplingRateDen,
+  );
+
+  // Latest logged point of the active object (and keypoint) before the current frame,
+  // or null if the current frame is already logged
+  const anchor = useMemo(() => {
+    let latest: TrackPoint | null = null;
+    for (const p of points) {
+      if (
+        p.objectId !== activeObjectId ||
+        p.keypoint !== activeKeypoint ||
+        p.interpolated ||
+        p.suggested
+      ) {
+        continue;
+      }
+      const frame = getFrameIndex(p.timestamp, videoFps);
+      if (frame === currentFrame) return null;
+      if (frame < currentFrame && (!latest || p.timestamp > latest.timestamp)) {
+        latest = p;
+      }
+    }
+    return latest;
+  }, [points, activeObjectId, activeKeypoint, currentFrame, videoFps]);
+
+  useEffect(() => {
+    setSuggestion(null);
+    if (!enabled || isPlaying || !isAligned || !anchor || !videoDimensions.w) {
+      return;
+    }
+
+    let cancelled = false;
+
+    const run = async () => {
+      const video = videoRef.current;
+      const sampler = samplerRef.current;
+      if (!video || !sampler) return;
+
+      const templateRect = getTemplateRect(anchor.x, anchor.y, videoDimensions);
+      const searchRect = getSearchRect(anchor.x, anchor.y, videoDimensions);
+
+      const template = await sampler.grab(anchor.timestamp, templateRect);
+      await waitForFrame(video);
+      if (cancelled) return;
+      const search = readFrameRegion(video, searchRect);
+
+      const located = await locatePosition(
+        anchor,
+        template,
+        templateRect,
+        search,
+        searchRect,
+      );
+      if (cancelled || !located || located.score < MIN_MATCH_SCORE) return;
+
+      const timestamp = getFrameTime(currentFrame, videoFps);
+      setSuggestion({
+        point: {
+          id: getPointId(timestamp, activeObjectId, activeKeypoint),
+          timestamp,
+          objectId: activeObjectId,
+          ...(activeKeypoint !== undefined ? { keypoint: activeKeypoint } : {}),
+          // A box keeps its size, only the center moves
+          ...(hasBox(anchor)
+            ? { width: anchor.width, height: anchor.height }
+            : {}),
+          x: Math.max(0, Math.min(videoDimensions.w, located.x)),
+          y: Math.max(0, Math.min(videoDimensions.h, located.y)),
+          suggested: true,
+        },
+        score: located.score,
+      });
+    };
+
+    run().catch((err) => console.error("Assisted tracking failed:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    enabled,
+    isPlaying,
+    isAligned,
+    anchor,
+    currentFrame,
+    activeObjectId,
+    activeKeypoint,
+    videoFps,
+    videoDimensions,
+    videoRef,
+  ]);
+
+  return suggestion;
+}
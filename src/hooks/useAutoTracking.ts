@@ -0,0 +1,246 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { AppSettings, TrackPoint } from "@/types";
+import {
+  getFrameIndex,
+  getFrameTime,
+  getPointId,
+  hasBox,
+  isTrackingFrame,
+} from "@/utils";
+import { createFrameSampler } from "@/services/frameSampler";
+import {
+  MIN_MATCH_SCORE,
+  TEMPLATE_RADIUS,
+  getSearchRect,
+  getTemplateRect,
+  locatePosition,
+} from "@/services/assistedTracking";
+
+// Positions closer to the border than this are treated as leaving the frame
+const EDGE_MARGIN = TEMPLATE_RADIUS / 2;
+
+export type AutoTrackingStopReason =
+  | "completed" // Reached the end of the range
+  | "low-confidence"
+  | "left-frame"
+  | "reached-logged" // Next frame already holds a location logged by hand
+  | "cancelled"
+  | "error";
+
+export interface AutoTrackingStatus {
+  objectId: number;
+  keypoint?: string;
+  startFrame: number;
+  endFrame: number;
+  currentFrame: number;
+  pointsAdded: number;
+  isRunning: boolean;
+  stopReason: AutoTrackingStopReason | null;
+  lastScore: number | null;
+}
+
+interface UseAutoTrackingProps {
+  videoSrc: string | null;
+  videoDimensions: { w: number; h: number } | null;
+  videoDuration: number; // ms
+  videoFps: number;
+  settings: AppSettings;
+  points: TrackPoint[];
+  addPoint: (p: TrackPoint) => void;
+  beginBatch: () => number;
+  endBatch: (id: number) => void;
+}
+
+/**
+ * Run-ahead tracking: starting at a logged point, steps through the following
+ * sampling frames, matches the object's patch in each and writes auto-marked points.
+ * The whole run is a single undo step; cancelling ends it at once, so the next
+ * edit or undo never folds into the run.
+ */
+export function useAutoTracking({
+  videoSrc,
+  videoDimensions,
+  videoDuration,
+  videoFps,
+  settings,
+  points,
+  addPoint,
+  beginBatch,
+  endBatch,
+}: UseAutoTrackingProps) {
+  const [status, setStatus] = useState<AutoTrackingStatus | null>(null);
+  const cancelRef = useRef(false);
+  const isRunningRef = useRef(false);
+  const batchRef = useRef<number | null>(null); // History batch of the running run
+
+  // Read inside the running loop to detect locations logged by hand
+  const pointsRef = useRef(points);
+  useEffect(() => {
+    pointsRef.current = points;
+  }, [points]);
+
+  // Abort a run when the video changes or the app unmounts
+  useEffect(() => {
+    return () => {
+      cancelRef.current = true;
+    };
+  }, [videoSrc]);
+
+  const closeBatch = useCallback(() => {
+    if (batchRef.current === null) return;
+    endBatch(batchRef.current);
+    batchRef.current = null;
+  }, [endBatch]);
+
+  const start = useCallback(
+    async (anchor: TrackPoint, endFrame?: number) => {
+      if (isRunningRef.current || !videoSrc || !videoDimensions) return;
+
+      const { samplingRateNum, samplingRateDen } = settings;
+      const { objectId, keypoint } = anchor;
+      const startFrame = getFrameIndex(anchor.timestamp, videoFps);
+      const lastVideoFrame = getFrameIndex(videoDuration, videoFps) - 1;
+      const stopFrame = Math.min(endFrame ?? lastVideoFrame, lastVideoFrame);
+      if (stopFrame <= startFrame) return;
+
+      isRunningRef.current = true;
+      cancelRef.current = false;
+      let current: AutoTrackingStatus = {
+        objectId,
+        keypoint,
+        startFrame,
+        endFrame: stopFrame,
+        currentFrame: startFrame,
+        pointsAdded: 0,
+        isRunning: true,
+        stopReason: null,
+        lastScore: null,
+      };
+      setStatus(current);
+
+      const update = (patch: Partial<AutoTrackingStatus>) => {
+        current = { ...current, ...patch };
+        setStatus(current);
+      };
+
+      const sampler = createFrameSampler(videoSrc);
+      batchRef.current = beginBatch();
+
+      let stopReason: AutoTrackingStopReason = "completed";
+      try {
+        let pos = { x: anchor.x, y: anchor.y };
+        let templateRect = getTemplateRect(pos.x, pos.y, videoDimensions);
+        let template = await sampler.grab(anchor.timestamp, templateRect);
+
+        for (let frame = startFrame + 1; frame <= stopFrame; frame++) {
+          const timestamp = getFrameTime(frame, videoFps);
+          if (
+            !isTrackingFrame(
+              timestamp,
+              videoFps,
+              samplingRateNum,
+              samplingRateDen,
+            )
+          ) {
+            continue;
+          }
+          if (cancelRef.current) {
+            stopReason = "cancelled";
+            break;
+          }
+
+          const existing = pointsRef.current.find(
+            (p) =>
+              p.objectId === objectId &&
+              p.keypoint === keypoint &&
+              getFrameIndex(p.timestamp, videoFps) === frame,
+          );
+          if (existing && existing.source !== "auto") {
+            stopReason = "reached-logged";
+            break;
+          }
+
+          const searchRect = getSearchRect(pos.x, pos.y, videoDimensions);
+          const search = await sampler.grab(timestamp, searchRect);
+          const located = await locatePosition(
+            pos,
+            template,
+            templateRect,
+            search,
+            searchRect,
+          );
+          if (cancelRef.current) {
+            stopReason = "cancelled";
+            break;
+          }
+
+          update({ currentFrame: frame, lastScore: located?.score ?? null });
+          if (!located || located.score < MIN_MATCH_SCORE) {
+            stopReason = "low-confidence";
+            break;
+          }
+          if (
+            located.x < EDGE_MARGIN ||
+            located.y < EDGE_MARGIN ||
+            located.x > videoDimensions.w - EDGE_MARGIN ||
+            located.y > videoDimensions.h - EDGE_MARGIN
+          ) {
+            stopReason = "left-frame";
+            break;
+          }
+
+          addPoint({
+            id: getPointId(timestamp, objectId, keypoint),
+            timestamp,
+            objectId,
+            ...(keypoint !== undefined ? { keypoint } : {}),
+            // A box keeps its size, only the center moves
+            ...(hasBox(anchor)
+              ? { width: anchor.width, height: anchor.height }
+              : {}),
+            x: located.x,
+            y: located.y,
+            source: "auto",
+          });
+          update({ pointsAdded: current.pointsAdded + 1 });
+
+          // Follow appearance changes: the next template comes from this frame
+          pos = { x: located.x, y: located.y };
+          templateRect = getTemplateRect(pos.x, pos.y, videoDimensions);
+          template = await sampler.grab(timestamp, templateRect);
+        }
+      } catch (err) {
+        console.error("Auto-tracking failed:", err);
+        stopReason = "error";
+      } finally {
+        closeBatch();
+        sampler.dispose();
+        isRunningRef.current = false;
+        update({ isRunning: false, stopReason });
+      }
+    },
+    [
+      videoSrc,
+      videoDimensions,
+      videoDuration,
+      videoFps,
+      settings,
+      addPoint,
+      beginBatch,
+      closeBatch,
+    ],
+  );
+
+  // The loop checks the flag before each write, so no point is added after this
+  const cancel = useCallback(() => {
+    cancelRef.current = true;
+    closeBatch();
+  }, [closeBatch]);
+
+  // Hides the result of a finished run
+  const dismiss = useCallback(() => {
+    if (!isRunningRef.current) setStatus(null);
+  }, []);
+
+  return { status, start, cancel, dismiss };
+}
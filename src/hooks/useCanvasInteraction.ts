@@ -1,6 +1,19 @@
 import React, { useRef, useCallback, useState, useEffect } from "react";
-import { TrackPoint, ViewTransform, UIElement, AppSettings } from "@/types";
-import { isTrackingFrame, getFrameIndex, getFrameTime } from "@/utils";
+import {
+  TrackPoint,
+  ViewTransform,
+  UIElement,
+  AppSettings,
+  BoxCorner,
+  ShapeDraft,
+} from "@/types";
+import {
+  isTrackingFrame,
+  getFrameIndex,
+  getFrameTime,
+  getPointId,
+  toManualPoint,
+} from "@/utils";
 
 interface UseCanvasInteractionProps {
   containerRef: React.RefObject<HTMLDivElement | null>;
@@ -15,15 +28,24 @@ interface UseCanvasInteractionProps {
   setDraggedPoint: React.Dispatch<React.SetStateAction<TrackPoint | null>>;
 
   activeObjectId: number;
+  activeKeypoint?: string;
   settings: AppSettings;
   currentTime: number;
   videoFps: number;
   isPlaying: boolean;
+  isAutoTracking: boolean; // Points stay untouched until the run ends
   isSpaceHeld: boolean;
   canPan: boolean;
 
   onAddPoint: (p: TrackPoint) => void;
+  onLogPoint: (p: TrackPoint) => void;
   onSelectObject: (id: number) => void;
+  onEditPoint?: (pointId: string) => void; // Double-click on a current-frame marker
+
+  // Drawing mode (regions, calibration): clicks place vertices instead of selecting objects
+  shapeDraft?: ShapeDraft | null;
+  onAddShapeVertex?: (v: { x: number; y: number }) => void;
+  onFinishShape?: () => void;
 }
 
 type InteractionState =
@@ -32,16 +54,37 @@ type InteractionState =
       type: "PRE_DRAG";
       startX: number;
       startY: number;
-      candidateObj?: { objectId: number; point?: TrackPoint };
+      candidateObj?: {
+        objectId: number;
+        point?: TrackPoint;
+        corner?: BoxCorner;
+      };
     }
+  | {
+      type: "PRE_BOX"; // Ctrl held: a click logs a point, a drag draws a box
+      startX: number;
+      startY: number;
+      origin: { x: number; y: number }; // Video coordinates
+    }
+  | { type: "BOXING"; origin: { x: number; y: number } }
   | { type: "DRAGGING"; originalPoint: TrackPoint }
+  | {
+      type: "RESIZING";
+      originalPoint: TrackPoint;
+      anchor: { x: number; y: number }; // Opposite corner, stays in place
+    }
   | { type: "PANNING"; lastX: number; lastY: number };
 
+const DRAG_THRESHOLD = 5; // px on screen
+const MIN_BOX_SIZE = 2; // px in the video, smaller drags log a point instead
+const CLOSE_REGION_DISTANCE = 10; // px on screen around the first vertex of a region
+
 export interface InteractionDebugState {
   mode: string;
   isCtrl: boolean;
   hoverType: string;
   hoverIsCurrent: boolean;
+  hoverPointId: string | null; // Point under the cursor, for its hover card
   predictedCursor: string;
   canPan: boolean;
 }
@@ -57,14 +100,21 @@ export function useCanvasInteraction({
   draggedPoint,
   setDraggedPoint,
   activeObjectId,
+  activeKeypoint,
   settings,
   currentTime,
   videoFps,
   isPlaying,
+  isAutoTracking,
   isSpaceHeld,
   canPan,
   onAddPoint,
+  onLogPoint,
   onSelectObject,
+  onEditPoint,
+  shapeDraft = null,
+  onAddShapeVertex,
+  onFinishShape,
 }: UseCanvasInteractionProps) {
   // Logic is driven by this Ref (Robust)
   const stateRef = useRef<InteractionState>({ type: "IDLE" });
@@ -75,6 +125,7 @@ export function useCanvasInteraction({
     isCtrl: false,
     hoverType: "NONE",
     hoverIsCurrent: false,
+    hoverPointId: null,
     predictedCursor: "default",
     canPan: canPan,
   });
@@ -92,6 +143,8 @@ export function useCanvasInteraction({
 
       for (let i = uiElements.length - 1; i >= 0; i--) {
         const el = uiElements[i];
+        // Skeleton edges and box outlines are not interactive (handles are)
+        if (el.type === "line" || el.type === "box") continue;
         const elScreenX = el.pos.x * transform.scale + transform.x;
         const elScreenY = el.pos.y * transform.scale + transform.y;
         const dist = Math.sqrt(
@@ -114,8 +167,14 @@ export function useCanvasInteraction({
         // Re-calculate predicted cursor based on latest state
         let cursor = "default";
 
-        if (next.mode === "DRAGGING" || next.mode === "PANNING") {
+        if (
+          next.mode === "DRAGGING" ||
+          next.mode === "RESIZING" ||
+          next.mode === "PANNING"
+        ) {
           cursor = "grabbing";
+        } else if (next.mode === "PRE_BOX" || next.mode === "BOXING") {
+          cursor = "crosshair";
         } else if (next.mode === "PRE_DRAG") {
           // Holding down.
           // If we were hovering a circle (object), we are effectively holding it (pointer).
@@ -134,6 +193,7 @@ export function useCanvasInteraction({
           prev.isCtrl === next.isCtrl &&
           prev.hoverType === next.hoverType &&
           prev.hoverIsCurrent === next.hoverIsCurrent &&
+          prev.hoverPointId === next.hoverPointId &&
           prev.predictedCursor === next.predictedCursor &&
           prev.canPan === next.canPan
         ) {
@@ -145,42 +205,74 @@ export function useCanvasInteraction({
     [canPan],
   );
 
-  const handleLogPoint = (e: React.MouseEvent | React.PointerEvent) => {
-    if (!containerRef.current || !videoDimensions.w) return;
+  // Video coordinates of a screen position
+  const toVideoPos = (clientX: number, clientY: number) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return {
+      x: (clientX - rect.left - transform.x) / transform.scale,
+      y: (clientY - rect.top - transform.y) / transform.scale,
+    };
+  };
+
+  const clampToVideo = (pos: { x: number; y: number }) => ({
+    x: Math.max(0, Math.min(pos.x, videoDimensions.w)),
+    y: Math.max(0, Math.min(pos.y, videoDimensions.h)),
+  });
+
+  // Video position for logging, or null if nothing can be logged here and now
+  const getLoggablePos = (clientX: number, clientY: number) => {
+    if (!containerRef.current || !videoDimensions.w) return null;
     const isValidFrame = isTrackingFrame(
       currentTime,
       videoFps,
       settings.samplingRateNum,
       settings.samplingRateDen,
     );
-    if (isPlaying || !isValidFrame) return;
-
-    const rect = containerRef.current.getBoundingClientRect();
-    const clickX = e.clientX - rect.left;
-    const clickY = e.clientY - rect.top;
-    const videoX = (clickX - transform.x) / transform.scale;
-    const videoY = (clickY - transform.y) / transform.scale;
+    if (isPlaying || isAutoTracking || !isValidFrame) return null;
 
+    const pos = toVideoPos(clientX, clientY);
     if (
-      videoX < 0 ||
-      videoX > videoDimensions.w ||
-      videoY < 0 ||
-      videoY > videoDimensions.h
+      pos.x < 0 ||
+      pos.x > videoDimensions.w ||
+      pos.y < 0 ||
+      pos.y > videoDimensions.h
     )
-      return;
+      return null;
+    return pos;
+  };
 
-    const frameIndex = getFrameIndex(currentTime, videoFps);
-    const logTime = getFrameTime(frameIndex, videoFps);
+  const getLogTime = () =>
+    getFrameTime(getFrameIndex(currentTime, videoFps), videoFps);
 
-    onAddPoint({
-      id: `${logTime}-${activeObjectId}`,
+  const handleLogPoint = (pos: { x: number; y: number }) => {
+    const logTime = getLogTime();
+    onLogPoint({
+      id: getPointId(logTime, activeObjectId, activeKeypoint),
       timestamp: logTime,
       objectId: activeObjectId,
-      x: videoX,
-      y: videoY,
+      x: pos.x,
+      y: pos.y,
+      ...(activeKeypoint !== undefined ? { keypoint: activeKeypoint } : {}),
     });
   };
 
+  // Box spanned by two corners; boxes belong to the object, not to a keypoint
+  const getBoxPoint = (
+    a: { x: number; y: number },
+    b: { x: number; y: number },
+  ): TrackPoint => {
+    const logTime = getLogTime();
+    return {
+      id: getPointId(logTime, activeObjectId),
+      timestamp: logTime,
+      objectId: activeObjectId,
+      x: (a.x + b.x) / 2,
+      y: (a.y + b.y) / 2,
+      width: Math.abs(b.x - a.x),
+      height: Math.abs(b.y - a.y),
+    };
+  };
+
   const resetState = () => {
     stateRef.current = { type: "IDLE" };
     setDraggedPoint(null);
@@ -220,6 +312,7 @@ export function useCanvasInteraction({
       updateDebugState({
         hoverType: hitElement ? hitElement.type : "NONE",
         hoverIsCurrent: hitElement ? hitElement.isCurrent : false,
+        hoverPointId: hitElement?.pointId ?? null,
       });
     }
   }, [uiElements, transform, updateDebugState, findElementAtScreenPos]);
@@ -229,7 +322,11 @@ export function useCanvasInteraction({
   const handlePointerLeave = () => {
     cursorPosRef.current = null;
     if (stateRef.current.type === "IDLE") {
-      updateDebugState({ hoverType: "NONE", hoverIsCurrent: false });
+      updateDebugState({
+        hoverType: "NONE",
+        hoverIsCurrent: false,
+        hoverPointId: null,
+      });
     }
   };
 
@@ -247,16 +344,26 @@ export function useCanvasInteraction({
     const isCtrl = e.ctrlKey || e.metaKey;
     updateDebugState({ isCtrl });
 
-    // 1. Action: Ctrl Click -> Log Point
+    // 1. Action: Ctrl Click -> Log Point, Ctrl Drag -> Draw Box (decided on move/release)
     if (isCtrl) {
-      handleLogPoint(e);
+      const origin = getLoggablePos(e.clientX, e.clientY);
+      if (origin) {
+        stateRef.current = {
+          type: "PRE_BOX",
+          startX: e.clientX,
+          startY: e.clientY,
+          origin,
+        };
+        updateDebugState({ mode: "PRE_BOX" });
+      }
       return;
     }
 
     // 2. Prepare for Potential Interaction
     const hitElement = findElementAtScreenPos(e.clientX, e.clientY);
 
-    let candidateObj: { objectId: number; point?: TrackPoint } | undefined;
+    let candidateObj:
+      { objectId: number; point?: TrackPoint; corner?: BoxCorner } | undefined;
 
     if (hitElement) {
       e.stopPropagation();
@@ -266,14 +373,21 @@ export function useCanvasInteraction({
       let pointData: TrackPoint | undefined;
       const currentFrameIndex = getFrameIndex(currentTime, videoFps);
 
-      if (isCurrentCircle) {
+      if (hitElement.type === "handle") {
+        pointData = points.find((p) => p.id === hitElement.pointId);
+      } else if (isCurrentCircle) {
         pointData = points.find(
           (p) =>
             p.objectId === hitElement.objectId &&
-            getFrameIndex(p.timestamp, videoFps) === currentFrameIndex,
+            getFrameIndex(p.timestamp, videoFps) === currentFrameIndex &&
+            (hitElement.pointId === undefined || p.id === hitElement.pointId),
         );
       }
-      candidateObj = { objectId: hitElement.objectId, point: pointData };
+      candidateObj = {
+        objectId: hitElement.objectId,
+        point: isAutoTracking ? undefined : pointData,
+        corner: hitElement.corner,
+      };
     }
 
     stateRef.current = {
@@ -302,6 +416,7 @@ export function useCanvasInteraction({
         isCtrl,
         hoverType: hitElement ? hitElement.type : "NONE",
         hoverIsCurrent: hitElement ? hitElement.isCurrent : false,
+        hoverPointId: hitElement?.pointId ?? null,
       });
       return;
     }
@@ -319,11 +434,24 @@ export function useCanvasInteraction({
       const dx = e.clientX - state.startX;
       const dy = e.clientY - state.startY;
       const dist = Math.sqrt(dx * dx + dy * dy);
-      const DRAG_THRESHOLD = 5;
 
       if (dist > DRAG_THRESHOLD) {
-        // Threshold met. Decide whether to Drag Object or Pan View.
-        if (state.candidateObj?.point) {
+        // Threshold met. Decide whether to Resize a Box, Drag Object or Pan View.
+        const point = state.candidateObj?.point;
+        const corner = state.candidateObj?.corner;
+        if (point && corner && point.width && point.height) {
+          stateRef.current = {
+            type: "RESIZING",
+            originalPoint: point,
+            anchor: {
+              x: point.x + (corner.endsWith("w") ? 1 : -1) * (point.width / 2),
+              y:
+                point.y +
+                (corner.startsWith("n") ? 1 : -1) * (point.height / 2),
+            },
+          };
+          updateDebugState({ mode: "RESIZING" });
+        } else if (state.candidateObj?.point) {
           stateRef.current = {
             type: "DRAGGING",
             originalPoint: state.candidateObj.point,
@@ -343,7 +471,36 @@ export function useCanvasInteraction({
       }
     }
 
-    // 2. Handle Active Drag
+    if (state.type === "PRE_BOX") {
+      const dx = e.clientX - state.startX;
+      const dy = e.clientY - state.startY;
+      if (Math.sqrt(dx * dx + dy * dy) > DRAG_THRESHOLD) {
+        stateRef.current = { type: "BOXING", origin: state.origin };
+        updateDebugState({ mode: "BOXING" });
+      }
+    }
+
+    // 2. Handle Active Box Drawing / Resizing
+    if (stateRef.current.type === "BOXING" && containerRef.current) {
+      const { origin } = stateRef.current;
+      setDraggedPoint(
+        getBoxPoint(origin, clampToVideo(toVideoPos(e.clientX, e.clientY))),
+      );
+    }
+
+    if (stateRef.current.type === "RESIZING" && containerRef.current) {
+      const { originalPoint, anchor } = stateRef.current;
+      const corner = clampToVideo(toVideoPos(e.clientX, e.clientY));
+      setDraggedPoint({
+        ...originalPoint,
+        x: (anchor.x + corner.x) / 2,
+        y: (anchor.y + corner.y) / 2,
+        width: Math.max(MIN_BOX_SIZE, Math.abs(corner.x - anchor.x)),
+        height: Math.max(MIN_BOX_SIZE, Math.abs(corner.y - anchor.y)),
+      });
+    }
+
+    // 3. Handle Active Drag
     if (stateRef.current.type === "DRAGGING" && containerRef.current) {
       const draggingState = stateRef.current; // TS narrowing
       const rect = containerRef.current.getBoundingClientRect();
@@ -362,7 +519,7 @@ export function useCanvasInteraction({
       });
     }
 
-    // 3. Handle Active Pan
+    // 4. Handle Active Pan
     if (stateRef.current.type === "PANNING") {
       const panningState = stateRef.current; // TS narrowing
       const dx = e.clientX - panningState.lastX;
@@ -395,21 +552,66 @@ export function useCanvasInteraction({
 
     const state = stateRef.current;
 
-    if (state.type === "PRE_DRAG") {
+    if (state.type === "PRE_DRAG" && shapeDraft) {
+      // Clicked without moving while drawing -> Vertex
+      const first = shapeDraft.vertices[0];
+      const rect = containerRef.current?.getBoundingClientRect();
+      // Clicking the first vertex of a region closes the polygon
+      const closes =
+        shapeDraft.kind === "region" &&
+        shapeDraft.vertices.length >= 3 &&
+        rect &&
+        Math.hypot(
+          first.x * transform.scale + transform.x - (state.startX - rect.left),
+          first.y * transform.scale + transform.y - (state.startY - rect.top),
+        ) < CLOSE_REGION_DISTANCE;
+      if (closes) {
+        onFinishShape?.();
+      } else if (containerRef.current && videoDimensions.w) {
+        onAddShapeVertex?.(
+          clampToVideo(toVideoPos(state.startX, state.startY)),
+        );
+      }
+    } else if (state.type === "PRE_DRAG") {
       // Clicked without moving -> Selection
       if (state.candidateObj) {
         onSelectObject(state.candidateObj.objectId);
       }
-    } else if (state.type === "DRAGGING") {
+    } else if (state.type === "PRE_BOX") {
+      // Ctrl+Click without moving -> Log Point
+      handleLogPoint(state.origin);
+    } else if (state.type === "BOXING") {
+      if (
+        draggedPoint?.width &&
+        draggedPoint.height &&
+        draggedPoint.width >= MIN_BOX_SIZE &&
+        draggedPoint.height >= MIN_BOX_SIZE
+      ) {
+        onLogPoint(draggedPoint);
+      } else {
+        handleLogPoint(state.origin);
+      }
+    } else if (state.type === "DRAGGING" || state.type === "RESIZING") {
       // Drag finished -> Commit
       if (draggedPoint) {
-        onAddPoint(draggedPoint);
+        // Dragging an interpolated, suggested or auto-tracked position confirms it
+        onAddPoint(toManualPoint(draggedPoint));
       }
     }
 
     resetState();
   };
 
+  // Double-click on a current-frame marker -> Edit its confidence and note
+  const handleDoubleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (shapeDraft || isPlaying || isAutoTracking) return;
+    if ((e.target as HTMLElement).closest("button, input, textarea, a")) return;
+    const hitElement = findElementAtScreenPos(e.clientX, e.clientY);
+    if (hitElement?.type === "circle" && hitElement.isCurrent) {
+      if (hitElement.pointId) onEditPoint?.(hitElement.pointId);
+    }
+  };
+
   const handlePointerCancel = (e: React.PointerEvent<HTMLDivElement>) => {
     if (e.currentTarget.hasPointerCapture(e.pointerId)) {
       e.currentTarget.releasePointerCapture(e.pointerId);
@@ -432,5 +634,6 @@ export function useCanvasInteraction({
     handlePointerUp,
     handlePointerCancel,
     handleLostPointerCapture,
+    handleDoubleClick,
   };
 }
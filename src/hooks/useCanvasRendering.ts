@@ -1,5 +1,5 @@
 import React, { useEffect } from "react";
-import { UIElement, ViewTransform } from "@/types";
+import { Region, ShapeDraft, UIElement, ViewTransform } from "@/types";
 
 interface UseCanvasRenderingProps {
   canvasRef: React.RefObject<HTMLCanvasElement | null>;
@@ -7,14 +7,25 @@ interface UseCanvasRenderingProps {
   uiElements: UIElement[];
   transform: ViewTransform;
   videoDimensions: { w: number; h: number };
+  regions?: Region[];
+  shapeDraft?: ShapeDraft | null; // Region or calibration line being drawn
+  worldGrid?: [{ x: number; y: number }, { x: number; y: number }][] | null; // Projected grid lines
+  controlPoints?: { x: number; y: number }[] | null; // Image points of the homography calibration
 }
 
+const REGION_COLOR = "#d4d4d8"; // zinc-300, regions are context and stay neutral
+const GRID_COLOR = "#67A9CF"; // Inactive blue, distinct from the object colors
+
 export function useCanvasRendering({
   canvasRef,
   containerRef,
   uiElements,
   transform,
   videoDimensions,
+  regions = [],
+  shapeDraft = null,
+  worldGrid = null,
+  controlPoints = null,
 }: UseCanvasRenderingProps) {
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -39,25 +50,233 @@ export function useCanvasRendering({
 
     ctx.scale(dpr, dpr);
 
+    const toScreen = (v: { x: number; y: number }) => ({
+      x: v.x * transform.scale + transform.x,
+      y: v.y * transform.scale + transform.y,
+    });
+
+    // The calibration grid is drawn under everything else
+    if (worldGrid && worldGrid.length > 0) {
+      ctx.save();
+      ctx.strokeStyle = GRID_COLOR;
+      ctx.globalAlpha = 0.5;
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      worldGrid.forEach(([a, b]) => {
+        const from = toScreen(a);
+        const to = toScreen(b);
+        ctx.moveTo(from.x, from.y);
+        ctx.lineTo(to.x, to.y);
+      });
+      ctx.stroke();
+      ctx.restore();
+    }
+
+    if (controlPoints) {
+      ctx.save();
+      ctx.strokeStyle = GRID_COLOR;
+      ctx.fillStyle = GRID_COLOR;
+      ctx.lineWidth = 1.5;
+      ctx.font = "11px sans-serif";
+      ctx.textAlign = "left";
+      controlPoints.map(toScreen).forEach((v, i) => {
+        ctx.beginPath();
+        ctx.moveTo(v.x - 5, v.y);
+        ctx.lineTo(v.x + 5, v.y);
+        ctx.moveTo(v.x, v.y - 5);
+        ctx.lineTo(v.x, v.y + 5);
+        ctx.stroke();
+        ctx.fillText(String(i + 1), v.x + 5, v.y - 5);
+      });
+      ctx.restore();
+    }
+
+    // Regions are drawn under the track overlay
+    regions.forEach((region) => {
+      const vertices = region.vertices.map(toScreen);
+      ctx.save();
+      ctx.beginPath();
+      vertices.forEach((v, i) =>
+        i === 0 ? ctx.moveTo(v.x, v.y) : ctx.lineTo(v.x, v.y),
+      );
+      ctx.closePath();
+      ctx.fillStyle = REGION_COLOR;
+      ctx.globalAlpha = 0.08;
+      ctx.fill();
+      ctx.globalAlpha = 0.6;
+      ctx.strokeStyle = REGION_COLOR;
+      ctx.lineWidth = 1.5;
+      ctx.stroke();
+
+      // Name at the vertex centroid
+      const cx = vertices.reduce((acc, v) => acc + v.x, 0) / vertices.length;
+      const cy = vertices.reduce((acc, v) => acc + v.y, 0) / vertices.length;
+      ctx.globalAlpha = 0.8;
+      ctx.fillStyle = REGION_COLOR;
+      ctx.font = "12px sans-serif";
+      ctx.textAlign = "center";
+      ctx.fillText(region.name || `region ${region.id}`, cx, cy);
+      ctx.restore();
+    });
+
+    if (shapeDraft && shapeDraft.vertices.length > 0) {
+      const isRegion = shapeDraft.kind === "region";
+      const vertices = shapeDraft.vertices.map(toScreen);
+      ctx.save();
+      // Control points are independent, only outlines are connected
+      if (shapeDraft.kind !== "homography") {
+        ctx.strokeStyle = "white";
+        ctx.lineWidth = 1.5;
+        ctx.setLineDash([5, 4]);
+        ctx.beginPath();
+        vertices.forEach((v, i) =>
+          i === 0 ? ctx.moveTo(v.x, v.y) : ctx.lineTo(v.x, v.y),
+        );
+        ctx.stroke();
+        ctx.setLineDash([]);
+      }
+      vertices.forEach((v, i) => {
+        ctx.beginPath();
+        // The first vertex of a region is larger: clicking it closes the polygon
+        const isClosing = isRegion && i === 0;
+        ctx.arc(v.x, v.y, isClosing ? 5 : 3, 0, Math.PI * 2);
+        ctx.fillStyle = isClosing ? "#EF8A62" : "white";
+        ctx.fill();
+      });
+      ctx.restore();
+    }
+
     uiElements.forEach((el) => {
       const sx = el.pos.x * transform.scale + transform.x;
       const sy = el.pos.y * transform.scale + transform.y;
 
+      // Skeleton edges between keypoints of one object
+      if (el.type === "line" && el.pos2) {
+        ctx.save();
+        ctx.globalAlpha = el.isInterpolated ? 0.45 : 0.85;
+        ctx.strokeStyle = el.color;
+        ctx.lineWidth = el.radius;
+        ctx.lineCap = "round";
+        ctx.beginPath();
+        ctx.moveTo(sx, sy);
+        ctx.lineTo(
+          el.pos2.x * transform.scale + transform.x,
+          el.pos2.y * transform.scale + transform.y,
+        );
+        ctx.stroke();
+        ctx.restore();
+        return;
+      }
+
+      // Bounding boxes (centered on pos)
+      if (el.type === "box" && el.size) {
+        const w = el.size.w * transform.scale;
+        const h = el.size.h * transform.scale;
+        ctx.save();
+        ctx.strokeStyle = el.color;
+        ctx.lineWidth = el.isActive ? 2.5 : 1.5;
+        if (el.isInterpolated || el.isSuggestion) ctx.setLineDash([6, 4]);
+        ctx.globalAlpha = el.isInterpolated ? 0.6 : 1;
+        ctx.strokeRect(sx - w / 2, sy - h / 2, w, h);
+        ctx.restore();
+        return;
+      }
+
       if (sx < -50 || sy < -50 || sx > rect.width + 50 || sy > rect.height + 50)
         return;
 
       ctx.fillStyle = el.color;
 
+      // Halo marks the active object, since every object has its own color
+      if (el.isActive) {
+        ctx.save();
+        ctx.globalAlpha = 0.35;
+        ctx.beginPath();
+        ctx.arc(sx, sy, el.radius + 5, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.restore();
+      }
+
       if (el.isCurrent) {
         ctx.strokeStyle = "white";
         ctx.lineWidth = 2;
       }
 
-      if (el.type === "circle") {
+      if (el.type === "circle" && el.isSuggestion) {
+        // Suggested position: open ring with a center dot until accepted
+        ctx.save();
+        ctx.strokeStyle = el.color;
+        ctx.lineWidth = 2.5;
+        ctx.beginPath();
+        ctx.arc(sx, sy, el.radius, 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.beginPath();
+        ctx.arc(sx, sy, 2, 0, Math.PI * 2);
+        ctx.fill();
+        if (el.isCurrent) {
+          ctx.strokeStyle = "white";
+          ctx.lineWidth = 1;
+          ctx.beginPath();
+          ctx.arc(sx, sy, el.radius + 2, 0, Math.PI * 2);
+          ctx.stroke();
+        }
+        ctx.restore();
+      } else if (el.type === "circle" && el.isInterpolated) {
+        // Interpolated positions: faint fill with dashed outline
+        ctx.save();
+        ctx.beginPath();
+        ctx.arc(sx, sy, el.radius, 0, Math.PI * 2);
+        ctx.globalAlpha = 0.35;
+        ctx.fill();
+        ctx.globalAlpha = 1;
+        ctx.setLineDash([3, 3]);
+        ctx.lineWidth = el.isCurrent ? 2 : 1.5;
+        ctx.strokeStyle = el.isCurrent ? "white" : el.color;
+        ctx.stroke();
+        ctx.restore();
+      } else if (el.type === "circle" && el.isOccluded) {
+        // Occluded estimates: hollow ring in the object color
+        ctx.save();
+        ctx.strokeStyle = el.color;
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.arc(sx, sy, el.radius - 1, 0, Math.PI * 2);
+        ctx.stroke();
+        if (el.isCurrent) {
+          ctx.strokeStyle = "white";
+          ctx.lineWidth = 1;
+          ctx.beginPath();
+          ctx.arc(sx, sy, el.radius + 1, 0, Math.PI * 2);
+          ctx.stroke();
+        }
+        ctx.restore();
+      } else if (el.type === "circle") {
         ctx.beginPath();
         ctx.arc(sx, sy, el.radius, 0, Math.PI * 2);
         ctx.fill();
         if (el.isCurrent) ctx.stroke();
+
+        // Auto-tracked positions keep a dark center until confirmed by hand
+        if (el.isAuto) {
+          ctx.save();
+          ctx.fillStyle = "#121215"; // gray-950
+          ctx.beginPath();
+          ctx.arc(sx, sy, Math.max(1.5, el.radius * 0.35), 0, Math.PI * 2);
+          ctx.fill();
+          ctx.restore();
+        }
+
+        // Low-likelihood predictions get a dashed ring until reviewed
+        if (el.isUncertain) {
+          ctx.save();
+          ctx.setLineDash([2, 3]);
+          ctx.lineWidth = 1.5;
+          ctx.strokeStyle = el.color;
+          ctx.beginPath();
+          ctx.arc(sx, sy, el.radius + 4, 0, Math.PI * 2);
+          ctx.stroke();
+          ctx.restore();
+        }
       } else {
         const side = el.radius * 2;
         const r = 2; // Border radius for rounded square
@@ -92,5 +311,15 @@ export function useCanvasRendering({
         ctx.fillText(el.label, sx, sy - el.radius - 4);
       }
     });
-  }, [uiElements, transform, videoDimensions, canvasRef, containerRef]);
+  }, [
+    uiElements,
+    transform,
+    videoDimensions,
+    canvasRef,
+    containerRef,
+    regions,
+    shapeDraft,
+    worldGrid,
+    controlPoints,
+  ]);
 }
@@ -0,0 +1,92 @@
+import React, { useEffect, useRef } from "react";
+
+const DEFAULT_FOCUSABLE = "button:not([disabled]), input, select";
+
+interface DialogFocusOptions {
+  // Element to focus when the dialog opens; by default the first one Tab reaches
+  initialFocus?: (dialog: HTMLElement) => HTMLElement | null | undefined;
+  // Elements Tab cycles through
+  focusable?: string;
+}
+
+/**
+ * Focus management of modal dialogs: focuses an element inside when `isOpen` turns on,
+ * keeps Tab within the dialog, calls `onEscape` on Escape and gives the focus back to
+ * the previously focused element on close.
+ */
+export function useDialogFocusTrap(
+  ref: React.RefObject<HTMLElement | null>,
+  isOpen: boolean,
+  onEscape: () => void,
+  { initialFocus, focusable = DEFAULT_FOCUSABLE }: DialogFocusOptions = {},
+) {
+  // Read when needed, so new callbacks on each render do not move the focus again
+  const onEscapeRef = useRef(onEscape);
+  const initialFocusRef = useRef(initialFocus);
+  useEffect(() => {
+    onEscapeRef.current = onEscape;
+    initialFocusRef.current = initialFocus;
+  }, [onEscape, initialFocus]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const previousFocus = document.activeElement as HTMLElement | null;
+
+    requestAnimationFrame(() => {
+      const dialog = ref.current;
+      if (!dialog) return;
+      const element = initialFocusRef.current
+        ? initialFocusRef.current(dialog)
+        : dialog.querySelector<HTMLElement>(focusable);
+      element?.focus();
+      // Typing replaces the current value
+      if (
+        element instanceof HTMLInputElement &&
+        (element.type === "text" || element.type === "number")
+      ) {
+        element.select();
+      }
+    });
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        e.stopPropagation();
+        onEscapeRef.current();
+        return;
+      }
+
+      if (e.key === "Tab") {
+        const dialog = ref.current;
+        if (!dialog) return;
+
+        const elements = dialog.querySelectorAll<HTMLElement>(focusable);
+        if (elements.length === 0) return;
+
+        const first = elements[0];
+        const last = elements[elements.length - 1];
+
+        // If focus somehow escaped, bring it back
+        if (!dialog.contains(document.activeElement)) {
+          e.preventDefault();
+          first.focus();
+          return;
+        }
+
+        if (e.shiftKey && document.activeElement === first) {
+          e.preventDefault();
+          last.focus();
+        } else if (!e.shiftKey && document.activeElement === last) {
+          e.preventDefault();
+          first.focus();
+        }
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      previousFocus?.focus();
+    };
+  }, [ref, isOpen, focusable]);
+}
@@ -2,38 +2,80 @@ import React, { useEffect } from 'react';
 import { AppSettings } from '@/types';
 
 interface GlobalShortcutsProps {
-  numObjects: number;
-  activeObjectId: number;
-  setActiveObjectId: React.Dispatch<React.SetStateAction<number>>;
-  setNumObjects: React.Dispatch<React.SetStateAction<number>>;
+  onPrevObject: () => void;
+  onNextObject: () => void;
+  onAddObject: () => void;
   setSettings: React.Dispatch<React.SetStateAction<AppSettings>>;
   isPlaying: boolean;
   setIsPlaying: React.Dispatch<React.SetStateAction<boolean>>;
   setIsSpaceHeld: React.Dispatch<React.SetStateAction<boolean>>;
   setIsHelpOpen: React.Dispatch<React.SetStateAction<boolean>>;
   deleteCurrent: () => void;
+  toggleOccluded: () => void;
+  logNotVisible: () => void;
+  acceptSuggestion: () => void;
+  toggleAssistedTracking: () => void;
+  runAhead: () => void;
+  isAutoTracking: boolean;
+  cancelAutoTracking: () => void;
+  toggleTimeline: () => void;
+  cycleKeypoint: (step: number) => void;
+  isDrawingShape: boolean;
+  isSwappingIdentities: boolean;
+  toggleIdentitySwap: () => void;
+  cancelIdentitySwap: () => void;
+  startRegion: () => void;
+  finishShape: () => void;
+  cancelShape: () => void;
+  removeShapeVertex: () => void;
+  saveProject: () => void;
+  undo: () => void;
+  redo: () => void;
   jumpToPrevious: () => void;
   jumpToNext: () => void;
   jumpToFirst: () => void;
   jumpToFinal: () => void;
+  jumpToFlagged: (step: number) => void;
+  codeBehavior: (key: string) => void;
   disableShortcuts: boolean;
 }
 
 export function useGlobalShortcuts({
-  numObjects,
-  activeObjectId,
-  setActiveObjectId,
-  setNumObjects,
+  onPrevObject,
+  onNextObject,
+  onAddObject,
   setSettings,
   isPlaying,
   setIsPlaying,
   setIsSpaceHeld,
   setIsHelpOpen,
   deleteCurrent,
+  toggleOccluded,
+  logNotVisible,
+  acceptSuggestion,
+  toggleAssistedTracking,
+  runAhead,
+  isAutoTracking,
+  cancelAutoTracking,
+  toggleTimeline,
+  cycleKeypoint,
+  isDrawingShape,
+  isSwappingIdentities,
+  toggleIdentitySwap,
+  cancelIdentitySwap,
+  startRegion,
+  finishShape,
+  cancelShape,
+  removeShapeVertex,
+  saveProject,
+  undo,
+  redo,
   jumpToPrevious,
   jumpToNext,
   jumpToFirst,
   jumpToFinal,
+  jumpToFlagged,
+  codeBehavior,
   disableShortcuts
 }: GlobalShortcutsProps) {
 
@@ -54,9 +96,9 @@ export function useGlobalShortcuts({
           if (isWorkspace && !isInput) {
               e.preventDefault();
               if (e.shiftKey) {
-                  setActiveObjectId(prev => prev === 1 ? numObjects : prev - 1);
+                  onPrevObject();
               } else {
-                  setActiveObjectId(prev => (prev % numObjects) + 1);
+                  onNextObject();
               }
               return;
           }
@@ -67,6 +109,23 @@ export function useGlobalShortcuts({
       // If we are typing in an input, ignore other shortcuts
       if (isInput) return;
 
+      // While drawing a region or calibration line, Enter / Esc / Backspace edit the shape
+      if (isDrawingShape) {
+        if (e.key === 'Enter') {
+          finishShape();
+          return;
+        }
+        if (e.key === 'Escape') {
+          cancelShape();
+          return;
+        }
+        if (e.key === 'Backspace') {
+          e.preventDefault();
+          removeShapeVertex();
+          return;
+        }
+      }
+
       switch(e.key) {
         case ' ':
           e.preventDefault();
@@ -79,12 +138,66 @@ export function useGlobalShortcuts({
           }
           break;
         case 'Escape':
-          setIsHelpOpen(prev => !prev);
+          if (isSwappingIdentities) {
+            cancelIdentitySwap();
+          } else if (isAutoTracking) {
+            cancelAutoTracking();
+          } else {
+            setIsHelpOpen(prev => !prev);
+          }
           break;
         case 'x':
         case 'X':
           deleteCurrent();
           break;
+        case 'o':
+        case 'O':
+          if (e.ctrlKey || e.metaKey) break;
+          if (e.shiftKey) {
+            logNotVisible();
+          } else {
+            toggleOccluded();
+          }
+          break;
+        case 'Enter':
+          acceptSuggestion();
+          break;
+        case 'a':
+        case 'A':
+          if (e.ctrlKey || e.metaKey) break;
+          if (e.shiftKey) {
+            runAhead();
+          } else {
+            toggleAssistedTracking();
+          }
+          break;
+        case 's':
+        case 'S':
+          if (e.ctrlKey || e.metaKey) {
+            e.preventDefault();
+            saveProject();
+          } else if (!isDrawingShape) {
+            toggleIdentitySwap();
+          }
+          break;
+        case 'z':
+        case 'Z':
+          if (e.ctrlKey || e.metaKey) {
+            e.preventDefault();
+            if (e.shiftKey) {
+              redo();
+            } else {
+              undo();
+            }
+          }
+          break;
+        case 'y':
+        case 'Y':
+          if (e.ctrlKey || e.metaKey) {
+            e.preventDefault();
+            redo();
+          }
+          break;
         case 'r':
         case 'R':
           if (e.shiftKey) {
@@ -101,13 +214,33 @@ export function useGlobalShortcuts({
             jumpToNext();
           }
           break;
+        case 'j':
+        case 'J':
+          if (!e.ctrlKey && !e.metaKey) {
+            jumpToFlagged(e.shiftKey ? -1 : 1);
+          }
+          break;
         case 'n':
         case 'N':
-             setNumObjects(prev => {
-               const next = prev + 1;
-               setActiveObjectId(next);
-               return next;
-             });
+          onAddObject();
+          break;
+        case 't':
+        case 'T':
+          if (!e.ctrlKey && !e.metaKey) {
+            toggleTimeline();
+          }
+          break;
+        case 'g':
+        case 'G':
+          if (!e.ctrlKey && !e.metaKey && !isDrawingShape) {
+            startRegion();
+          }
+          break;
+        case 'k':
+        case 'K':
+          if (!e.ctrlKey && !e.metaKey) {
+            cycleKeypoint(e.shiftKey ? -1 : 1);
+          }
           break;
         case '+':
           if (e.ctrlKey) {
@@ -121,6 +254,12 @@ export function useGlobalShortcuts({
             setSettings(s => ({ ...s, trailLength: Math.max(0, s.trailLength - 1) }));
           }
           break;
+        default:
+          // Remaining letters and digits are free for the keys of the ethogram
+          if (!e.ctrlKey && !e.metaKey && !e.altKey && !e.repeat && e.key.length === 1) {
+            codeBehavior(e.key.toLowerCase());
+          }
+          break;
       }
     };
 
@@ -138,20 +277,41 @@ export function useGlobalShortcuts({
       window.removeEventListener('keyup', handleKeyUp);
     };
   }, [
-    numObjects, 
-    activeObjectId, 
-    setActiveObjectId,
-    setNumObjects,
+    onPrevObject,
+    onNextObject,
+    onAddObject,
     setSettings,
     isPlaying,
     setIsPlaying,
     setIsSpaceHeld,
     setIsHelpOpen,
     deleteCurrent, 
+    toggleOccluded,
+    logNotVisible,
+    acceptSuggestion,
+    toggleAssistedTracking,
+    runAhead,
+    isAutoTracking,
+    cancelAutoTracking,
+    toggleTimeline,
+    cycleKeypoint,
+    isDrawingShape,
+    isSwappingIdentities,
+    toggleIdentitySwap,
+    cancelIdentitySwap,
+    startRegion,
+    finishShape,
+    cancelShape,
+    removeShapeVertex,
+    saveProject,
+    undo,
+    redo,
     jumpToPrevious, 
     jumpToNext, 
     jumpToFirst, 
     jumpToFinal,
+    jumpToFlagged,
+    codeBehavior,
     disableShortcuts
   ]);
 }
\ No newline at end of file
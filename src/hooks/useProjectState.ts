@@ -1,64 +1,412 @@
-import { useState, useCallback } from "react";
-import { TrackPoint } from "@/types";
-import { getFrameIndex } from "@/utils";
+import React, { useState, useCallback, useEffect, useRef } from "react";
+import {
+  TrackPoint,
+  TrackedObject,
+  ProjectData,
+  KeypointSchema,
+  Region,
+  ScaleCalibration,
+  HomographyCalibration,
+  Behavior,
+  BehaviorEvent,
+} from "@/types";
+import { getFrameIndex, getPointId, createObject } from "@/utils";
+import { Tracks } from "@/services/trackOperations";
+
+const MAX_HISTORY = 200;
+
+const EMPTY_PROJECT: ProjectData = {
+  points: [],
+  objects: [createObject(1)],
+  keypointSchemas: [],
+  regions: [],
+  calibration: null,
+  homography: null,
+  behaviors: [],
+  events: [],
+};
+
+interface HistoryEntry {
+  data: ProjectData;
+  revision: number;
+}
+
+interface HistoryState {
+  past: HistoryEntry[];
+  present: HistoryEntry;
+  future: HistoryEntry[];
+  // "open": a batch has begun but nothing was committed yet
+  // "active": the batch owns the present entry, further commits coalesce into it
+  batch: "open" | "active" | null;
+  batchId: number; // Owner of the batch, only its endBatch() closes it
+  nextRevision: number;
+  savedRevision: number; // Revision of the last project save; drives isDirty
+}
+
+const createHistory = (data: ProjectData): HistoryState => ({
+  past: [],
+  present: { data, revision: 0 },
+  future: [],
+  batch: null,
+  batchId: 0,
+  nextRevision: 1,
+  savedRevision: 0,
+});
 
 export function useProjectState(videoFps: number) {
-  const [points, setPoints] = useState<TrackPoint[]>([]);
+  const [history, setHistory] = useState<HistoryState>(() =>
+    createHistory(EMPTY_PROJECT),
+  );
   const [activeObjectId, setActiveObjectId] = useState(1);
-  const [numObjects, setNumObjects] = useState(1);
-  const [isDirty, setIsDirty] = useState(false);
-
-  const addPoint = useCallback((p: TrackPoint) => {
-    setPoints((prev) => {
-      // Remove existing point at this time/id if exists (Update)
-      const filtered = prev.filter(
-        (pt) => !(pt.timestamp === p.timestamp && pt.objectId === p.objectId),
-      );
-      return [...filtered, p];
+
+  const project = history.present.data;
+  const {
+    points,
+    objects,
+    keypointSchemas,
+    regions,
+    calibration,
+    homography,
+    behaviors,
+    events,
+  } = project;
+  const isDirty = history.present.revision !== history.savedRevision;
+  const canUndo = history.past.length > 0;
+  const canRedo = history.future.length > 0;
+
+  // Every mutation goes through here. Returning the same data is a no-op (no history entry).
+  const commit = useCallback((updater: (prev: ProjectData) => ProjectData) => {
+    setHistory((h) => {
+      const data = updater(h.present.data);
+      if (data === h.present.data) return h;
+
+      const entry = { data, revision: h.nextRevision };
+
+      if (h.batch === "active") {
+        return {
+          ...h,
+          present: entry,
+          nextRevision: h.nextRevision + 1,
+        };
+      }
+
+      return {
+        ...h,
+        past: [...h.past, h.present].slice(-MAX_HISTORY),
+        present: entry,
+        future: [],
+        batch: h.batch === "open" ? "active" : null,
+        nextRevision: h.nextRevision + 1,
+      };
     });
-    setIsDirty(true);
   }, []);
 
+  const setPoints = useCallback(
+    (action: React.SetStateAction<TrackPoint[]>) => {
+      commit((prev) => {
+        const next =
+          typeof action === "function" ? action(prev.points) : action;
+        return next === prev.points ? prev : { ...prev, points: next };
+      });
+    },
+    [commit],
+  );
+
+  const setObjects = useCallback(
+    (action: React.SetStateAction<TrackedObject[]>) => {
+      commit((prev) => {
+        const next =
+          typeof action === "function" ? action(prev.objects) : action;
+        return next === prev.objects ? prev : { ...prev, objects: next };
+      });
+    },
+    [commit],
+  );
+
+  const setKeypointSchemas = useCallback(
+    (action: React.SetStateAction<KeypointSchema[]>) => {
+      commit((prev) => {
+        const next =
+          typeof action === "function" ? action(prev.keypointSchemas) : action;
+        return next === prev.keypointSchemas
+          ? prev
+          : { ...prev, keypointSchemas: next };
+      });
+    },
+    [commit],
+  );
+
+  const setRegions = useCallback(
+    (action: React.SetStateAction<Region[]>) => {
+      commit((prev) => {
+        const next =
+          typeof action === "function" ? action(prev.regions) : action;
+        return next === prev.regions ? prev : { ...prev, regions: next };
+      });
+    },
+    [commit],
+  );
+
+  const setCalibration = useCallback(
+    (next: ScaleCalibration | null) => {
+      commit((prev) =>
+        next === prev.calibration ? prev : { ...prev, calibration: next },
+      );
+    },
+    [commit],
+  );
+
+  const setHomography = useCallback(
+    (next: HomographyCalibration | null) => {
+      commit((prev) =>
+        next === prev.homography ? prev : { ...prev, homography: next },
+      );
+    },
+    [commit],
+  );
+
+  // Events of removed behaviors go with them
+  const setBehaviors = useCallback(
+    (next: Behavior[]) => {
+      commit((prev) => {
+        if (next === prev.behaviors) return prev;
+        const ids = new Set(next.map((b) => b.id));
+        return {
+          ...prev,
+          behaviors: next,
+          events: prev.events.filter((e) => ids.has(e.behaviorId)),
+        };
+      });
+    },
+    [commit],
+  );
+
+  const setEvents = useCallback(
+    (action: React.SetStateAction<BehaviorEvent[]>) => {
+      commit((prev) => {
+        const next =
+          typeof action === "function" ? action(prev.events) : action;
+        return next === prev.events ? prev : { ...prev, events: next };
+      });
+    },
+    [commit],
+  );
+
+  // Appends an object with the next free id and makes it active
+  const addObject = useCallback(() => {
+    const nextId = objects.reduce((acc, o) => Math.max(acc, o.id), 0) + 1;
+    setObjects((prev) =>
+      prev.some((o) => o.id === nextId)
+        ? prev
+        : [...prev, createObject(nextId)],
+    );
+    setActiveObjectId(nextId);
+  }, [objects, setObjects]);
+
+  const addPoint = useCallback(
+    (p: TrackPoint) => {
+      setPoints((prev) => {
+        // Remove existing point at this time/id/keypoint if exists (Update)
+        const filtered = prev.filter(
+          (pt) =>
+            !(
+              pt.timestamp === p.timestamp &&
+              pt.objectId === p.objectId &&
+              pt.keypoint === p.keypoint
+            ),
+        );
+        return [...filtered, p];
+      });
+    },
+    [setPoints],
+  );
+
   const deletePoint = useCallback(
-    (time: number, objId: number) => {
-      // Delete by matching frame index (robust)
+    (time: number, objId: number, keypoint?: string) => {
+      // Delete by matching frame index (robust); without a keypoint all of the object's points go
       const targetFrame = getFrameIndex(time, videoFps);
-      setPoints((prev) =>
-        prev.filter(
+      setPoints((prev) => {
+        const filtered = prev.filter(
           (p) =>
             !(
               getFrameIndex(p.timestamp, videoFps) === targetFrame &&
-              p.objectId === objId
+              p.objectId === objId &&
+              (keypoint === undefined || p.keypoint === keypoint)
             ),
-        ),
-      );
-      setIsDirty(true);
+        );
+        return filtered.length === prev.length ? prev : filtered;
+      });
+    },
+    [videoFps, setPoints],
+  );
+
+  // Removes all matching points as one undoable step (e.g. reverting auto-tracked points)
+  const removePoints = useCallback(
+    (predicate: (p: TrackPoint) => boolean) => {
+      setPoints((prev) => {
+        const filtered = prev.filter((p) => !predicate(p));
+        return filtered.length === prev.length ? prev : filtered;
+      });
+    },
+    [setPoints],
+  );
+
+  // Exchanges the identities of two objects on the frames from `from` to `to` (ms, inclusive),
+  // e.g. after their IDs switched where they crossed. Without `to`, until the end.
+  // Behavior events swap by their start, like a split keeps states that started before it.
+  const swapIdentities = useCallback(
+    (a: number, b: number, from: number, to?: number) => {
+      if (a === b) return;
+      const first = getFrameIndex(from, videoFps);
+      const last = to === undefined ? Infinity : getFrameIndex(to, videoFps);
+      const isSwapped = (objectId: number, timestamp: number) => {
+        if (objectId !== a && objectId !== b) return false;
+        const frame = getFrameIndex(timestamp, videoFps);
+        return frame >= first && frame <= last;
+      };
+      commit((prev) => {
+        if (
+          !prev.points.some((p) => isSwapped(p.objectId, p.timestamp)) &&
+          !prev.events.some((e) => isSwapped(e.objectId, e.timestamp))
+        ) {
+          return prev;
+        }
+        const points = prev.points.map((p) => {
+          if (!isSwapped(p.objectId, p.timestamp)) return p;
+          const objectId = p.objectId === a ? b : a;
+          return {
+            ...p,
+            objectId,
+            id: getPointId(p.timestamp, objectId, p.keypoint),
+          };
+        });
+        const events = prev.events.map((e) =>
+          isSwapped(e.objectId, e.timestamp)
+            ? { ...e, objectId: e.objectId === a ? b : a }
+            : e,
+        );
+        return { ...prev, points, events };
+      });
     },
-    [videoFps],
+    [videoFps, commit],
   );
 
+  // Object-level edits (delete, merge, split) change points, objects and events in one step
+  const editTracks = useCallback(
+    (edit: (tracks: Tracks) => Tracks) => {
+      commit((prev) => {
+        const { points, objects, events } = edit(prev);
+        return { ...prev, points, objects, events };
+      });
+    },
+    [commit],
+  );
+
+  // Replace the whole project content as a single undoable step (e.g. CSV import)
+  const loadProject = useCallback(
+    (data: ProjectData) => {
+      commit(() => data);
+    },
+    [commit],
+  );
+
+  // Group all commits until endBatch(id) into one history entry (e.g. multi-step operations).
+  // Undo and redo end a batch early; a later endBatch() with its id then leaves a newer batch alone.
+  const batchIdRef = useRef(0);
+
+  const beginBatch = useCallback(() => {
+    const id = ++batchIdRef.current;
+    setHistory((h) => (h.batch ? h : { ...h, batch: "open", batchId: id }));
+    return id;
+  }, []);
+
+  const endBatch = useCallback((id: number) => {
+    setHistory((h) =>
+      h.batch && h.batchId === id ? { ...h, batch: null } : h,
+    );
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory((h) => {
+      if (h.past.length === 0) return h;
+      return {
+        ...h,
+        past: h.past.slice(0, -1),
+        present: h.past[h.past.length - 1],
+        future: [h.present, ...h.future],
+        batch: null,
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory((h) => {
+      if (h.future.length === 0) return h;
+      return {
+        ...h,
+        past: [...h.past, h.present],
+        present: h.future[0],
+        future: h.future.slice(1),
+        batch: null,
+      };
+    });
+  }, []);
+
   const resetProject = useCallback(() => {
-    setPoints([]);
+    setHistory(createHistory(EMPTY_PROJECT));
     setActiveObjectId(1);
-    setNumObjects(1);
-    setIsDirty(false);
   }, []);
 
   const markAsClean = useCallback(() => {
-    setIsDirty(false);
+    setHistory((h) =>
+      h.savedRevision === h.present.revision
+        ? h
+        : { ...h, savedRevision: h.present.revision },
+    );
   }, []);
 
+  // Keep the active object valid when undo removes objects
+  useEffect(() => {
+    if (objects.length > 0 && !objects.some((o) => o.id === activeObjectId)) {
+      setActiveObjectId(objects[objects.length - 1].id);
+    }
+  }, [activeObjectId, objects]);
+
   return {
+    project,
     points,
     setPoints,
     activeObjectId,
     setActiveObjectId,
-    numObjects,
-    setNumObjects,
+    objects,
+    setObjects,
+    addObject,
+    keypointSchemas,
+    setKeypointSchemas,
+    regions,
+    setRegions,
+    calibration,
+    setCalibration,
+    homography,
+    setHomography,
+    behaviors,
+    setBehaviors,
+    events,
+    setEvents,
     isDirty,
     addPoint,
     deletePoint,
+    removePoints,
+    swapIdentities,
+    editTracks,
+    loadProject,
     resetProject,
     markAsClean,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    beginBatch,
+    endBatch,
   };
 }
@@ -0,0 +1,140 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { AppSettings, ProjectData } from "@/types";
+import { createObject } from "@/utils";
+import {
+  StoredSession,
+  loadSession,
+  saveSession,
+  deleteSession,
+} from "@/services/sessionStorage";
+
+const AUTOSAVE_DELAY_MS = 1000;
+
+// Whether a project is still the blank workspace (nothing worth recovering)
+const isEmptyProject = (project: ProjectData): boolean => {
+  const [object, ...otherObjects] = project.objects;
+  const blankObject = createObject(1);
+  return (
+    project.points.length === 0 &&
+    otherObjects.length === 0 &&
+    (!object ||
+      (object.id === blankObject.id &&
+        object.name === blankObject.name &&
+        object.category === blankObject.category &&
+        object.color === blankObject.color)) &&
+    project.keypointSchemas.length === 0 &&
+    project.regions.length === 0 &&
+    project.calibration === null &&
+    project.homography === null &&
+    project.behaviors.length === 0 &&
+    project.events.length === 0
+  );
+};
+
+interface UseSessionAutosaveProps {
+  fingerprint: string | null; // null while no video (or its metadata) is loaded
+  project: ProjectData;
+  settings: AppSettings;
+  activeObjectId: number;
+  onRestore: (session: StoredSession) => void;
+}
+
+export function useSessionAutosave({
+  fingerprint,
+  project,
+  settings,
+  activeObjectId,
+  onRestore,
+}: UseSessionAutosaveProps) {
+  // Session found for the current video, waiting for the user's decision
+  const [recoverableSession, setRecoverableSession] =
+    useState<StoredSession | null>(null);
+  // Autosave stays off until the recovery check is resolved, otherwise the
+  // empty workspace would overwrite the session we are about to offer.
+  const [isReady, setIsReady] = useState(false);
+  // Project shown when the prompt was dismissed: the stored session is kept until it
+  // changes, so the first edit (not the untouched workspace) replaces the session.
+  const dismissedProjectRef = useRef<ProjectData | null>(null);
+
+  // Recovery Check (once per video)
+  useEffect(() => {
+    setIsReady(false);
+    setRecoverableSession(null);
+    dismissedProjectRef.current = null;
+    if (!fingerprint) return;
+
+    let cancelled = false;
+    loadSession(fingerprint)
+      .then((session) => {
+        if (cancelled) return;
+        if (session && !isEmptyProject(session.project)) {
+          setRecoverableSession(session);
+        } else {
+          setIsReady(true);
+        }
+      })
+      .catch((err) => {
+        console.error("Session lookup failed:", err);
+        if (!cancelled) setIsReady(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [fingerprint]);
+
+  // Debounced Autosave
+  useEffect(() => {
+    if (!fingerprint || !isReady) return;
+    if (dismissedProjectRef.current) {
+      if (project === dismissedProjectRef.current) return;
+      dismissedProjectRef.current = null;
+    }
+
+    const handle = setTimeout(() => {
+      saveSession({
+        fingerprint,
+        savedAt: Date.now(),
+        project,
+        settings,
+        activeObjectId,
+      }).catch((err) => console.error("Autosave failed:", err));
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(handle);
+  }, [fingerprint, isReady, project, settings, activeObjectId]);
+
+  const restoreSession = useCallback(() => {
+    if (recoverableSession) onRestore(recoverableSession);
+    setRecoverableSession(null);
+    setIsReady(true);
+  }, [recoverableSession, onRestore]);
+
+  const discardSession = useCallback(() => {
+    if (fingerprint) {
+      deleteSession(fingerprint).catch((err) =>
+        console.error("Failed to discard session:", err),
+      );
+    }
+    setRecoverableSession(null);
+    setIsReady(true);
+  }, [fingerprint]);
+
+  // Closes the prompt without a decision: the session is kept, and offered again the next
+  // time this video is loaded, until the first edit resumes autosave over it.
+  const dismissSession = useCallback(() => {
+    console.warn(
+      "Session recovery dismissed: the stored session is kept until the next edit.",
+    );
+    dismissedProjectRef.current = project;
+    setRecoverableSession(null);
+    setIsReady(true);
+  }, [project]);
+
+  return {
+    recoverableSession,
+    restoreSession,
+    discardSession,
+    dismissSession,
+  };
+}
@@ -1,10 +1,11 @@
 import { useState, useCallback } from "react";
 import { TrackPoint, AppSettings } from "@/types";
-import { getFrameTime, getFrameIndex } from "@/utils";
+import { getFrameTime, getFrameIndex, isFlaggedPoint } from "@/utils";
 
 interface Props {
   visiblePoints: TrackPoint[];
   activeObjectId: number;
+  setActiveObjectId: (id: number) => void;
   currentTime: number;
   isPlaying: boolean;
   settings: AppSettings;
@@ -14,6 +15,7 @@ interface Props {
 export function useSmartNavigation({
   visiblePoints,
   activeObjectId,
+  setActiveObjectId,
   currentTime,
   isPlaying,
   settings,
@@ -132,6 +134,44 @@ export function useSmartNavigation({
     }
   }, [visiblePoints, activeObjectId, isPlaying, triggerSeek]);
 
+  // Review: step through points rated low or annotated, across all objects.
+  // Points on the same frame are visited in object order, starting from the active object.
+  const jumpToFlagged = useCallback(
+    (step: number) => {
+      if (isPlaying) return;
+      // Ordered by frame, then object
+      const key = (p: TrackPoint): [number, number] => [
+        getFrameIndex(p.timestamp, fps),
+        p.objectId,
+      ];
+      const compare = (a: [number, number], b: [number, number]) =>
+        a[0] - b[0] || a[1] - b[1];
+      const current: [number, number] = [
+        getFrameIndex(currentTime, fps),
+        activeObjectId,
+      ];
+      const relevant = visiblePoints.filter(
+        (p) => isFlaggedPoint(p) && compare(key(p), current) * step > 0,
+      );
+      if (relevant.length === 0) return;
+      // Nearest in the direction of travel
+      const target = relevant.reduce((a, b) =>
+        compare(key(b), key(a)) * step < 0 ? b : a,
+      );
+      setActiveObjectId(target.objectId);
+      triggerSeek(target.timestamp);
+    },
+    [
+      visiblePoints,
+      activeObjectId,
+      setActiveObjectId,
+      currentTime,
+      isPlaying,
+      fps,
+      triggerSeek,
+    ],
+  );
+
   return {
     seekRequest,
     triggerSeek,
@@ -139,5 +179,6 @@ export function useSmartNavigation({
     jumpToNext,
     jumpToFirst,
     jumpToFinal,
+    jumpToFlagged,
   };
 }
@@ -1,9 +1,11 @@
 import { useMemo } from 'react';
-import { TrackPoint, UIElement, AppSettings } from '@/types';
-import { getFrameIndex, generateColor } from '@/utils';
+import { TrackPoint, TrackedObject, UIElement, AppSettings, KeypointSchema, BoxCorner } from '@/types';
+import { getFrameIndex, getDefaultObjectColor, getObjectLabel, getKeypointSchema, hasBox, isLowLikelihood } from '@/utils';
 
 interface UseTrackOverlayProps {
     points: TrackPoint[];
+    objects: TrackedObject[];
+    keypointSchemas: KeypointSchema[];
     currentTime: number;
     videoFps: number;
     activeObjectId: number;
@@ -15,6 +17,8 @@ interface UseTrackOverlayProps {
 
 export function useTrackOverlay({
     points,
+    objects,
+    keypointSchemas,
     currentTime,
     videoFps,
     activeObjectId,
@@ -39,33 +43,116 @@ export function useTrackOverlay({
         const windowDuration = settings.trailLength * samplingIntervalMs;
         
         const idsWithLabels = new Set<number>();
+
+        const objectsById = new Map(objects.map(o => [o.id, o]));
+        const colorOf = (id: number) => objectsById.get(id)?.color ?? getDefaultObjectColor(id);
+        const labelOf = (id: number) => getObjectLabel(id, objectsById.get(id));
+        const schemaOf = (id: number) => getKeypointSchema(keypointSchemas, objectsById.get(id));
+        // Keypoints are drawn smaller; only the first keypoint of a schema leaves a trail
+        const radiusOf = (p: TrackPoint) => p.keypoint === undefined ? baseRadius : baseRadius * 0.7;
+        const hasTrail = (p: TrackPoint) => {
+            const schema = p.keypoint === undefined ? undefined : schemaOf(p.objectId);
+            return !schema || schema.keypoints[0] === p.keypoint;
+        };
     
         // 1. Current Points
         const currentPoints = points.filter(p => 
             getFrameIndex(p.timestamp, videoFps) === currentFrameIndex
         );
+        // A box being drawn is not a record yet
+        if (draggedPoint && !currentPoints.some(p => p.id === draggedPoint.id)) {
+            currentPoints.push(draggedPoint);
+        }
         
+        // If a point is currently being dragged, use the transient coordinates
+        const display = (p: TrackPoint) => draggedPoint && draggedPoint.id === p.id ? draggedPoint : p;
+        const displayPos = (p: TrackPoint) => ({ x: display(p).x, y: display(p).y });
+
+        // Bounding boxes (drawn below the markers), with resize handles on the active object
         currentPoints.forEach(p => {
-            // If this point is currently being dragged, use the transient coordinates
-            let displayX = p.x;
-            let displayY = p.y;
-            
-            if (draggedPoint && draggedPoint.id === p.id) {
-                displayX = draggedPoint.x;
-                displayY = draggedPoint.y;
-            }
-    
+            const box = display(p);
+            if (!hasBox(box)) return;
+            const isActive = p.objectId === activeObjectId;
+            elements.push({
+                type: 'box',
+                pos: { x: box.x, y: box.y },
+                size: { w: box.width, h: box.height },
+                pointId: p.id,
+                objectId: p.objectId,
+                radius: 0,
+                color: colorOf(p.objectId),
+                isCurrent: false,
+                isActive,
+                isInterpolated: p.interpolated,
+                isSuggestion: p.suggested,
+                sortKey: 2
+            });
+            if (!isActive || isSpaceHeld) return;
+            const corners: [BoxCorner, number, number][] = [['nw', -1, -1], ['ne', 1, -1], ['sw', -1, 1], ['se', 1, 1]];
+            corners.forEach(([corner, dx, dy]) => {
+                elements.push({
+                    type: 'handle',
+                    pos: { x: box.x + dx * box.width / 2, y: box.y + dy * box.height / 2 },
+                    pointId: p.id,
+                    corner,
+                    objectId: p.objectId,
+                    radius: 4,
+                    color: colorOf(p.objectId),
+                    isCurrent: true,
+                    isActive: false,
+                    sortKey: 11
+                });
+            });
+        });
+
+        // Skeleton edges (drawn below the markers)
+        const keypointsByObject = new Map<number, Map<string, TrackPoint>>();
+        currentPoints.forEach(p => {
+            if (p.keypoint === undefined) return;
+            const byName = keypointsByObject.get(p.objectId) ?? new Map<string, TrackPoint>();
+            byName.set(p.keypoint, p);
+            keypointsByObject.set(p.objectId, byName);
+        });
+        keypointsByObject.forEach((byName, objectId) => {
+            schemaOf(objectId)?.edges.forEach(([a, b]) => {
+                const from = byName.get(a);
+                const to = byName.get(b);
+                if (!from || !to) return;
+                elements.push({
+                    type: 'line',
+                    pos: displayPos(from),
+                    pos2: displayPos(to),
+                    objectId,
+                    radius: 2, // Line width
+                    color: colorOf(objectId),
+                    isCurrent: false,
+                    isActive: false,
+                    isInterpolated: from.interpolated || to.interpolated,
+                    sortKey: 1
+                });
+            });
+        });
+
+        currentPoints.forEach(p => {
+            const isFirstOfObject = !idsWithLabels.has(p.objectId);
             elements.push({
                 type: 'circle',
-                pos: { x: displayX, y: displayY },
+                pos: displayPos(p),
+                pointId: p.id,
                 objectId: p.objectId,
-                radius: baseRadius,
-                color: generateColor(p.objectId === activeObjectId),
+                radius: radiusOf(p),
+                color: colorOf(p.objectId),
                 // Disable highlight if space is held (continuous playback)
                 isCurrent: !isSpaceHeld,
-                label: p.objectId.toString(),
-                sortKey: 10,
-                fontSize: 14
+                isActive: p.objectId === activeObjectId,
+                isInterpolated: p.interpolated,
+                isSuggestion: p.suggested,
+                isAuto: p.source === 'auto',
+                isUncertain: isLowLikelihood(p),
+                isOccluded: p.visibility === 'occluded',
+                // One label per object, even with several keypoints
+                ...(isFirstOfObject ? { label: labelOf(p.objectId), fontSize: 14 } : {}),
+                sortKey: 10
             });
             idsWithLabels.add(p.objectId);
         });
@@ -77,7 +164,8 @@ export function useTrackOverlay({
             // Filter: Strictly earlier frames AND within time window
             const trailPoints = points.filter(p => 
                 getFrameIndex(p.timestamp, videoFps) < currentFrameIndex && 
-                p.timestamp >= minTrailTime
+                p.timestamp >= minTrailTime &&
+                hasTrail(p)
             ).sort((a, b) => b.timestamp - a.timestamp);
             
             trailPoints.forEach(p => {
@@ -88,15 +176,20 @@ export function useTrackOverlay({
                 const el: UIElement = {
                     type: 'circle',
                     pos: { x: p.x, y: p.y },
+                    pointId: p.id,
                     objectId: p.objectId,
-                    radius: baseRadius * scale,
-                    color: generateColor(p.objectId === activeObjectId),
+                    radius: radiusOf(p) * scale,
+                    color: colorOf(p.objectId),
                     isCurrent: false,
+                    isActive: p.objectId === activeObjectId,
+                    isInterpolated: p.interpolated,
+                    isAuto: p.source === 'auto',
+                    isOccluded: p.visibility === 'occluded',
                     sortKey: 5 - relativeAge 
                 };
                 
                 if (!idsWithLabels.has(p.objectId)) {
-                    el.label = p.objectId.toString();
+                    el.label = labelOf(p.objectId);
                     el.fontSize = 14;
                     idsWithLabels.add(p.objectId);
                 }
@@ -110,8 +203,8 @@ export function useTrackOverlay({
     
         allObjIds.forEach(id => {
             if (!idsWithLabels.has(id)) {
-                // Find last point strictly before current frame
-                const objPoints = points.filter(p => p.objectId === id && getFrameIndex(p.timestamp, videoFps) < currentFrameIndex);
+                // Find last logged point strictly before current frame
+                const objPoints = points.filter(p => p.objectId === id && !p.interpolated && hasTrail(p) && getFrameIndex(p.timestamp, videoFps) < currentFrameIndex);
                 
                 if (objPoints.length > 0) {
                     // Get the latest one
@@ -122,9 +215,10 @@ export function useTrackOverlay({
                         pos: { x: last.x, y: last.y },
                         objectId: id,
                         radius: baseRadius * 0.8,
-                        color: generateColor(id === activeObjectId),
+                        color: colorOf(id),
                         isCurrent: false,
-                        label: id.toString(),
+                        isActive: id === activeObjectId,
+                        label: labelOf(id),
                         fontSize: 14,
                         sortKey: 8 
                     });
@@ -133,5 +227,5 @@ export function useTrackOverlay({
         });
     
         return elements.sort((a, b) => a.sortKey - b.sortKey);
-      }, [points, currentTime, currentFrameIndex, activeObjectId, settings.trailLength, samplingIntervalMs, videoDimensions.w, videoFps, draggedPoint, isSpaceHeld]);
+      }, [points, objects, keypointSchemas, currentTime, currentFrameIndex, activeObjectId, settings.trailLength, samplingIntervalMs, videoDimensions.w, videoFps, draggedPoint, isSpaceHeld]);
 }
\ No newline at end of file
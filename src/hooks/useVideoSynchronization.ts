@@ -1,5 +1,5 @@
 import { useRef, useState, useEffect } from "react";
-import { AppSettings } from "@/types";
+import { AppSettings, VideoMetadata } from "@/types";
 import { getFrameIndex, getFrameTime } from "@/utils";
 
 interface UseVideoSyncProps {
@@ -11,6 +11,7 @@ interface UseVideoSyncProps {
   settings: AppSettings;
   onTimeUpdate: (time: number) => void;
   isSpaceHeld: boolean;
+  onMetadataLoaded?: (meta: VideoMetadata) => void;
 }
 
 export function useVideoSynchronization({
@@ -22,6 +23,7 @@ export function useVideoSynchronization({
   settings,
   onTimeUpdate,
   isSpaceHeld,
+  onMetadataLoaded,
 }: UseVideoSyncProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
 
@@ -108,6 +110,11 @@ export function useVideoSynchronization({
         w: videoRef.current.videoWidth,
         h: videoRef.current.videoHeight,
       });
+      onMetadataLoaded?.({
+        duration: videoRef.current.duration * 1000,
+        width: videoRef.current.videoWidth,
+        height: videoRef.current.videoHeight,
+      });
     }
   };
 
@@ -0,0 +1,123 @@
+import { PixelRect } from "@/types";
+import {
+  MatchRequest,
+  MatchResponse,
+  MatchResult,
+} from "@/services/templateMatching";
+
+export const TEMPLATE_RADIUS = 12; // Patch of 25 x 25 px around the last position
+export const SEARCH_RADIUS = 48; // Maximum displacement between two sampling frames
+export const MIN_MATCH_SCORE = 0.6; // Weaker matches are not proposed
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<
+  number,
+  { resolve: (r: MatchResult) => void; reject: (e: unknown) => void }
+>();
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(
+      new URL("./templateMatching.worker.ts", import.meta.url),
+      { type: "module" },
+    );
+    worker.onmessage = (e: MessageEvent<MatchResponse>) => {
+      pending.get(e.data.id)?.resolve(e.data.result);
+      pending.delete(e.data.id);
+    };
+    worker.onerror = (e) => {
+      console.error("Template matching worker failed:", e);
+      pending.forEach(({ reject }) => reject(e));
+      pending.clear();
+      worker = null;
+    };
+  }
+  return worker;
+};
+
+/**
+ * Matches a template patch inside a search region in the background worker.
+ * Both buffers are transferred and unusable afterwards.
+ */
+export const matchInWorker = (
+  template: ImageData,
+  search: ImageData,
+): Promise<MatchResult> =>
+  new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    pending.set(id, { resolve, reject });
+    const request: MatchRequest = {
+      id,
+      template: {
+        data: template.data,
+        width: template.width,
+        height: template.height,
+      },
+      search: { data: search.data, width: search.width, height: search.height },
+    };
+    getWorker().postMessage(request, [
+      template.data.buffer,
+      search.data.buffer,
+    ]);
+  });
+
+// Square around (x, y), clipped to the video
+const clippedSquare = (
+  x: number,
+  y: number,
+  radius: number,
+  videoDimensions: { w: number; h: number },
+): PixelRect => {
+  const left = Math.max(0, Math.round(x) - radius);
+  const top = Math.max(0, Math.round(y) - radius);
+  const right = Math.min(videoDimensions.w, Math.round(x) + radius + 1);
+  const bottom = Math.min(videoDimensions.h, Math.round(y) + radius + 1);
+  return {
+    x: left,
+    y: top,
+    width: Math.max(0, right - left),
+    height: Math.max(0, bottom - top),
+  };
+};
+
+export const getTemplateRect = (
+  x: number,
+  y: number,
+  videoDimensions: { w: number; h: number },
+) => clippedSquare(x, y, TEMPLATE_RADIUS, videoDimensions);
+
+export const getSearchRect = (
+  x: number,
+  y: number,
+  videoDimensions: { w: number; h: number },
+) => clippedSquare(x, y, TEMPLATE_RADIUS + SEARCH_RADIUS, videoDimensions);
+
+/**
+ * Locates a position in the next frame.
+ * `anchor` is the tracked position inside the template frame; the result keeps the
+ * same offset relative to the matched patch.
+ * @returns {Promise<{x: number, y: number, score: number} | null>} - null if a region is empty
+ */
+export const locatePosition = async (
+  anchor: { x: number; y: number },
+  template: ImageData,
+  templateRect: PixelRect,
+  search: ImageData,
+  searchRect: PixelRect,
+): Promise<{ x: number; y: number; score: number } | null> => {
+  if (
+    templateRect.width === 0 ||
+    templateRect.height === 0 ||
+    searchRect.width < templateRect.width ||
+    searchRect.height < templateRect.height
+  ) {
+    return null;
+  }
+  const match = await matchInWorker(template, search);
+  return {
+    x: searchRect.x + match.x + (anchor.x - templateRect.x),
+    y: searchRect.y + match.y + (anchor.y - templateRect.y),
+    score: match.score,
+  };
+};
@@ -0,0 +1,188 @@
+import { KeypointSchema, TrackPoint, TrackedObject } from "@/types";
+import {
+  getFrameFileName,
+  getFrameIndex,
+  getKeypointSchema,
+  hasBox,
+  hasLocation,
+} from "@/utils";
+
+// Category of objects without one
+const DEFAULT_CATEGORY = "object";
+
+export interface COCOImage {
+  id: number;
+  file_name: string;
+  width: number;
+  height: number;
+  frame_index: number; // 0-based, as returned by getFrameIndex
+}
+
+export interface COCOAnnotation {
+  id: number;
+  image_id: number;
+  category_id: number;
+  track_id: number; // Object ID, to follow identities across frames
+  bbox: [number, number, number, number]; // left, top, width, height
+  area: number;
+  iscrowd: 0;
+  keypoints?: number[]; // x, y, visibility (2 = visible, 1 = occluded, 0 = missing) per keypoint
+  num_keypoints?: number;
+}
+
+export interface COCOCategory {
+  id: number;
+  name: string;
+  supercategory: string;
+  keypoints?: string[];
+  skeleton?: [number, number][]; // 1-based keypoint indices
+}
+
+export interface COCODataset {
+  info: { description: string; date_created: string };
+  images: COCOImage[];
+  annotations: COCOAnnotation[];
+  categories: COCOCategory[];
+}
+
+export interface COCOExportOptions {
+  videoName: string;
+  frameCount: number; // Sets the zero padding of the frame file names
+  width: number; // Video size (px)
+  height: number;
+}
+
+const categoryOf = (object: TrackedObject | undefined) =>
+  object?.category.trim() || DEFAULT_CATEGORY;
+
+/**
+ * Builds a COCO dataset with one image per frame that has points.
+ * Each object on a frame becomes one annotation: its box if logged, otherwise the
+ * bounding box of its keypoints (or an empty box at its location).
+ * Categories come from the object categories, with the keypoints of their schema.
+ */
+export const pointsToCOCO = (
+  points: TrackPoint[],
+  objects: TrackedObject[],
+  keypointSchemas: KeypointSchema[],
+  fps: number,
+  { videoName, frameCount, width, height }: COCOExportOptions,
+): COCODataset => {
+  const objectById = new Map(objects.map((o) => [o.id, o]));
+
+  // Points grouped by frame, then object
+  const byFrame = new Map<number, Map<number, TrackPoint[]>>();
+  points.forEach((p) => {
+    // Entries without a location are not labeled in COCO terms
+    if (!hasLocation(p)) return;
+    const frame = getFrameIndex(p.timestamp, fps);
+    const byObject = byFrame.get(frame) ?? new Map<number, TrackPoint[]>();
+    byObject.set(p.objectId, [...(byObject.get(p.objectId) ?? []), p]);
+    byFrame.set(frame, byObject);
+  });
+
+  const categories: COCOCategory[] = [];
+  const categoryIds = new Map<string, number>();
+  const getCategoryId = (object: TrackedObject | undefined) => {
+    const name = categoryOf(object);
+    const existing = categoryIds.get(name);
+    if (existing !== undefined) return existing;
+    const id = categories.length + 1;
+    const schema = object ? getKeypointSchema(keypointSchemas, object) : null;
+    categories.push({
+      id,
+      name,
+      supercategory: name,
+      ...(schema
+        ? {
+            keypoints: schema.keypoints,
+            skeleton: schema.edges.map(([a, b]): [number, number] => [
+              schema.keypoints.indexOf(a) + 1,
+              schema.keypoints.indexOf(b) + 1,
+            ]),
+          }
+        : {}),
+    });
+    categoryIds.set(name, id);
+    return id;
+  };
+
+  const images: COCOImage[] = [];
+  const annotations: COCOAnnotation[] = [];
+
+  [...byFrame.keys()]
+    .sort((a, b) => a - b)
+    .forEach((frame) => {
+      const imageId = images.length + 1;
+      images.push({
+        id: imageId,
+        file_name: getFrameFileName(frame, frameCount),
+        width,
+        height,
+        frame_index: frame,
+      });
+
+      const byObject = byFrame.get(frame)!;
+      [...byObject.keys()]
+        .sort((a, b) => a - b)
+        .forEach((objectId) => {
+          const objectPoints = byObject.get(objectId)!;
+          const object = objectById.get(objectId);
+          const categoryId = getCategoryId(object);
+          const keypointNames = categories[categoryId - 1].keypoints;
+
+          const main = objectPoints.find((p) => p.keypoint === undefined);
+          const labeled = objectPoints.filter((p) => p.keypoint !== undefined);
+          let bbox: [number, number, number, number];
+          if (main && hasBox(main)) {
+            bbox = [
+              main.x - main.width / 2,
+              main.y - main.height / 2,
+              main.width,
+              main.height,
+            ];
+          } else {
+            const located = labeled.length > 0 ? labeled : objectPoints;
+            const xs = located.map((p) => p.x);
+            const ys = located.map((p) => p.y);
+            const left = Math.min(...xs);
+            const top = Math.min(...ys);
+            bbox = [left, top, Math.max(...xs) - left, Math.max(...ys) - top];
+          }
+
+          const keypoints = keypointNames?.flatMap((name) => {
+            const p = labeled.find((k) => k.keypoint === name);
+            if (!p) return [0, 0, 0];
+            return [p.x, p.y, p.visibility === "occluded" ? 1 : 2];
+          });
+
+          annotations.push({
+            id: annotations.length + 1,
+            image_id: imageId,
+            category_id: categoryId,
+            track_id: objectId,
+            bbox,
+            area: bbox[2] * bbox[3],
+            iscrowd: 0,
+            ...(keypoints
+              ? {
+                  keypoints,
+                  num_keypoints: keypoints.filter(
+                    (_, i) => i % 3 === 2 && keypoints[i] > 0,
+                  ).length,
+                }
+              : {}),
+          });
+        });
+    });
+
+  return {
+    info: {
+      description: videoName,
+      date_created: new Date().toISOString(),
+    },
+    images,
+    annotations,
+    categories,
+  };
+};
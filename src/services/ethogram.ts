@@ -0,0 +1,220 @@
+import { Behavior, BehaviorEvent, TrackedObject } from "@/types";
+import {
+  escapeCSVField,
+  getDefaultObjectColor,
+  getFrameIndex,
+  getObjectLabel,
+} from "@/utils";
+
+// Letters taken by the app's own shortcuts (see useGlobalShortcuts)
+export const RESERVED_BEHAVIOR_KEYS = [
+  "a",
+  "f",
+  "g",
+  "j",
+  "k",
+  "n",
+  "o",
+  "r",
+  "s",
+  "t",
+  "x",
+  "y",
+  "z",
+];
+
+// Digits first, they are the least likely to clash with future shortcuts
+const KEY_CANDIDATES = "1234567890bcdehilmpquvw".split("");
+
+/**
+ * Returns why `key` cannot code the behavior `id`, or null if it can.
+ */
+export const getBehaviorKeyError = (
+  key: string,
+  behaviors: Behavior[],
+  id: number,
+): string | null => {
+  if (!/^[a-z0-9]$/.test(key)) return "Use a single letter or digit.";
+  if (RESERVED_BEHAVIOR_KEYS.includes(key)) {
+    return `${key.toUpperCase()} is an app shortcut.`;
+  }
+  const other = behaviors.find((b) => b.id !== id && b.key === key);
+  return other
+    ? `${key.toUpperCase()} already codes "${other.name || `behavior ${other.id}`}".`
+    : null;
+};
+
+// New behavior with the first unused key (empty if all are taken)
+export const createBehavior = (
+  id: number,
+  behaviors: Behavior[],
+): Behavior => ({
+  id,
+  name: "",
+  key: KEY_CANDIDATES.find((k) => !behaviors.some((b) => b.key === k)) ?? "",
+  type: "state",
+  color: getDefaultObjectColor(id),
+});
+
+/**
+ * Applies a key press of `behavior` for an object at `time` (a frame time, ms).
+ * Point behaviors add an event. State behaviors stop the event running at `time`
+ * or start a new one. Pressing the key on the frame where an event starts removes it.
+ */
+export const codeBehaviorEvent = (
+  events: BehaviorEvent[],
+  behavior: Behavior,
+  objectId: number,
+  time: number,
+): BehaviorEvent[] => {
+  const own = events.filter(
+    (e) => e.behaviorId === behavior.id && e.objectId === objectId,
+  );
+  const existing = own.find((e) => e.timestamp === time);
+  if (existing) return events.filter((e) => e !== existing);
+
+  if (behavior.type === "state") {
+    const running = own.find(
+      (e) => e.timestamp < time && (e.end === undefined || time < e.end),
+    );
+    if (running) {
+      return events.map((e) => (e === running ? { ...e, end: time } : e));
+    }
+  }
+  return [...events, { behaviorId: behavior.id, objectId, timestamp: time }];
+};
+
+/**
+ * Joins overlapping or nested state events of the same behavior and object into one
+ * (e.g. after two tracks are merged) and drops duplicate point events. States that
+ * only touch (one stops on the frame the next starts) stay separate.
+ */
+export const coalesceBehaviorEvents = (
+  events: BehaviorEvent[],
+  behaviors: Behavior[],
+): BehaviorEvent[] => {
+  const stateIds = new Set(
+    behaviors.filter((b) => b.type === "state").map((b) => b.id),
+  );
+  const groups = new Map<string, BehaviorEvent[]>();
+  events.forEach((e) => {
+    const key = `${e.behaviorId}|${e.objectId}`;
+    const group = groups.get(key);
+    if (group) group.push(e);
+    else groups.set(key, [e]);
+  });
+
+  const dropped = new Set<BehaviorEvent>();
+  const extended = new Map<BehaviorEvent, BehaviorEvent>();
+  groups.forEach((group) => {
+    const sorted = [...group].sort((a, b) => a.timestamp - b.timestamp);
+    const isState = stateIds.has(sorted[0].behaviorId);
+    let current = sorted[0];
+    let end = current.end; // undefined = still running
+    const finish = () => {
+      if (end === current.end) return;
+      const { end: _end, ...event } = current;
+      extended.set(current, end === undefined ? event : { ...event, end });
+    };
+    sorted.slice(1).forEach((e) => {
+      const overlaps = isState
+        ? e.timestamp < (end ?? Infinity)
+        : e.timestamp === current.timestamp;
+      if (!overlaps) {
+        finish();
+        current = e;
+        end = e.end;
+        return;
+      }
+      dropped.add(e);
+      if (isState) {
+        end =
+          end === undefined || e.end === undefined
+            ? undefined
+            : Math.max(end, e.end);
+      }
+    });
+    finish();
+  });
+
+  return events.filter((e) => !dropped.has(e)).map((e) => extended.get(e) ?? e);
+};
+
+export interface BORISExportOptions {
+  observationId: string; // e.g. the video name
+  mediaFile: string;
+  duration: number; // ms, stop of states that are still running
+  fps: number;
+}
+
+/**
+ * Export coded events as a BORIS-like tabular event list: one row per point event
+ * and per start / stop of a state event, ordered by time.
+ * Subjects are the object labels; times are in seconds.
+ */
+export const eventsToBORIS = (
+  events: BehaviorEvent[],
+  behaviors: Behavior[],
+  objects: TrackedObject[],
+  { observationId, mediaFile, duration, fps }: BORISExportOptions,
+): string => {
+  const behaviorById = new Map(behaviors.map((b) => [b.id, b]));
+  const objectById = new Map(objects.map((o) => [o.id, o]));
+
+  const rows = events.flatMap((e) => {
+    const behavior = behaviorById.get(e.behaviorId);
+    if (!behavior) return [];
+    if (behavior.type === "point") {
+      return [{ event: e, behavior, time: e.timestamp, status: "POINT" }];
+    }
+    return [
+      { event: e, behavior, time: e.timestamp, status: "START" },
+      {
+        event: e,
+        behavior,
+        time: e.end ?? Math.max(duration, e.timestamp),
+        status: "STOP",
+      },
+    ];
+  });
+  // Stops before starts on the same frame, so back-to-back states stay paired
+  const order: Record<string, number> = { STOP: 0, POINT: 1, START: 2 };
+  rows.sort(
+    (a, b) =>
+      a.time - b.time ||
+      order[a.status] - order[b.status] ||
+      a.event.objectId - b.event.objectId,
+  );
+
+  const header = [
+    "Observation id",
+    "Media file",
+    "Total length",
+    "FPS",
+    "Subject",
+    "Behavior",
+    "Behavior type",
+    "Time",
+    "Image index",
+    "Status",
+  ];
+  let csv = header.join(",") + "\n";
+  rows.forEach(({ event, behavior, time, status }) => {
+    const fields: (string | number)[] = [
+      escapeCSVField(observationId),
+      escapeCSVField(mediaFile),
+      (duration / 1000).toFixed(3),
+      fps,
+      escapeCSVField(
+        getObjectLabel(event.objectId, objectById.get(event.objectId)),
+      ),
+      escapeCSVField(behavior.name || `behavior ${behavior.id}`),
+      behavior.type === "point" ? "POINT" : "STATE",
+      (time / 1000).toFixed(3),
+      getFrameIndex(time, fps),
+      status,
+    ];
+    csv += fields.join(",") + "\n";
+  });
+  return csv;
+};
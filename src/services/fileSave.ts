@@ -0,0 +1,72 @@
+interface SaveFileOptions {
+  description: string; // Shown in the native save dialog, e.g. "CSV File"
+  mimeType: string;
+  extension: string; // Including the dot, e.g. ".csv"
+}
+
+/**
+ * Saves text or binary content to disk, using the File System Access API where available
+ * and falling back to a plain download otherwise.
+ * @returns {Promise<boolean>} - false if the user cancelled or saving failed
+ */
+export async function saveFile(
+  content: string | Blob,
+  fileName: string,
+  { description, mimeType, extension }: SaveFileOptions,
+): Promise<boolean> {
+  try {
+    // @ts-ignore - File System Access API
+    if (window.showSaveFilePicker) {
+      try {
+        // @ts-ignore
+        const handle = await window.showSaveFilePicker({
+          suggestedName: fileName,
+          types: [
+            {
+              description,
+              accept: { [mimeType]: [extension] },
+            },
+          ],
+        });
+        const writable = await handle.createWritable();
+        await writable.write(content);
+        await writable.close();
+        return true; // Success
+      } catch (err: any) {
+        if (err.name === "AbortError") {
+          return false; // User cancelled
+        }
+        // Handle context restrictions (e.g. iframes) gracefully
+        if (
+          err.name === "SecurityError" ||
+          (err.message && err.message.includes("Cross origin"))
+        ) {
+          console.warn(
+            "File System Access API restricted. Falling back to download.",
+          );
+        } else {
+          console.error("File Save Error:", err);
+        }
+        // Fallback to simple download if API fails unexpectedly or is restricted
+      }
+    }
+
+    // Fallback
+    const blob =
+      content instanceof Blob
+        ? content
+        : new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+    return true;
+  } catch (e) {
+    console.error("Export failed", e);
+    return false;
+  }
+}
@@ -0,0 +1,109 @@
+import { PixelRect } from "@/types";
+
+export interface FrameSampler {
+  /** Reads a region of the frame shown at `timeMs` (frame-aligned time). */
+  grab: (timeMs: number, rect: PixelRect) => Promise<ImageData>;
+  dispose: () => void;
+}
+
+let readbackCanvas: HTMLCanvasElement | null = null;
+
+/**
+ * Copies a region of a video (or any image source) into an ImageData.
+ * The source must currently display the desired frame.
+ */
+export const readFrameRegion = (
+  source: CanvasImageSource,
+  rect: PixelRect,
+): ImageData => {
+  if (!readbackCanvas) readbackCanvas = document.createElement("canvas");
+  readbackCanvas.width = rect.width;
+  readbackCanvas.height = rect.height;
+  const ctx = readbackCanvas.getContext("2d", { willReadFrequently: true })!;
+  ctx.drawImage(
+    source,
+    rect.x,
+    rect.y,
+    rect.width,
+    rect.height,
+    0,
+    0,
+    rect.width,
+    rect.height,
+  );
+  return ctx.getImageData(0, 0, rect.width, rect.height);
+};
+
+/**
+ * Encodes pixels as a PNG image, e.g. to store an extracted frame.
+ */
+export const encodePNG = (image: ImageData): Promise<Blob> => {
+  const canvas = document.createElement("canvas");
+  canvas.width = image.width;
+  canvas.height = image.height;
+  canvas.getContext("2d")!.putImageData(image, 0, 0);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("PNG encoding failed")),
+      "image/png",
+    );
+  });
+};
+
+/**
+ * Waits until a video element has finished seeking and has frame data.
+ */
+export const waitForFrame = (video: HTMLVideoElement): Promise<void> => {
+  if (!video.seeking && video.readyState >= 2) return Promise.resolve();
+  return new Promise((resolve) => {
+    video.addEventListener("seeked", () => resolve(), { once: true });
+  });
+};
+
+/**
+ * Reads pixels of arbitrary frames through a hidden second video element,
+ * so the visible player is never moved. Requests are processed one at a time.
+ */
+export const createFrameSampler = (src: string): FrameSampler => {
+  const video = document.createElement("video");
+  video.muted = true;
+  video.preload = "auto";
+  video.src = src;
+
+  const ready = new Promise<void>((resolve, reject) => {
+    video.addEventListener("loadeddata", () => resolve(), { once: true });
+    video.addEventListener("error", () => reject(video.error), { once: true });
+  });
+  ready.catch(() => undefined); // Reported through grab() instead
+
+  const seek = (timeMs: number) => {
+    if (Math.abs(video.currentTime * 1000 - timeMs) < 0.5 && !video.seeking) {
+      return Promise.resolve();
+    }
+    const seeked = new Promise<void>((resolve) => {
+      video.addEventListener("seeked", () => resolve(), { once: true });
+    });
+    video.currentTime = timeMs / 1000;
+    return seeked;
+  };
+
+  let queue: Promise<unknown> = Promise.resolve();
+
+  return {
+    grab: (timeMs, rect) => {
+      const task = queue.then(async () => {
+        await ready;
+        await seek(timeMs);
+        return readFrameRegion(video, rect);
+      });
+      // A failed request must not block the following ones
+      queue = task.catch(() => undefined);
+      return task;
+    },
+    dispose: () => {
+      video.removeAttribute("src");
+      video.load();
+    },
+  };
+};
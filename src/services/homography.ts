@@ -0,0 +1,175 @@
+import { ControlPoint, HomographyCalibration } from "@/types";
+
+export const MIN_CONTROL_POINTS = 4;
+
+type Vec2 = { x: number; y: number };
+
+// Row-major 3x3 matrix
+export type Matrix3 = number[];
+
+export interface SolvedHomography {
+  toWorld: Matrix3; // Video coordinates -> world units
+  toImage: Matrix3; // World units -> video coordinates
+  errors: number[]; // Reprojection error of each control point (world units)
+}
+
+const multiply = (a: Matrix3, b: Matrix3): Matrix3 =>
+  Array.from({ length: 9 }, (_, i) => {
+    const row = Math.floor(i / 3);
+    const col = i % 3;
+    return (
+      a[row * 3] * b[col] +
+      a[row * 3 + 1] * b[3 + col] +
+      a[row * 3 + 2] * b[6 + col]
+    );
+  });
+
+export const applyHomography = (h: Matrix3, p: Vec2): Vec2 | null => {
+  const w = h[6] * p.x + h[7] * p.y + h[8];
+  // Points on (or behind) the horizon have no finite projection
+  if (Math.abs(w) < 1e-12) return null;
+  return {
+    x: (h[0] * p.x + h[1] * p.y + h[2]) / w,
+    y: (h[3] * p.x + h[4] * p.y + h[5]) / w,
+  };
+};
+
+/**
+ * Similarity transform moving the centroid to the origin with a mean distance of sqrt(2).
+ * Keeps the linear system well conditioned for pixel-sized coordinates.
+ */
+const normalize = (points: Vec2[]): { t: Matrix3; inverse: Matrix3 } => {
+  const cx = points.reduce((acc, p) => acc + p.x, 0) / points.length;
+  const cy = points.reduce((acc, p) => acc + p.y, 0) / points.length;
+  const meanDist =
+    points.reduce((acc, p) => acc + Math.hypot(p.x - cx, p.y - cy), 0) /
+    points.length;
+  const s = meanDist > 0 ? Math.SQRT2 / meanDist : 1;
+  return {
+    t: [s, 0, -s * cx, 0, s, -s * cy, 0, 0, 1],
+    inverse: [1 / s, 0, cx, 0, 1 / s, cy, 0, 0, 1],
+  };
+};
+
+// Gaussian elimination with partial pivoting; null if the system is singular
+const solveLinear = (a: number[][], b: number[]): number[] | null => {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-10) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let r = col + 1; r < n; r++) {
+      const f = m[r][col] / m[col][col];
+      for (let c = col; c <= n; c++) m[r][c] -= f * m[col][c];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = m[r][n];
+    for (let c = r + 1; c < n; c++) sum -= m[r][c] * x[c];
+    x[r] = sum / m[r][r];
+  }
+  return x;
+};
+
+/**
+ * Least-squares homography mapping `from` onto `to` (direct linear transform, h33 = 1).
+ * Returns null for fewer than four pairs or degenerate (e.g. collinear) points.
+ */
+const solve = (from: Vec2[], to: Vec2[]): Matrix3 | null => {
+  if (from.length < MIN_CONTROL_POINTS || from.length !== to.length) {
+    return null;
+  }
+  const nFrom = normalize(from);
+  const nTo = normalize(to);
+
+  // Normal equations (A^T A) h = A^T b of the 2n x 8 system
+  const ata = Array.from({ length: 8 }, () => new Array<number>(8).fill(0));
+  const atb = new Array<number>(8).fill(0);
+  const addRow = (row: number[], value: number) => {
+    for (let i = 0; i < 8; i++) {
+      atb[i] += row[i] * value;
+      for (let j = 0; j < 8; j++) ata[i][j] += row[i] * row[j];
+    }
+  };
+  from.forEach((f, i) => {
+    const p = applyHomography(nFrom.t, f)!;
+    const q = applyHomography(nTo.t, to[i])!;
+    addRow([p.x, p.y, 1, 0, 0, 0, -p.x * q.x, -p.y * q.x], q.x);
+    addRow([0, 0, 0, p.x, p.y, 1, -p.x * q.y, -p.y * q.y], q.y);
+  });
+
+  const h = solveLinear(ata, atb);
+  if (!h || h.some((v) => !Number.isFinite(v))) return null;
+  return multiply(nTo.inverse, multiply([...h, 1], nFrom.t));
+};
+
+/**
+ * Solves the image <-> world transforms of a calibration.
+ * Returns null if the control points do not determine a homography.
+ */
+export const solveHomography = (
+  points: ControlPoint[],
+): SolvedHomography | null => {
+  const image = points.map((p) => p.image);
+  const world = points.map((p) => p.world);
+  const toWorld = solve(image, world);
+  const toImage = solve(world, image);
+  if (!toWorld || !toImage) return null;
+  const errors = points.map((p) => {
+    const projected = applyHomography(toWorld, p.image);
+    return projected
+      ? Math.hypot(projected.x - p.world.x, projected.y - p.world.y)
+      : Infinity;
+  });
+  return { toWorld, toImage, errors };
+};
+
+// 1, 2 or 5 times a power of ten
+const getNiceStep = (range: number, count: number): number => {
+  const raw = range / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const factor = [1, 2, 5, 10].find((f) => f * magnitude >= raw) ?? 10;
+  return factor * magnitude;
+};
+
+/**
+ * Lines of a world grid covering the control points, projected into video coordinates.
+ * The grid stays within the calibrated area, where the projection is reliable.
+ */
+export const getWorldGridLines = (
+  calibration: HomographyCalibration,
+  solved: SolvedHomography,
+  lineCount = 10,
+): [Vec2, Vec2][] => {
+  const xs = calibration.points.map((p) => p.world.x);
+  const ys = calibration.points.map((p) => p.world.y);
+  const range = Math.max(
+    Math.max(...xs) - Math.min(...xs),
+    Math.max(...ys) - Math.min(...ys),
+  );
+  if (!(range > 0)) return [];
+  const step = getNiceStep(range, lineCount);
+  const minX = Math.floor(Math.min(...xs) / step) * step;
+  const maxX = Math.ceil(Math.max(...xs) / step) * step;
+  const minY = Math.floor(Math.min(...ys) / step) * step;
+  const maxY = Math.ceil(Math.max(...ys) / step) * step;
+
+  const lines: [Vec2, Vec2][] = [];
+  const addLine = (a: Vec2, b: Vec2) => {
+    const from = applyHomography(solved.toImage, a);
+    const to = applyHomography(solved.toImage, b);
+    if (from && to) lines.push([from, to]);
+  };
+  for (let x = minX; x <= maxX + step / 2; x += step) {
+    addLine({ x, y: minY }, { x, y: maxY });
+  }
+  for (let y = minY; y <= maxY + step / 2; y += step) {
+    addLine({ x: minX, y }, { x: maxX, y });
+  }
+  return lines;
+};
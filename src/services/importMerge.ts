@@ -0,0 +1,102 @@
+import { TrackPoint, TrackedObject } from "@/types";
+import { getDefaultObjectColor, getFrameIndex, getPointId } from "@/utils";
+
+// Incoming object ID -> object ID in the current project
+export type IdMapping = Map<number, number>;
+
+export type ConflictResolution = "existing" | "incoming";
+
+export interface MergeConflict {
+  key: string; // Object, frame and keypoint
+  existing: TrackPoint;
+  incoming: TrackPoint;
+}
+
+/**
+ * Maps every incoming ID past the largest current one, so no tracks collide.
+ */
+export const getOffsetMapping = (
+  incomingIds: number[],
+  offset: number,
+): IdMapping => new Map(incomingIds.map((id) => [id, id + offset]));
+
+export const remapPoints = (
+  points: TrackPoint[],
+  mapping: IdMapping,
+): TrackPoint[] =>
+  points.map((p) => {
+    const objectId = mapping.get(p.objectId) ?? p.objectId;
+    return objectId === p.objectId
+      ? p
+      : { ...p, objectId, id: getPointId(p.timestamp, objectId, p.keypoint) };
+  });
+
+// Points of the same object (and keypoint) on the same frame conflict
+const getConflictKey = (p: TrackPoint, fps: number) =>
+  `${getFrameIndex(p.timestamp, fps)}-${p.objectId}-${p.keypoint ?? ""}`;
+
+export const findConflicts = (
+  existing: TrackPoint[],
+  incoming: TrackPoint[],
+  fps: number,
+): MergeConflict[] => {
+  const byKey = new Map(existing.map((p) => [getConflictKey(p, fps), p]));
+  return incoming.flatMap((p) => {
+    const key = getConflictKey(p, fps);
+    const match = byKey.get(key);
+    return match ? [{ key, existing: match, incoming: p }] : [];
+  });
+};
+
+/**
+ * Combines the current points with remapped incoming points.
+ * Conflicts are resolved per conflict key; unlisted conflicts keep the existing point.
+ */
+export const mergePoints = (
+  existing: TrackPoint[],
+  incoming: TrackPoint[],
+  fps: number,
+  resolutions: Map<string, ConflictResolution>,
+): TrackPoint[] => {
+  const incomingByKey = new Map(
+    incoming.map((p) => [getConflictKey(p, fps), p]),
+  );
+  const merged = existing.filter((p) => {
+    const key = getConflictKey(p, fps);
+    return !incomingByKey.has(key) || resolutions.get(key) !== "incoming";
+  });
+  const existingKeys = new Set(existing.map((p) => getConflictKey(p, fps)));
+  // Several incoming objects may be mapped onto one ID; the first point wins
+  const added = new Set<string>();
+  incoming.forEach((p) => {
+    const key = getConflictKey(p, fps);
+    if (added.has(key)) return;
+    if (!existingKeys.has(key) || resolutions.get(key) === "incoming") {
+      merged.push(p);
+      added.add(key);
+    }
+  });
+  return merged;
+};
+
+/**
+ * Object table after merging: current objects win, incoming objects fill new IDs.
+ */
+export const mergeObjects = (
+  existing: TrackedObject[],
+  incoming: TrackedObject[],
+  mapping: IdMapping,
+): TrackedObject[] => {
+  const merged = new Map(existing.map((o) => [o.id, o]));
+  incoming.forEach((o) => {
+    const id = mapping.get(o.id) ?? o.id;
+    if (merged.has(id)) return;
+    // Default colors follow the new ID
+    const color =
+      o.color === getDefaultObjectColor(o.id)
+        ? getDefaultObjectColor(id)
+        : o.color;
+    merged.set(id, { ...o, id, color });
+  });
+  return [...merged.values()].sort((a, b) => a.id - b.id);
+};
@@ -0,0 +1,185 @@
+import { TrackPoint } from "@/types";
+import { getFrameIndex, getFrameTime, getPointId, hasBox } from "@/utils";
+
+// Timestamps within this distance of a frame count as on the frame (float noise)
+const FRAME_TOLERANCE_MS = 1e-3;
+
+export interface ImportVideo {
+  width: number;
+  height: number;
+  duration: number; // ms
+  fps: number;
+  samplingInterval: number; // Frames between sampling frames
+}
+
+export type ImportIssue =
+  | "outside" // Location (or any part of its box) outside the video frame
+  | "beyond-duration" // Timestamp before the start or after the end of the video
+  | "between-frames" // Timestamp does not land on a frame
+  | "off-schedule"; // On a frame, but not a sampling frame (hidden while sampling)
+
+export interface ImportReport {
+  total: number;
+  counts: Record<ImportIssue, number>;
+  examples: Record<ImportIssue, TrackPoint[]>; // First few affected points
+}
+
+export interface ImportFixes {
+  snap: "none" | "frame" | "sampling"; // Move timestamps to the nearest (sampling) frame
+  outside: "keep" | "clamp" | "drop";
+  dropBeyondDuration: boolean;
+}
+
+export interface FixedImport {
+  points: TrackPoint[];
+  dropped: number; // Removed by the fixes
+  collapsed: number; // Snapped onto a frame that already had the same point
+}
+
+const MAX_EXAMPLES = 3;
+
+export const ISSUE_ORDER: ImportIssue[] = [
+  "outside",
+  "beyond-duration",
+  "between-frames",
+  "off-schedule",
+];
+
+const isOutside = (p: TrackPoint, video: ImportVideo) => {
+  const halfWidth = hasBox(p) ? p.width / 2 : 0;
+  const halfHeight = hasBox(p) ? p.height / 2 : 0;
+  return (
+    p.x - halfWidth < 0 ||
+    p.y - halfHeight < 0 ||
+    p.x + halfWidth > video.width ||
+    p.y + halfHeight > video.height
+  );
+};
+
+// Moves the point (its whole box) into the frame; a box larger than the frame shrinks to fit
+const clampToFrame = (p: TrackPoint, video: ImportVideo): TrackPoint => {
+  const clampAxis = (center: number, size: number, limit: number) =>
+    Math.min(Math.max(center, size / 2), limit - size / 2);
+  if (!hasBox(p)) {
+    return {
+      ...p,
+      x: clampAxis(p.x, 0, video.width),
+      y: clampAxis(p.y, 0, video.height),
+    };
+  }
+  const width = Math.min(p.width, video.width);
+  const height = Math.min(p.height, video.height);
+  return {
+    ...p,
+    x: clampAxis(p.x, width, video.width),
+    y: clampAxis(p.y, height, video.height),
+    width,
+    height,
+  };
+};
+
+const isBeyondDuration = (p: TrackPoint, video: ImportVideo) =>
+  p.timestamp < 0 || p.timestamp > video.duration;
+
+const isBetweenFrames = (p: TrackPoint, video: ImportVideo) =>
+  Math.abs(
+    p.timestamp -
+      getFrameTime(getFrameIndex(p.timestamp, video.fps), video.fps),
+  ) > FRAME_TOLERANCE_MS;
+
+const isOffSchedule = (p: TrackPoint, video: ImportVideo) =>
+  getFrameIndex(p.timestamp, video.fps) % video.samplingInterval !== 0;
+
+/**
+ * Checks imported points against the loaded video: frame bounds, duration,
+ * frame alignment at the detected FPS and the sampling schedule.
+ */
+export const validateImport = (
+  points: TrackPoint[],
+  video: ImportVideo,
+): ImportReport => {
+  const checks: Record<ImportIssue, (p: TrackPoint) => boolean> = {
+    outside: (p) => isOutside(p, video),
+    "beyond-duration": (p) => isBeyondDuration(p, video),
+    "between-frames": (p) => isBetweenFrames(p, video),
+    "off-schedule": (p) => isOffSchedule(p, video),
+  };
+  const counts = {
+    outside: 0,
+    "beyond-duration": 0,
+    "between-frames": 0,
+    "off-schedule": 0,
+  };
+  const examples: ImportReport["examples"] = {
+    outside: [],
+    "beyond-duration": [],
+    "between-frames": [],
+    "off-schedule": [],
+  };
+  points.forEach((p) => {
+    ISSUE_ORDER.forEach((issue) => {
+      if (!checks[issue](p)) return;
+      counts[issue]++;
+      if (examples[issue].length < MAX_EXAMPLES) examples[issue].push(p);
+    });
+  });
+  return { total: points.length, counts, examples };
+};
+
+export const hasImportIssues = (report: ImportReport): boolean =>
+  ISSUE_ORDER.some((issue) => report.counts[issue] > 0);
+
+/**
+ * Applies the chosen fixes. Snapping may move several points of an object onto the
+ * same frame; the one closest to the frame is kept.
+ */
+export const applyImportFixes = (
+  points: TrackPoint[],
+  video: ImportVideo,
+  fixes: ImportFixes,
+): FixedImport => {
+  const interval = fixes.snap === "sampling" ? video.samplingInterval : 1;
+  const kept = new Map<string, { point: TrackPoint; distance: number }>();
+  let dropped = 0;
+  let collapsed = 0;
+
+  points.forEach((p) => {
+    let point = p;
+    let distance = 0;
+    if (fixes.snap !== "none") {
+      const frame =
+        Math.round(getFrameIndex(p.timestamp, video.fps) / interval) * interval;
+      const timestamp = getFrameTime(frame, video.fps);
+      distance = Math.abs(timestamp - p.timestamp);
+      point = {
+        ...point,
+        timestamp,
+        id: getPointId(timestamp, point.objectId, point.keypoint),
+      };
+    }
+    if (fixes.dropBeyondDuration && isBeyondDuration(point, video)) {
+      dropped++;
+      return;
+    }
+    if (isOutside(point, video)) {
+      if (fixes.outside === "drop") {
+        dropped++;
+        return;
+      }
+      if (fixes.outside === "clamp") point = clampToFrame(point, video);
+    }
+
+    const existing = kept.get(point.id);
+    if (existing) {
+      collapsed++;
+      if (existing.distance <= distance) return;
+    }
+    kept.set(point.id, { point, distance });
+  });
+
+  return {
+    points: [...kept.values()].map((k) => k.point),
+    dropped,
+    collapsed,
+  };
+};
@@ -0,0 +1,150 @@
+import { InterpolationMode, TrackPoint } from "@/types";
+import {
+  getFrameIndex,
+  getFrameTime,
+  getPointId,
+  hasBox,
+  hasLocation,
+} from "@/utils";
+
+type Curve = (frame: number, segment: number) => number;
+
+const createLinear =
+  (frames: number[], values: number[]): Curve =>
+  (frame, i) => {
+    const t = (frame - frames[i]) / (frames[i + 1] - frames[i]);
+    return values[i] + t * (values[i + 1] - values[i]);
+  };
+
+/**
+ * Natural cubic spline through all knots (second derivative zero at both ends).
+ * Standard tridiagonal solution, see e.g. Burden & Faires, Algorithm 3.4.
+ */
+const createNaturalSpline = (frames: number[], values: number[]): Curve => {
+  const n = frames.length - 1;
+  const h = frames.slice(1).map((f, i) => f - frames[i]);
+
+  const alpha = new Array(n).fill(0);
+  for (let i = 1; i < n; i++) {
+    alpha[i] =
+      (3 / h[i]) * (values[i + 1] - values[i]) -
+      (3 / h[i - 1]) * (values[i] - values[i - 1]);
+  }
+
+  const l = new Array(n + 1).fill(1);
+  const mu = new Array(n + 1).fill(0);
+  const z = new Array(n + 1).fill(0);
+  for (let i = 1; i < n; i++) {
+    l[i] = 2 * (frames[i + 1] - frames[i - 1]) - h[i - 1] * mu[i - 1];
+    mu[i] = h[i] / l[i];
+    z[i] = (alpha[i] - h[i - 1] * z[i - 1]) / l[i];
+  }
+
+  const b = new Array(n).fill(0);
+  const c = new Array(n + 1).fill(0);
+  const d = new Array(n).fill(0);
+  for (let j = n - 1; j >= 0; j--) {
+    c[j] = z[j] - mu[j] * c[j + 1];
+    b[j] =
+      (values[j + 1] - values[j]) / h[j] - (h[j] * (c[j + 1] + 2 * c[j])) / 3;
+    d[j] = (c[j + 1] - c[j]) / (3 * h[j]);
+  }
+
+  return (frame, i) => {
+    const dx = frame - frames[i];
+    return values[i] + b[i] * dx + c[i] * dx * dx + d[i] * dx * dx * dx;
+  };
+};
+
+/**
+ * Fills sampling frames between logged keyframes of each object (and keypoint).
+ * Returns only the synthetic points (flagged `interpolated`); frames that
+ * already hold a record are never overwritten.
+ */
+export const interpolateTracks = (
+  points: TrackPoint[],
+  fps: number,
+  intervalFrames: number,
+  mode: InterpolationMode,
+): TrackPoint[] => {
+  if (mode === "none" || fps <= 0 || intervalFrames <= 0) return [];
+
+  // Group keyframes per track (object and keypoint), one entry per frame
+  const byTrack = new Map<
+    string,
+    { objectId: number; keypoint?: string; frames: Map<number, TrackPoint> }
+  >();
+  points.forEach((p) => {
+    if (p.interpolated) return;
+    const key = `${p.objectId}|${p.keypoint ?? ""}`;
+    let track = byTrack.get(key);
+    if (!track) {
+      track = { objectId: p.objectId, keypoint: p.keypoint, frames: new Map() };
+      byTrack.set(key, track);
+    }
+    track.frames.set(getFrameIndex(p.timestamp, fps), p);
+  });
+
+  const result: TrackPoint[] = [];
+
+  byTrack.forEach(({ objectId, keypoint, frames: frameMap }) => {
+    // Entries without a location (out of frame, not applicable) end a run of keyframes
+    const runs: number[][] = [[]];
+    [...frameMap.keys()]
+      .sort((a, b) => a - b)
+      .forEach((f) => {
+        if (hasLocation(frameMap.get(f)!)) runs[runs.length - 1].push(f);
+        else runs.push([]);
+      });
+
+    runs.forEach((frames) => {
+      if (frames.length < 2) return;
+
+      const xs = frames.map((f) => frameMap.get(f)!.x);
+      const ys = frames.map((f) => frameMap.get(f)!.y);
+
+      // A spline needs at least three knots, otherwise it is a straight line anyway
+      const factory =
+        mode === "cubic" && frames.length > 2
+          ? createNaturalSpline
+          : createLinear;
+      const curveX = factory(frames, xs);
+      const curveY = factory(frames, ys);
+
+      for (let i = 0; i < frames.length - 1; i++) {
+        const start = frames[i];
+        const end = frames[i + 1];
+        // Box sizes change linearly, and only between two keyframes with boxes
+        const from = frameMap.get(start)!;
+        const to = frameMap.get(end)!;
+        const boxAt = (frame: number) => {
+          if (!hasBox(from) || !hasBox(to)) return {};
+          const t = (frame - start) / (end - start);
+          return {
+            width: from.width + t * (to.width - from.width),
+            height: from.height + t * (to.height - from.height),
+          };
+        };
+        // First sampling frame strictly after the keyframe
+        let frame = (Math.floor(start / intervalFrames) + 1) * intervalFrames;
+
+        for (; frame < end; frame += intervalFrames) {
+          const timestamp = getFrameTime(frame, fps);
+          result.push({
+            // Same id scheme as logged points, so a promoted point keeps its id
+            id: getPointId(timestamp, objectId, keypoint),
+            timestamp,
+            objectId,
+            ...(keypoint !== undefined ? { keypoint } : {}),
+            x: curveX(frame, i),
+            y: curveY(frame, i),
+            ...boxAt(frame),
+            interpolated: true,
+          });
+        }
+      }
+    });
+  });
+
+  return result;
+};
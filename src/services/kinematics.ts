@@ -0,0 +1,171 @@
+import { TrackPoint } from "@/types";
+import { escapeCSVField, getFrameIndex } from "@/utils";
+
+// Maps video coordinates into the unit of the analysis (e.g. a calibration)
+export interface CoordinateTransform {
+  unit: string;
+  project: (p: { x: number; y: number }) => { x: number; y: number } | null;
+}
+
+export const PIXEL_TRANSFORM: CoordinateTransform = {
+  unit: "px",
+  project: (p) => ({ x: p.x, y: p.y }),
+};
+
+export interface KinematicSample {
+  timestamp: number; // ms
+  x: number; // Transformed coordinates
+  y: number;
+  speed: number | null; // unit / s, from the previous sample
+  acceleration: number | null; // unit / s², change of speed between steps
+  pathLength: number; // Cumulative, unit
+  heading: number | null; // Direction of the last step in degrees, (-180, 180], 0 = +x
+  turningAngle: number | null; // Change of heading in degrees, (-180, 180]
+}
+
+export interface KinematicSummary {
+  duration: number; // s, first to last sample
+  pathLength: number;
+  meanSpeed: number; // Path length over duration
+  maxSpeed: number;
+  maxAcceleration: number; // Largest magnitude
+  meanTurningAngle: number; // Mean absolute turning angle in degrees
+}
+
+const toDegrees = (rad: number) => (rad * 180) / Math.PI;
+
+// Wraps an angle difference into (-180, 180]
+const wrapAngle = (deg: number) => {
+  const wrapped = ((((deg + 180) % 360) + 360) % 360) - 180;
+  return wrapped === -180 ? 180 : wrapped;
+};
+
+/**
+ * Derives speed, acceleration, path length, heading and turning angle along one trajectory.
+ * Time steps come from frame indices, so they are exact multiples of the frame duration.
+ * Points the transform cannot project are skipped.
+ */
+export const computeKinematics = (
+  track: TrackPoint[],
+  fps: number,
+  transform: CoordinateTransform = PIXEL_TRANSFORM,
+): KinematicSample[] => {
+  const sorted = [...track].sort((a, b) => a.timestamp - b.timestamp);
+  const samples: KinematicSample[] = [];
+  let prevFrame = 0;
+  let prevStep = 0; // Duration of the previous step in s
+
+  sorted.forEach((p) => {
+    const pos = transform.project(p);
+    if (!pos) return;
+    const frame = getFrameIndex(p.timestamp, fps);
+    const prev = samples[samples.length - 1];
+    if (!prev) {
+      samples.push({
+        timestamp: p.timestamp,
+        ...pos,
+        speed: null,
+        acceleration: null,
+        pathLength: 0,
+        heading: null,
+        turningAngle: null,
+      });
+      prevFrame = frame;
+      return;
+    }
+
+    const dt = fps > 0 ? (frame - prevFrame) / fps : 0;
+    if (dt <= 0) return;
+    const dx = pos.x - prev.x;
+    const dy = pos.y - prev.y;
+    const distance = Math.hypot(dx, dy);
+    const speed = distance / dt;
+    // Standing still has no direction
+    const heading = distance > 0 ? toDegrees(Math.atan2(dy, dx)) : null;
+
+    samples.push({
+      timestamp: p.timestamp,
+      ...pos,
+      speed,
+      // Speeds belong to step midpoints, which are (dt + prevStep) / 2 apart
+      acceleration:
+        prev.speed !== null
+          ? (speed - prev.speed) / ((dt + prevStep) / 2)
+          : null,
+      pathLength: prev.pathLength + distance,
+      heading,
+      turningAngle:
+        heading !== null && prev.heading !== null
+          ? wrapAngle(heading - prev.heading)
+          : null,
+    });
+    prevFrame = frame;
+    prevStep = dt;
+  });
+
+  return samples;
+};
+
+export const summarizeKinematics = (
+  samples: KinematicSample[],
+): KinematicSummary => {
+  const values = (key: "speed" | "acceleration" | "turningAngle") =>
+    samples.flatMap((s) => (s[key] === null ? [] : [Math.abs(s[key])]));
+  const last = samples[samples.length - 1];
+  const duration =
+    samples.length > 1 ? (last.timestamp - samples[0].timestamp) / 1000 : 0;
+  const pathLength = last?.pathLength ?? 0;
+  const turning = values("turningAngle");
+  return {
+    duration,
+    pathLength,
+    meanSpeed: duration > 0 ? pathLength / duration : 0,
+    maxSpeed: Math.max(0, ...values("speed")),
+    maxAcceleration: Math.max(0, ...values("acceleration")),
+    meanTurningAngle:
+      turning.length > 0
+        ? turning.reduce((acc, v) => acc + v, 0) / turning.length
+        : 0,
+  };
+};
+
+/**
+ * Export derived series to CSV, one row per object and sample.
+ * Column names carry the unit, e.g. "speed_mm_per_s".
+ */
+export const kinematicsToCSV = (
+  series: { objectId: number; samples: KinematicSample[] }[],
+  unit: string,
+): string => {
+  const header = [
+    "timestamp_ms",
+    "object_id",
+    `x_${unit}`,
+    `y_${unit}`,
+    `speed_${unit}_per_s`,
+    `acceleration_${unit}_per_s2`,
+    `path_length_${unit}`,
+    "heading_deg",
+    "turning_angle_deg",
+  ];
+  const field = (v: number | null) => (v === null ? "" : v);
+
+  let csv = header.map(escapeCSVField).join(",") + "\n";
+  series.forEach(({ objectId, samples }) => {
+    samples.forEach((s) => {
+      csv +=
+        [
+          s.timestamp,
+          objectId,
+          s.x,
+          s.y,
+          field(s.speed),
+          field(s.acceleration),
+          s.pathLength,
+          field(s.heading),
+          field(s.turningAngle),
+        ].join(",") + "\n";
+    });
+  });
+  return csv;
+};
@@ -0,0 +1,325 @@
+import { KeypointSchema, TrackPoint, TrackedObject } from "@/types";
+import {
+  ParsedCSV,
+  createObject,
+  escapeCSVField,
+  getFrameFileName,
+  getFrameIndex,
+  getFrameTime,
+  getKeypointSchema,
+  getPointId,
+  hasLocation,
+  parseDelimited,
+} from "@/utils";
+
+// Body part of objects tracked as a single point (they have no keypoints)
+export const DLC_POINT_BODYPART = "center";
+
+// Category of imported individuals whose body parts match no existing schema
+const POSE_CATEGORY = "animal";
+
+type Rows = { fields: string[]; line: number }[];
+
+// Unique DeepLabCut individual names, taken from the object names where set
+const getIndividualNames = (objects: TrackedObject[]): Map<number, string> => {
+  const names = new Map<number, string>();
+  const used = new Set<string>();
+  objects.forEach((o) => {
+    let name = o.name.trim() || `individual${o.id}`;
+    if (used.has(name)) name = `${name}_${o.id}`;
+    used.add(name);
+    names.set(o.id, name);
+  });
+  return names;
+};
+
+export interface DLCExportOptions {
+  scorer: string;
+  videoName: string; // Folder of the extracted frames in "labeled-data"
+  frameCount: number; // Sets the zero padding of the frame file names
+}
+
+/**
+ * Export labels in DeepLabCut's multi-animal format ("CollectedData_<scorer>.csv"):
+ * four header rows (scorer, individuals, bodyparts, coords) and one row per labeled frame,
+ * indexed by "labeled-data", the video folder and the frame file name.
+ * Objects without keypoints are exported with a single "center" body part.
+ */
+export const pointsToDLC = (
+  points: TrackPoint[],
+  objects: TrackedObject[],
+  keypointSchemas: KeypointSchema[],
+  fps: number,
+  { scorer, videoName, frameCount }: DLCExportOptions,
+): string => {
+  const names = getIndividualNames(objects);
+  const tracked = objects.filter((o) =>
+    points.some((p) => p.objectId === o.id),
+  );
+  const columns = tracked.flatMap((o) =>
+    (
+      getKeypointSchema(keypointSchemas, o)?.keypoints ?? [DLC_POINT_BODYPART]
+    ).map((bodypart) => ({ object: o, bodypart })),
+  );
+
+  const byFrame = new Map<number, Map<string, TrackPoint>>();
+  points.forEach((p) => {
+    // DeepLabCut marks unlabeled body parts with empty cells
+    if (!hasLocation(p)) return;
+    const frame = getFrameIndex(p.timestamp, fps);
+    const entries = byFrame.get(frame) ?? new Map<string, TrackPoint>();
+    entries.set(`${p.objectId}:${p.keypoint ?? DLC_POINT_BODYPART}`, p);
+    byFrame.set(frame, entries);
+  });
+
+  const headerRow = (label: string, values: string[]) =>
+    [label, "", "", ...values].map(escapeCSVField).join(",") + "\n";
+  const twice = (values: string[]) => values.flatMap((v) => [v, v]);
+
+  let csv =
+    headerRow("scorer", twice(columns.map(() => scorer))) +
+    headerRow(
+      "individuals",
+      twice(columns.map((c) => names.get(c.object.id) ?? "")),
+    ) +
+    headerRow("bodyparts", twice(columns.map((c) => c.bodypart))) +
+    headerRow(
+      "coords",
+      columns.flatMap(() => ["x", "y"]),
+    );
+
+  [...byFrame.keys()]
+    .sort((a, b) => a - b)
+    .forEach((frame) => {
+      const entries = byFrame.get(frame)!;
+      const values = columns.flatMap(
+        ({ object, bodypart }): (string | number)[] => {
+          const p = entries.get(`${object.id}:${bodypart}`);
+          return p ? [p.x, p.y] : ["", ""];
+        },
+      );
+      csv +=
+        [
+          "labeled-data",
+          videoName,
+          getFrameFileName(frame, frameCount),
+          ...values,
+        ]
+          .map(escapeCSVField)
+          .join(",") + "\n";
+    });
+  return csv;
+};
+
+// Frame index from a numeric index or a frame file name such as "img0042.png"
+const parseFrameIndex = (value: string): number | null => {
+  const match = /(\d+)\D*$/.exec(value.trim());
+  return match ? Number(match[1]) : null;
+};
+
+const parseValue = (value: string | undefined): number =>
+  value === undefined || value.trim() === "" ? NaN : Number(value);
+
+// Category of an imported individual: an existing schema covering its body parts, if any
+const getPoseCategory = (
+  bodyparts: string[],
+  keypointSchemas: KeypointSchema[],
+  fallback: string,
+): string =>
+  keypointSchemas.find((s) => bodyparts.every((b) => s.keypoints.includes(b)))
+    ?.category ?? fallback;
+
+interface PoseColumn {
+  individual: string; // Empty for single-animal files
+  bodypart: string;
+  x: number;
+  y: number;
+  likelihood: number; // -1 without a likelihood column
+}
+
+/**
+ * Builds points and objects from per-frame predictions.
+ * Individuals become objects in header order, or in order of appearance for per-row tracks.
+ * The first entry per point wins.
+ */
+const collectPoses = (
+  columns: PoseColumn[],
+  frames: { frame: number; fields: string[]; individual?: string }[],
+  fps: number,
+  keypointSchemas: KeypointSchema[],
+): ParsedCSV => {
+  const ids = new Map<string, number>();
+  const bodypartsOf = new Map<string, string[]>();
+  const points = new Map<string, TrackPoint>();
+  // Individuals named in the header keep their column order
+  columns.forEach((c) => {
+    if (c.individual && !ids.has(c.individual)) {
+      ids.set(c.individual, ids.size + 1);
+    }
+  });
+
+  frames.forEach(({ frame, fields, individual: rowIndividual }) => {
+    const timestamp = getFrameTime(frame, fps);
+    columns.forEach((c) => {
+      const x = parseValue(fields[c.x]);
+      const y = parseValue(fields[c.y]);
+      if (!Number.isFinite(x) || !Number.isFinite(y)) return;
+      const individual = rowIndividual ?? c.individual;
+      if (!ids.has(individual)) ids.set(individual, ids.size + 1);
+      const objectId = ids.get(individual)!;
+      const bodyparts = bodypartsOf.get(individual) ?? [];
+      if (!bodyparts.includes(c.bodypart)) bodyparts.push(c.bodypart);
+      bodypartsOf.set(individual, bodyparts);
+
+      const likelihood =
+        c.likelihood >= 0 ? parseValue(fields[c.likelihood]) : NaN;
+      const pointId = getPointId(timestamp, objectId, c.bodypart);
+      if (points.has(pointId)) return;
+      points.set(pointId, {
+        id: pointId,
+        timestamp,
+        objectId,
+        x,
+        y,
+        keypoint: c.bodypart,
+        ...(Number.isFinite(likelihood) ? { likelihood } : {}),
+      });
+    });
+  });
+
+  // Individuals with only a "center" body part are single-point objects
+  const singlePoint = new Set(
+    [...bodypartsOf]
+      .filter(([, b]) => b.length === 1 && b[0] === DLC_POINT_BODYPART)
+      .map(([individual]) => ids.get(individual)!),
+  );
+  const parsedPoints = [...points.values()].map((p) => {
+    if (!singlePoint.has(p.objectId)) return p;
+    const { keypoint: _keypoint, ...point } = p;
+    return { ...point, id: getPointId(p.timestamp, p.objectId) };
+  });
+
+  const objects = [...ids].map(([individual, id]) =>
+    createObject(id, {
+      name: individual,
+      category: singlePoint.has(id)
+        ? ""
+        : getPoseCategory(
+            bodypartsOf.get(individual) ?? [],
+            keypointSchemas,
+            individual === "single" ? "single" : POSE_CATEGORY,
+          ),
+    }),
+  );
+  return { points: parsedPoints, objects };
+};
+
+// DeepLabCut labels or predictions: header rows "scorer", ["individuals"], "bodyparts", "coords"
+const parseDLC = (
+  rows: Rows,
+  fps: number,
+  keypointSchemas: KeypointSchema[],
+): ParsedCSV | null => {
+  const headerOf = (label: string) =>
+    rows.slice(0, 4).find((r) => r.fields[0]?.trim() === label)?.fields;
+  const scorer = headerOf("scorer");
+  const individuals = headerOf("individuals");
+  const bodyparts = headerOf("bodyparts");
+  const coords = headerOf("coords");
+  if (!scorer || !bodyparts || !coords) return null;
+
+  // Index columns: one (frame number or image path) or three (labeled-data, video, image)
+  const indexCount = Math.max(
+    1,
+    scorer.findIndex((f, i) => i > 0 && f.trim() !== ""),
+  );
+  const columnsByKey = new Map<string, PoseColumn>();
+  coords.forEach((coord, i) => {
+    if (i < indexCount) return;
+    const individual = individuals?.[i]?.trim() ?? "";
+    const bodypart = bodyparts[i]?.trim() ?? "";
+    if (!bodypart) return;
+    const key = `${individual}\0${bodypart}`;
+    const column = columnsByKey.get(key) ?? {
+      individual,
+      bodypart,
+      x: -1,
+      y: -1,
+      likelihood: -1,
+    };
+    const c = coord.trim();
+    if (c === "x" || c === "y" || c === "likelihood") column[c] = i;
+    columnsByKey.set(key, column);
+  });
+  const columns = [...columnsByKey.values()].filter(
+    (c) => c.x >= 0 && c.y >= 0,
+  );
+
+  const headerCount = individuals ? 4 : 3;
+  const frames = rows.slice(headerCount).flatMap(({ fields }) => {
+    const frame = parseFrameIndex(fields[indexCount - 1] ?? "");
+    return frame === null ? [] : [{ frame, fields }];
+  });
+  return collectPoses(columns, frames, fps, keypointSchemas);
+};
+
+// SLEAP analysis CSV: "track", "frame_idx" and "<node>.x", "<node>.y", "<node>.score" columns
+const parseSLEAP = (
+  rows: Rows,
+  fps: number,
+  keypointSchemas: KeypointSchema[],
+): ParsedCSV | null => {
+  const header = rows[0]?.fields.map((f) => f.trim()) ?? [];
+  const frameCol = header.indexOf("frame_idx");
+  const trackCol = header.indexOf("track");
+  if (frameCol < 0) return null;
+
+  const columns = header.flatMap((h, i) => {
+    const match = /^(.+)\.x$/.exec(h);
+    if (!match || header[i + 1] !== `${match[1]}.y`) return [];
+    return [
+      {
+        individual: "",
+        bodypart: match[1],
+        x: i,
+        y: i + 1,
+        likelihood: header.indexOf(`${match[1]}.score`),
+      },
+    ];
+  });
+  if (columns.length === 0) return null;
+
+  const frames = rows.slice(1).flatMap(({ fields }) => {
+    const frame = parseValue(fields[frameCol]);
+    if (!Number.isInteger(frame) || frame < 0) return [];
+    return [
+      {
+        frame,
+        fields,
+        individual: trackCol >= 0 ? (fields[trackCol]?.trim() ?? "") : "",
+      },
+    ];
+  });
+  return collectPoses(columns, frames, fps, keypointSchemas);
+};
+
+/**
+ * Parse DeepLabCut (labels or predictions) and SLEAP prediction CSVs into keypoints.
+ * Likelihoods (or SLEAP scores) are kept on the points for review.
+ * Returns null if the text is in neither format.
+ */
+export const parsePoseCSV = (
+  text: string,
+  fps: number,
+  keypointSchemas: KeypointSchema[],
+): ParsedCSV | null => {
+  const rows = parseDelimited(text);
+  if (rows.length === 0) return null;
+  if (rows[0].fields[0]?.trim() === "scorer") {
+    return parseDLC(rows, fps, keypointSchemas);
+  }
+  if (rows[0].fields.some((f) => f.trim() === "frame_idx")) {
+    return parseSLEAP(rows, fps, keypointSchemas);
+  }
+  return null;
+};
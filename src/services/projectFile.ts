@@ -0,0 +1,578 @@
+import {
+  AppSettings,
+  Behavior,
+  BehaviorEvent,
+  ControlPoint,
+  HomographyCalibration,
+  InterpolationMode,
+  KeypointSchema,
+  ProjectData,
+  Region,
+  ScaleCalibration,
+  TrackPoint,
+  TrackedObject,
+} from "@/types";
+import {
+  createObject,
+  getDefaultObjectColor,
+  getPointId,
+  DEFAULT_SETTINGS,
+  POINT_VISIBILITIES,
+  POINT_CONFIDENCES,
+} from "@/utils";
+import { MIN_CONTROL_POINTS } from "@/services/homography";
+
+export const PROJECT_FILE_EXTENSION = ".ctproj";
+export const PROJECT_FORMAT = "click-and-track-project";
+export const PROJECT_FORMAT_VERSION = 12;
+
+export interface ProjectVideoInfo {
+  name: string;
+  size: number; // bytes
+  width: number;
+  height: number;
+  duration: number; // ms
+  fps: number; // As detected by getExactFrameRate (or the 30 fps fallback)
+}
+
+// Shape of the current format version (older versions are migrated to this)
+export interface ProjectFile {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string; // ISO 8601
+  video: ProjectVideoInfo | null;
+  settings: AppSettings;
+  objects: TrackedObject[];
+  keypointSchemas: KeypointSchema[];
+  regions: Region[];
+  calibration: ScaleCalibration | null; // null: uncalibrated
+  homography: HomographyCalibration | null; // null: uncalibrated
+  behaviors: Behavior[];
+  events: BehaviorEvent[];
+  activeObjectId: number;
+  points: TrackPoint[];
+}
+
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProjectFileError";
+  }
+}
+
+/**
+ * Forward migrations, keyed by the version they upgrade FROM.
+ * Each step receives the raw (unvalidated) object of version N and returns version N + 1.
+ */
+const MIGRATIONS: Record<
+  number,
+  (raw: Record<string, unknown>) => Record<string, unknown>
+> = {
+  // v1 -> v2: objects gained name, category and color
+  1: (raw) => ({
+    ...raw,
+    version: 2,
+    objects: Array.isArray(raw.objects)
+      ? raw.objects.map((o) =>
+          isRecord(o) && typeof o.id === "number"
+            ? { ...createObject(o.id), ...o }
+            : o,
+        )
+      : raw.objects,
+  }),
+  // v2 -> v3: points may be auto-tracked (source "auto"); missing means logged by hand
+  2: (raw) => ({ ...raw, version: 3 }),
+  // v3 -> v4: keypoint schemas per category, points may name a keypoint
+  3: (raw) => ({ ...raw, version: 4, keypointSchemas: [] }),
+  // v4 -> v5: points may carry a bounding box (width, height)
+  4: (raw) => ({ ...raw, version: 5 }),
+  // v5 -> v6: named polygon regions
+  5: (raw) => ({ ...raw, version: 6, regions: [] }),
+  // v6 -> v7: reference-line scale calibration
+  6: (raw) => ({ ...raw, version: 7, calibration: null }),
+  // v7 -> v8: homography calibration from control points
+  7: (raw) => ({ ...raw, version: 8, homography: null }),
+  // v8 -> v9: imported predictions may carry a likelihood
+  8: (raw) => ({ ...raw, version: 9 }),
+  // v9 -> v10: point visibility; missing means visible, entries without a location
+  // are saved with null coordinates
+  9: (raw) => ({ ...raw, version: 10 }),
+  // v10 -> v11: point confidence ratings and notes
+  10: (raw) => ({ ...raw, version: 11 }),
+  // v11 -> v12: ethogram behaviors and coded events
+  11: (raw) => ({ ...raw, version: 12, behaviors: [], events: [] }),
+};
+
+export const serializeProject = (
+  project: ProjectData,
+  settings: AppSettings,
+  activeObjectId: number,
+  video: ProjectVideoInfo | null,
+): string => {
+  const file: ProjectFile = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_FORMAT_VERSION,
+    savedAt: new Date().toISOString(),
+    video,
+    settings,
+    objects: project.objects,
+    keypointSchemas: project.keypointSchemas,
+    regions: project.regions,
+    calibration: project.calibration,
+    homography: project.homography,
+    behaviors: project.behaviors,
+    events: [...project.events].sort(
+      (a, b) => a.timestamp - b.timestamp || a.objectId - b.objectId,
+    ),
+    activeObjectId,
+    points: [...project.points].sort((a, b) => {
+      if (a.timestamp !== b.timestamp) return a.timestamp - b.timestamp;
+      if (a.objectId !== b.objectId) return a.objectId - b.objectId;
+      return (a.keypoint ?? "").localeCompare(b.keypoint ?? "");
+    }),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+// --- Validation Helpers ---
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+const expectNumber = (v: unknown, path: string, integer = false): number => {
+  if (typeof v !== "number" || !Number.isFinite(v)) {
+    throw new ProjectFileError(`"${path}" must be a number.`);
+  }
+  if (integer && !Number.isInteger(v)) {
+    throw new ProjectFileError(`"${path}" must be an integer.`);
+  }
+  return v;
+};
+
+const expectPositive = (v: number, path: string): number => {
+  if (v <= 0) {
+    throw new ProjectFileError(`"${path}" must be greater than 0.`);
+  }
+  return v;
+};
+
+const expectNonNegative = (v: number, path: string): number => {
+  if (v < 0) {
+    throw new ProjectFileError(`"${path}" must not be negative.`);
+  }
+  return v;
+};
+
+const expectString = (v: unknown, path: string): string => {
+  if (typeof v !== "string") {
+    throw new ProjectFileError(`"${path}" must be a string.`);
+  }
+  return v;
+};
+
+const expectArray = (v: unknown, path: string): unknown[] => {
+  if (!Array.isArray(v)) {
+    throw new ProjectFileError(`"${path}" must be an array.`);
+  }
+  return v;
+};
+
+const expectRecord = (v: unknown, path: string): Record<string, unknown> => {
+  if (!isRecord(v)) {
+    throw new ProjectFileError(`"${path}" must be an object.`);
+  }
+  return v;
+};
+
+const INTERPOLATION_MODES: InterpolationMode[] = ["none", "linear", "cubic"];
+
+export const validateSettings = (raw: unknown): AppSettings => {
+  const s = expectRecord(raw, "settings");
+  return {
+    samplingRateNum: expectPositive(
+      expectNumber(s.samplingRateNum, "settings.samplingRateNum", true),
+      "settings.samplingRateNum",
+    ),
+    samplingRateDen: expectPositive(
+      expectNumber(s.samplingRateDen, "settings.samplingRateDen", true),
+      "settings.samplingRateDen",
+    ),
+    trailLength: expectNonNegative(
+      expectNumber(s.trailLength, "settings.trailLength", true),
+      "settings.trailLength",
+    ),
+    // Settings added after v2 are optional and fall back to defaults
+    interpolation:
+      INTERPOLATION_MODES.find((m) => m === s.interpolation) ??
+      DEFAULT_SETTINGS.interpolation,
+    exportInterpolated:
+      typeof s.exportInterpolated === "boolean"
+        ? s.exportInterpolated
+        : DEFAULT_SETTINGS.exportInterpolated,
+    exportCalibrated:
+      typeof s.exportCalibrated === "boolean"
+        ? s.exportCalibrated
+        : DEFAULT_SETTINGS.exportCalibrated,
+    showWorldGrid:
+      typeof s.showWorldGrid === "boolean"
+        ? s.showWorldGrid
+        : DEFAULT_SETTINGS.showWorldGrid,
+    motBoxSize:
+      typeof s.motBoxSize === "number" && s.motBoxSize > 0
+        ? s.motBoxSize
+        : DEFAULT_SETTINGS.motBoxSize,
+    dlcScorer:
+      typeof s.dlcScorer === "string" && s.dlcScorer.trim() !== ""
+        ? s.dlcScorer
+        : DEFAULT_SETTINGS.dlcScorer,
+    cocoIncludeFrames:
+      typeof s.cocoIncludeFrames === "boolean"
+        ? s.cocoIncludeFrames
+        : DEFAULT_SETTINGS.cocoIncludeFrames,
+    assistedTracking:
+      typeof s.assistedTracking === "boolean"
+        ? s.assistedTracking
+        : DEFAULT_SETTINGS.assistedTracking,
+  };
+};
+
+const validateVideo = (raw: unknown): ProjectVideoInfo | null => {
+  if (raw === null || raw === undefined) return null;
+  const v = expectRecord(raw, "video");
+  return {
+    name: expectString(v.name, "video.name"),
+    size: expectNumber(v.size, "video.size"),
+    width: expectNumber(v.width, "video.width"),
+    height: expectNumber(v.height, "video.height"),
+    duration: expectNumber(v.duration, "video.duration"),
+    fps: expectNumber(v.fps, "video.fps"),
+  };
+};
+
+const validateObject = (raw: unknown, index: number): TrackedObject => {
+  const path = `objects[${index}]`;
+  const o = expectRecord(raw, path);
+  const id = expectNumber(o.id, `${path}.id`, true);
+  const color = expectString(o.color, `${path}.color`);
+  return {
+    id,
+    name: expectString(o.name, `${path}.name`),
+    category: expectString(o.category, `${path}.category`),
+    // Tolerate hand-edited files with invalid colors
+    color: /^#[0-9a-f]{6}$/i.test(color) ? color : getDefaultObjectColor(id),
+  };
+};
+
+// A missing or unknown active object falls back to the first one
+export const getActiveObjectId = (
+  raw: unknown,
+  objects: TrackedObject[],
+): number =>
+  typeof raw === "number" && objects.some((o) => o.id === raw)
+    ? raw
+    : objects[0].id;
+
+const validatePoint = (raw: unknown, index: number): TrackPoint => {
+  const path = `points[${index}]`;
+  const p = expectRecord(raw, path);
+  const visibility = POINT_VISIBILITIES.find(
+    (v) => v === p.visibility && v !== "visible",
+  );
+  const confidence = POINT_CONFIDENCES.find((c) => c === p.confidence);
+  // Entries without a location are saved with null coordinates (JSON has no NaN)
+  const isLocated =
+    visibility !== "out-of-frame" && visibility !== "not-applicable";
+  return {
+    id: expectString(p.id, `${path}.id`),
+    timestamp: expectNumber(p.timestamp, `${path}.timestamp`),
+    objectId: expectNumber(p.objectId, `${path}.objectId`, true),
+    x: isLocated ? expectNumber(p.x, `${path}.x`) : NaN,
+    y: isLocated ? expectNumber(p.y, `${path}.y`) : NaN,
+    // Optional fields are only kept when valid
+    ...(typeof p.keypoint === "string" ? { keypoint: p.keypoint } : {}),
+    ...(typeof p.width === "number" &&
+    typeof p.height === "number" &&
+    p.width > 0 &&
+    p.height > 0
+      ? {
+          width: expectNumber(p.width, `${path}.width`),
+          height: expectNumber(p.height, `${path}.height`),
+        }
+      : {}),
+    ...(p.source === "auto" ? { source: "auto" as const } : {}),
+    ...(typeof p.likelihood === "number" && Number.isFinite(p.likelihood)
+      ? { likelihood: p.likelihood }
+      : {}),
+    ...(visibility ? { visibility } : {}),
+    ...(confidence ? { confidence } : {}),
+    ...(typeof p.note === "string" && p.note.trim() ? { note: p.note } : {}),
+  };
+};
+
+const validateKeypointSchema = (
+  raw: unknown,
+  index: number,
+): KeypointSchema => {
+  const path = `keypointSchemas[${index}]`;
+  const s = expectRecord(raw, path);
+  const keypoints = expectArray(s.keypoints, `${path}.keypoints`).map((k, i) =>
+    expectString(k, `${path}.keypoints[${i}]`),
+  );
+  const edges = expectArray(s.edges, `${path}.edges`).map((e, i) => {
+    const pair = expectArray(e, `${path}.edges[${i}]`);
+    return [
+      expectString(pair[0], `${path}.edges[${i}][0]`),
+      expectString(pair[1], `${path}.edges[${i}][1]`),
+    ] as [string, string];
+  });
+  return {
+    category: expectString(s.category, `${path}.category`),
+    keypoints,
+    // Edges between unknown keypoints cannot be drawn
+    edges: edges.filter(
+      ([a, b]) => keypoints.includes(a) && keypoints.includes(b),
+    ),
+  };
+};
+
+const validateRegion = (raw: unknown, index: number): Region => {
+  const path = `regions[${index}]`;
+  const r = expectRecord(raw, path);
+  const vertices = expectArray(r.vertices, `${path}.vertices`).map((v, i) => {
+    const vertex = expectRecord(v, `${path}.vertices[${i}]`);
+    return {
+      x: expectNumber(vertex.x, `${path}.vertices[${i}].x`),
+      y: expectNumber(vertex.y, `${path}.vertices[${i}].y`),
+    };
+  });
+  if (vertices.length < 3) {
+    throw new ProjectFileError(`"${path}" needs at least three vertices.`);
+  }
+  return {
+    id: expectNumber(r.id, `${path}.id`, true),
+    name: expectString(r.name, `${path}.name`),
+    vertices,
+  };
+};
+
+const validateCalibration = (raw: unknown): ScaleCalibration | null => {
+  if (raw === null || raw === undefined) return null;
+  const c = expectRecord(raw, "calibration");
+  const line = expectArray(c.line, "calibration.line");
+  if (line.length !== 2) {
+    throw new ProjectFileError('"calibration.line" needs two end points.');
+  }
+  const [a, b] = line.map((v, i) => {
+    const end = expectRecord(v, `calibration.line[${i}]`);
+    return {
+      x: expectNumber(end.x, `calibration.line[${i}].x`),
+      y: expectNumber(end.y, `calibration.line[${i}].y`),
+    };
+  });
+  const length = expectNumber(c.length, "calibration.length");
+  if (length <= 0 || (a.x === b.x && a.y === b.y)) {
+    throw new ProjectFileError(
+      '"calibration" needs a line and a length greater than zero.',
+    );
+  }
+  return {
+    line: [a, b],
+    length,
+    unit: expectString(c.unit, "calibration.unit"),
+  };
+};
+
+const validateControlPoint = (raw: unknown, index: number): ControlPoint => {
+  const path = `homography.points[${index}]`;
+  const p = expectRecord(raw, path);
+  const image = expectRecord(p.image, `${path}.image`);
+  const world = expectRecord(p.world, `${path}.world`);
+  return {
+    image: {
+      x: expectNumber(image.x, `${path}.image.x`),
+      y: expectNumber(image.y, `${path}.image.y`),
+    },
+    world: {
+      x: expectNumber(world.x, `${path}.world.x`),
+      y: expectNumber(world.y, `${path}.world.y`),
+    },
+  };
+};
+
+const validateHomography = (raw: unknown): HomographyCalibration | null => {
+  if (raw === null || raw === undefined) return null;
+  const h = expectRecord(raw, "homography");
+  const points = expectArray(h.points, "homography.points").map(
+    validateControlPoint,
+  );
+  if (points.length < MIN_CONTROL_POINTS) {
+    throw new ProjectFileError(
+      `"homography" needs at least ${MIN_CONTROL_POINTS} control points.`,
+    );
+  }
+  return { points, unit: expectString(h.unit, "homography.unit") };
+};
+
+const validateBehavior = (raw: unknown, index: number): Behavior => {
+  const path = `behaviors[${index}]`;
+  const b = expectRecord(raw, path);
+  const id = expectNumber(b.id, `${path}.id`, true);
+  if (b.type !== "point" && b.type !== "state") {
+    throw new ProjectFileError(`"${path}.type" must be "point" or "state".`);
+  }
+  const color = expectString(b.color, `${path}.color`);
+  return {
+    id,
+    name: expectString(b.name, `${path}.name`),
+    key: expectString(b.key, `${path}.key`),
+    type: b.type,
+    color: /^#[0-9a-f]{6}$/i.test(color) ? color : getDefaultObjectColor(id),
+  };
+};
+
+const validateEvent = (raw: unknown, index: number): BehaviorEvent => {
+  const path = `events[${index}]`;
+  const e = expectRecord(raw, path);
+  const timestamp = expectNumber(e.timestamp, `${path}.timestamp`);
+  return {
+    behaviorId: expectNumber(e.behaviorId, `${path}.behaviorId`, true),
+    objectId: expectNumber(e.objectId, `${path}.objectId`, true),
+    timestamp,
+    // Stops before the start are dropped, the state then runs on
+    ...(typeof e.end === "number" && e.end > timestamp ? { end: e.end } : {}),
+  };
+};
+
+/**
+ * Validates project content, of a project file or of an autosaved session.
+ * @throws {ProjectFileError} if a field is missing or malformed.
+ */
+export const validateProjectData = (raw: unknown): ProjectData => {
+  const r = expectRecord(raw, "project");
+  const objects = expectArray(r.objects, "objects").map(validateObject);
+  if (objects.length === 0) {
+    throw new ProjectFileError("The project must define at least one object.");
+  }
+  const knownIds = new Set<number>();
+  for (const o of objects) {
+    if (knownIds.has(o.id)) {
+      throw new ProjectFileError(`Object ${o.id} is defined twice.`);
+    }
+    knownIds.add(o.id);
+  }
+
+  const points = expectArray(r.points, "points").map(validatePoint);
+  const orphan = points.find((p) => !knownIds.has(p.objectId));
+  if (orphan) {
+    throw new ProjectFileError(
+      `Point "${orphan.id}" references unknown object ${orphan.objectId}.`,
+    );
+  }
+  // One location per frame, object and keypoint
+  const pointKeys = new Set<string>();
+  for (const p of points) {
+    const key = getPointId(p.timestamp, p.objectId, p.keypoint);
+    if (pointKeys.has(key)) {
+      const keypoint = p.keypoint === undefined ? "" : ` (${p.keypoint})`;
+      throw new ProjectFileError(
+        `Object ${p.objectId}${keypoint} has two points at ${p.timestamp} ms.`,
+      );
+    }
+    pointKeys.add(key);
+  }
+
+  const behaviors = expectArray(r.behaviors, "behaviors").map(validateBehavior);
+  const events = expectArray(r.events, "events").map(validateEvent);
+  const behaviorIds = new Set(behaviors.map((b) => b.id));
+  const orphanEvent = events.find(
+    (e) => !behaviorIds.has(e.behaviorId) || !knownIds.has(e.objectId),
+  );
+  if (orphanEvent) {
+    throw new ProjectFileError(
+      `An event at ${orphanEvent.timestamp} ms references an unknown behavior or object.`,
+    );
+  }
+
+  return {
+    points,
+    objects,
+    keypointSchemas: expectArray(r.keypointSchemas, "keypointSchemas").map(
+      validateKeypointSchema,
+    ),
+    regions: expectArray(r.regions, "regions").map(validateRegion),
+    calibration: validateCalibration(r.calibration),
+    homography: validateHomography(r.homography),
+    behaviors,
+    events,
+  };
+};
+
+const validateProject = (raw: Record<string, unknown>): ProjectFile => {
+  const data = validateProjectData(raw);
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_FORMAT_VERSION,
+    savedAt: expectString(raw.savedAt, "savedAt"),
+    video: validateVideo(raw.video),
+    settings: validateSettings(raw.settings),
+    objects: data.objects,
+    keypointSchemas: data.keypointSchemas,
+    regions: data.regions,
+    calibration: data.calibration,
+    homography: data.homography,
+    behaviors: data.behaviors,
+    events: data.events,
+    activeObjectId: getActiveObjectId(raw.activeObjectId, data.objects),
+    points: data.points,
+  };
+};
+
+/**
+ * Parses a project file, upgrading older format versions to the current one.
+ * @throws {ProjectFileError} if the file is not a valid project or comes from a newer app version.
+ */
+export const parseProject = (text: string): ProjectFile => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ProjectFileError("The file is not valid JSON.");
+  }
+
+  if (!isRecord(raw) || raw.format !== PROJECT_FORMAT) {
+    throw new ProjectFileError("The file is not a click&track project.");
+  }
+
+  let version = expectNumber(raw.version, "version", true);
+  if (version > PROJECT_FORMAT_VERSION) {
+    throw new ProjectFileError(
+      `The project was saved with a newer version of click&track (format v${version}, this version reads up to v${PROJECT_FORMAT_VERSION}). Please update the app to open it.`,
+    );
+  }
+
+  let migrated: Record<string, unknown> = raw;
+  while (version < PROJECT_FORMAT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new ProjectFileError(`Unsupported project format v${version}.`);
+    }
+    migrated = migrate(migrated);
+    version += 1;
+  }
+
+  return validateProject(migrated);
+};
+
+/**
+ * Converts a parsed project file back into undoable project content.
+ */
+export const projectFileToData = (file: ProjectFile): ProjectData => ({
+  points: file.points,
+  objects: [...file.objects].sort((a, b) => a.id - b.id),
+  keypointSchemas: file.keypointSchemas,
+  regions: file.regions,
+  calibration: file.calibration,
+  homography: file.homography,
+  behaviors: file.behaviors,
+  events: file.events,
+});
@@ -0,0 +1,135 @@
+import { AppSettings, ProjectData } from "@/types";
+import { completeObjectTable } from "@/utils";
+import {
+  ProjectFileError,
+  getActiveObjectId,
+  validateProjectData,
+  validateSettings,
+} from "@/services/projectFile";
+
+const DB_NAME = "click-and-track";
+const DB_VERSION = 1;
+const STORE_NAME = "sessions";
+
+export interface StoredSession {
+  fingerprint: string; // Key: identifies the video the session belongs to
+  savedAt: number; // Epoch ms
+  project: ProjectData;
+  settings: AppSettings;
+  activeObjectId: number;
+}
+
+/**
+ * Builds a key that identifies a video file across page loads.
+ * File handles cannot be persisted, so name, size and duration act as a stand-in.
+ */
+export const getVideoFingerprint = (file: File, durationMs: number): string =>
+  `${file.name}|${file.size}|${Math.round(durationMs)}`;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: "fingerprint" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        // Allow a retry on the next call (e.g. private mode restrictions lifted)
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+// Wraps a single-request transaction in a Promise that settles on commit
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode);
+    const request = action(tx.objectStore(STORE_NAME));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+/**
+ * Checks a stored record and brings sessions of older app versions up to date.
+ * @throws {ProjectFileError} if the record or its project is malformed.
+ */
+const upgradeSession = (raw: unknown): StoredSession => {
+  if (
+    !isRecord(raw) ||
+    typeof raw.fingerprint !== "string" ||
+    typeof raw.savedAt !== "number" ||
+    !isRecord(raw.project)
+  ) {
+    throw new ProjectFileError("The stored session is malformed.");
+  }
+  const { project } = raw;
+  // Sessions written before the object registry existed only stored a count
+  const objects = Array.isArray(project.objects)
+    ? project.objects
+    : completeObjectTable(
+        [],
+        Array.from(
+          {
+            length:
+              typeof project.numObjects === "number"
+                ? Math.max(1, project.numObjects)
+                : 1,
+          },
+          (_, i) => i + 1,
+        ),
+      );
+  const data = validateProjectData({
+    // Sessions stored before keypoint schemas, regions, calibrations and the ethogram existed
+    keypointSchemas: [],
+    regions: [],
+    calibration: null,
+    homography: null,
+    behaviors: [],
+    events: [],
+    ...project,
+    points: project.points ?? [],
+    objects,
+  });
+  return {
+    fingerprint: raw.fingerprint,
+    savedAt: raw.savedAt,
+    project: data,
+    settings: validateSettings(raw.settings),
+    activeObjectId: getActiveObjectId(raw.activeObjectId, data.objects),
+  };
+};
+
+export async function loadSession(
+  fingerprint: string,
+): Promise<StoredSession | null> {
+  const result = await withStore<unknown>("readonly", (s) =>
+    s.get(fingerprint),
+  );
+  return result === undefined ? null : upgradeSession(result);
+}
+
+export async function saveSession(session: StoredSession): Promise<void> {
+  await withStore("readwrite", (s) => s.put(session));
+}
+
+export async function deleteSession(fingerprint: string): Promise<void> {
+  await withStore("readwrite", (s) => s.delete(fingerprint));
+}
@@ -0,0 +1,134 @@
+export interface GrayImage {
+  data: Float32Array; // Luminance, row-major
+  width: number;
+  height: number;
+}
+
+export interface MatchResult {
+  x: number; // Top-left offset of the best match inside the search image (sub-pixel)
+  y: number;
+  score: number; // Normalized cross-correlation in [-1, 1]
+}
+
+// Messages exchanged with templateMatching.worker.ts (RGBA buffers are transferred)
+export interface MatchRequest {
+  id: number;
+  template: { data: Uint8ClampedArray; width: number; height: number };
+  search: { data: Uint8ClampedArray; width: number; height: number };
+}
+
+export interface MatchResponse {
+  id: number;
+  result: MatchResult;
+}
+
+export const toGrayscale = (
+  rgba: Uint8ClampedArray,
+  width: number,
+  height: number,
+): GrayImage => {
+  const data = new Float32Array(width * height);
+  for (let i = 0, j = 0; i < data.length; i++, j += 4) {
+    // ITU-R BT.601 luma
+    data[i] = 0.299 * rgba[j] + 0.587 * rgba[j + 1] + 0.114 * rgba[j + 2];
+  }
+  return { data, width, height };
+};
+
+// Summed-area table with one row/column of zero padding
+const integralImage = (img: GrayImage, squared: boolean): Float64Array => {
+  const w = img.width + 1;
+  const table = new Float64Array(w * (img.height + 1));
+  for (let y = 0; y < img.height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < img.width; x++) {
+      const v = img.data[y * img.width + x];
+      rowSum += squared ? v * v : v;
+      table[(y + 1) * w + x + 1] = table[y * w + x + 1] + rowSum;
+    }
+  }
+  return table;
+};
+
+// Vertex of the parabola through three samples, as offset from the center sample
+const parabolicOffset = (left: number, center: number, right: number) => {
+  const denom = left - 2 * center + right;
+  if (denom >= 0) return 0; // Not a maximum
+  return Math.max(-0.5, Math.min(0.5, (left - right) / (2 * denom)));
+};
+
+/**
+ * Finds the position of `template` inside `search` by zero-mean normalized cross-correlation.
+ * Window statistics come from integral images, so only the cross term is computed per offset.
+ * A textureless template cannot be matched and yields a score of 0.
+ */
+export const matchTemplate = (
+  template: GrayImage,
+  search: GrayImage,
+): MatchResult => {
+  const tw = template.width;
+  const th = template.height;
+  const cols = search.width - tw + 1;
+  const rows = search.height - th + 1;
+  if (cols <= 0 || rows <= 0) return { x: 0, y: 0, score: 0 };
+
+  const n = tw * th;
+  let mean = 0;
+  for (let i = 0; i < n; i++) mean += template.data[i];
+  mean /= n;
+
+  const zeroMean = new Float32Array(n);
+  let templateVar = 0;
+  for (let i = 0; i < n; i++) {
+    zeroMean[i] = template.data[i] - mean;
+    templateVar += zeroMean[i] * zeroMean[i];
+  }
+  if (templateVar < 1e-6) return { x: 0, y: 0, score: 0 };
+
+  const sum = integralImage(search, false);
+  const sumSq = integralImage(search, true);
+  const iw = search.width + 1;
+  const windowSum = (table: Float64Array, x: number, y: number) =>
+    table[(y + th) * iw + x + tw] -
+    table[y * iw + x + tw] -
+    table[(y + th) * iw + x] +
+    table[y * iw + x];
+
+  const scores = new Float32Array(cols * rows);
+  let best = 0;
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < cols; x++) {
+      const s = windowSum(sum, x, y);
+      const windowVar = windowSum(sumSq, x, y) - (s * s) / n;
+      let score = 0;
+      if (windowVar > 1e-6) {
+        // sum((S - meanS) * T') equals sum(S * T'), since T' has zero mean
+        let cross = 0;
+        for (let ty = 0; ty < th; ty++) {
+          const row = (y + ty) * search.width + x;
+          const trow = ty * tw;
+          for (let tx = 0; tx < tw; tx++) {
+            cross += search.data[row + tx] * zeroMean[trow + tx];
+          }
+        }
+        score = cross / Math.sqrt(windowVar * templateVar);
+      }
+      scores[y * cols + x] = score;
+      if (score > scores[best]) best = y * cols + x;
+    }
+  }
+
+  const bx = best % cols;
+  const by = Math.floor(best / cols);
+  const at = (x: number, y: number) => scores[y * cols + x];
+  const dx =
+    bx > 0 && bx < cols - 1
+      ? parabolicOffset(at(bx - 1, by), at(bx, by), at(bx + 1, by))
+      : 0;
+  const dy =
+    by > 0 && by < rows - 1
+      ? parabolicOffset(at(bx, by - 1), at(bx, by), at(bx, by + 1))
+      : 0;
+
+  return { x: bx + dx, y: by + dy, score: scores[best] };
+};
@@ -0,0 +1,17 @@
+import {
+  MatchRequest,
+  MatchResponse,
+  matchTemplate,
+  toGrayscale,
+} from "@/services/templateMatching";
+
+// Runs the correlation off the main thread, so playback and drawing stay responsive
+self.onmessage = (e: MessageEvent<MatchRequest>) => {
+  const { id, template, search } = e.data;
+  const result = matchTemplate(
+    toGrayscale(template.data, template.width, template.height),
+    toGrayscale(search.data, search.width, search.height),
+  );
+  const response: MatchResponse = { id, result };
+  self.postMessage(response);
+};
@@ -0,0 +1,124 @@
+import { Behavior, BehaviorEvent, TrackPoint, TrackedObject } from "@/types";
+import { createObject, getFrameIndex } from "@/utils";
+import { coalesceBehaviorEvents } from "@/services/ethogram";
+import {
+  ConflictResolution,
+  findConflicts,
+  mergePoints,
+  remapPoints,
+} from "@/services/importMerge";
+
+// Points, objects and coded behavior events after an object-level edit
+export interface Tracks {
+  points: TrackPoint[];
+  objects: TrackedObject[];
+  events: BehaviorEvent[];
+}
+
+/**
+ * Removes an object with all of its points and events. With `renumber`, the objects after it move
+ * down by one ID so the IDs stay contiguous. The table never ends up empty.
+ */
+export const deleteObjectTrack = (
+  { points, objects, events }: Tracks,
+  id: number,
+  renumber: boolean,
+): Tracks => {
+  const shift = (objectId: number) =>
+    renumber && objectId > id ? objectId - 1 : objectId;
+  const remaining = objects
+    .filter((o) => o.id !== id)
+    .map((o) => ({ ...o, id: shift(o.id) }));
+  return {
+    points: remapPoints(
+      points.filter((p) => p.objectId !== id),
+      new Map(objects.map((o) => [o.id, shift(o.id)])),
+    ),
+    objects: remaining.length > 0 ? remaining : [createObject(1)],
+    events: events
+      .filter((e) => e.objectId !== id)
+      .map((e) => ({ ...e, objectId: shift(e.objectId) })),
+  };
+};
+
+// Points of `sourceId` on frames where `targetId` already has the same (key)point
+export const countMergeConflicts = (
+  { points }: Pick<Tracks, "points">,
+  sourceId: number,
+  targetId: number,
+  fps: number,
+): number =>
+  findConflicts(
+    points.filter((p) => p.objectId === targetId),
+    remapPoints(
+      points.filter((p) => p.objectId === sourceId),
+      new Map([[sourceId, targetId]]),
+    ),
+    fps,
+  ).length;
+
+/**
+ * Moves all points and events of `sourceId` to `targetId` (e.g. two fragments of the
+ * same animal) and removes the source object. Conflicting points keep the target's point ("existing")
+ * or take the source's point ("incoming"). Overlapping states of a behavior are joined.
+ */
+export const mergeObjectTracks = (
+  { points, objects, events }: Tracks,
+  sourceId: number,
+  targetId: number,
+  resolution: ConflictResolution,
+  fps: number,
+  behaviors: Behavior[],
+): Tracks => {
+  const source = remapPoints(
+    points.filter((p) => p.objectId === sourceId),
+    new Map([[sourceId, targetId]]),
+  );
+  const rest = points.filter((p) => p.objectId !== sourceId);
+  const conflicts = findConflicts(rest, source, fps);
+  return {
+    points: mergePoints(
+      rest,
+      source,
+      fps,
+      new Map(conflicts.map((c) => [c.key, resolution])),
+    ),
+    objects: objects.filter((o) => o.id !== sourceId),
+    events: coalesceBehaviorEvents(
+      events.map((e) =>
+        e.objectId === sourceId ? { ...e, objectId: targetId } : e,
+      ),
+      behaviors,
+    ),
+  };
+};
+
+/**
+ * Moves the points and events of an object from `from` (ms) onward to a new object
+ * `newId` with the same category (so its keypoint schema still applies).
+ * States that started before the split stay with the original object.
+ */
+export const splitObjectTrack = (
+  { points, objects, events }: Tracks,
+  id: number,
+  newId: number,
+  from: number,
+  fps: number,
+): Tracks => {
+  const firstFrame = getFrameIndex(from, fps);
+  const mapping = new Map([[id, newId]]);
+  const category = objects.find((o) => o.id === id)?.category ?? "";
+  return {
+    points: points.map((p) =>
+      p.objectId === id && getFrameIndex(p.timestamp, fps) >= firstFrame
+        ? remapPoints([p], mapping)[0]
+        : p,
+    ),
+    objects: [...objects, createObject(newId, { category })],
+    events: events.map((e) =>
+      e.objectId === id && getFrameIndex(e.timestamp, fps) >= firstFrame
+        ? { ...e, objectId: newId }
+        : e,
+    ),
+  };
+};
@@ -0,0 +1,121 @@
+export interface ZipEntry {
+  name: string; // Path inside the archive, e.g. "images/img0042.png"
+  data: Uint8Array<ArrayBuffer>;
+}
+
+// Limits of the classic format; ZIP64 records are not written
+export const MAX_ZIP_ENTRIES = 0xffff;
+const MAX_ZIP_OFFSET = 0xffffffff; // Sizes and offsets are 32-bit (4 GiB)
+
+export class ZipLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ZipLimitError";
+  }
+}
+
+const TOO_LARGE =
+  "The archive would be larger than 4 GiB, the limit of the ZIP format.";
+
+let crcTable: Uint32Array | null = null;
+
+const crc32 = (data: Uint8Array): number => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date and time fields of the archive entries
+const toDosDateTime = (date: Date) => ({
+  time:
+    (date.getHours() << 11) |
+    (date.getMinutes() << 5) |
+    Math.floor(date.getSeconds() / 2),
+  date:
+    ((date.getFullYear() - 1980) << 9) |
+    ((date.getMonth() + 1) << 5) |
+    date.getDate(),
+});
+
+/**
+ * Packs files into a ZIP archive without compression ("stored").
+ * Frame images are already compressed, so deflating them would gain little.
+ * @throws {ZipLimitError} beyond 65535 entries or 4 GiB.
+ */
+export const createZip = (entries: ZipEntry[]): Blob => {
+  if (entries.length > MAX_ZIP_ENTRIES) {
+    throw new ZipLimitError(
+      `The archive would hold ${entries.length} files, the ZIP format allows ${MAX_ZIP_ENTRIES}.`,
+    );
+  }
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(new Date());
+  const parts: BlobPart[] = [];
+  const central: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+
+  entries.forEach(({ name, data }) => {
+    const fileName = encoder.encode(name);
+    if (offset > MAX_ZIP_OFFSET || data.length > MAX_ZIP_OFFSET) {
+      throw new ZipLimitError(TOO_LARGE);
+    }
+    const crc = crc32(data);
+
+    // Fields shared by the local file header and the central directory
+    const common = (view: DataView, at: number) => {
+      view.setUint16(at, 20, true); // Version needed to extract (2.0)
+      view.setUint16(at + 2, 0x0800, true); // Flags: UTF-8 file names
+      view.setUint16(at + 4, 0, true); // Method: stored
+      view.setUint16(at + 6, time, true);
+      view.setUint16(at + 8, date, true);
+      view.setUint32(at + 10, crc, true);
+      view.setUint32(at + 14, data.length, true); // Compressed size
+      view.setUint32(at + 18, data.length, true); // Uncompressed size
+      view.setUint16(at + 22, fileName.length, true);
+      view.setUint16(at + 24, 0, true); // Extra field length
+    };
+
+    const local = new Uint8Array(30 + fileName.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    common(localView, 4);
+    local.set(fileName, 30);
+
+    const header = new Uint8Array(46 + fileName.length);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, 0x02014b50, true);
+    headerView.setUint16(4, 20, true); // Version made by
+    common(headerView, 6);
+    // Comment length, disk number, internal and external attributes stay 0
+    headerView.setUint32(42, offset, true);
+    header.set(fileName, 46);
+
+    parts.push(local, data);
+    central.push(header);
+    offset += local.length + data.length;
+  });
+
+  const centralSize = central.reduce((acc, h) => acc + h.length, 0);
+  if (offset > MAX_ZIP_OFFSET || centralSize > MAX_ZIP_OFFSET) {
+    throw new ZipLimitError(TOO_LARGE);
+  }
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true); // Entries on this disk
+  endView.setUint16(10, entries.length, true); // Entries in total
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end], { type: "application/zip" });
+};
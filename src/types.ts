@@ -4,12 +4,175 @@ export interface TrackPoint {
   objectId: number;
   x: number; // Video coordinate space
   y: number; // Video coordinate space
+  keypoint?: string; // Keypoint name, absent for objects tracked as a single point
+  width?: number; // Bounding box size (px), the box is centered on x/y
+  height?: number;
+  interpolated?: boolean; // Derived between logged keyframes, never stored in the project
+  suggested?: boolean; // Proposed by assisted tracking, not yet accepted
+  source?: PointSource; // Absent for points logged by hand
+  likelihood?: number; // Confidence of an imported pose-estimation prediction
+  visibility?: PointVisibility; // Absent = visible
+  confidence?: PointConfidence; // Annotator's own rating, absent = not rated
+  note?: string; // Free-text remark, e.g. why the position is uncertain
+}
+
+export type PointSource = 'manual' | 'auto';
+
+// "occluded": hidden, but the location is an estimate.
+// "out-of-frame" and "not-applicable" entries have no location (x/y are NaN).
+export type PointVisibility =
+  | 'visible'
+  | 'occluded'
+  | 'out-of-frame'
+  | 'not-applicable';
+
+export type PointConfidence = 'low' | 'medium' | 'high';
+
+export type InterpolationMode = 'none' | 'linear' | 'cubic';
+
+export interface TrackedObject {
+  id: number; // Matches TrackPoint.objectId
+  name: string; // Empty = show the numeric id
+  category: string; // Free text, e.g. "male", "female", "ball"
+  color: string; // Hex color used for all markers of this object
+}
+
+// Named keypoints (and skeleton edges between them) for all objects of a category
+export interface KeypointSchema {
+  category: string; // Matches TrackedObject.category
+  keypoints: string[]; // Logging order
+  edges: [string, string][]; // Pairs of keypoint names
+}
+
+// Named polygon in video coordinates (e.g. arena zones such as "center" or "shelter")
+export interface Region {
+  id: number;
+  name: string;
+  vertices: { x: number; y: number }[]; // At least three, implicitly closed
+}
+
+// Pixel-to-world scale from a reference line of known length (e.g. a ruler in the frame)
+export interface ScaleCalibration {
+  line: [{ x: number; y: number }, { x: number; y: number }]; // Video coordinates
+  length: number; // Real length of the line
+  unit: string; // e.g. "mm"
+}
+
+// Image location with known world coordinates (e.g. an arena corner)
+export interface ControlPoint {
+  image: { x: number; y: number }; // Video coordinates
+  world: { x: number; y: number }; // Real-world units
+}
+
+// Perspective calibration of a plane filmed at an angle; the 3x3 transform is solved from the points
+export interface HomographyCalibration {
+  points: ControlPoint[]; // At least four
+  unit: string;
+}
+
+// Entry of the ethogram (user-defined behavior list), coded with a single key
+export interface Behavior {
+  id: number;
+  name: string; // e.g. "grooming"
+  key: string; // Lowercase letter or digit that is not an app shortcut
+  type: BehaviorType;
+  color: string; // Hex color on the timeline
+}
+
+// Point: an instant (e.g. "attack"); state: lasts from a start to a stop (e.g. "grooming")
+export type BehaviorType = 'point' | 'state';
+
+// Coded occurrence of a behavior for one object
+export interface BehaviorEvent {
+  behaviorId: number; // Matches Behavior.id
+  objectId: number; // Matches TrackedObject.id
+  timestamp: number; // ms (frame time); start of state events
+  end?: number; // ms, stop of state events; absent while the state is still running
+}
+
+// Undoable project content (one snapshot per history entry)
+export interface ProjectData {
+  points: TrackPoint[];
+  objects: TrackedObject[]; // Sorted by id
+  keypointSchemas: KeypointSchema[];
+  regions: Region[];
+  calibration: ScaleCalibration | null;
+  homography: HomographyCalibration | null;
+  behaviors: Behavior[];
+  events: BehaviorEvent[];
+}
+
+// Geometry being placed on the canvas, one click per vertex
+export interface ShapeDraft {
+  kind: 'region' | 'calibration' | 'homography';
+  vertices: { x: number; y: number }[];
+}
+
+// Two objects picked on the canvas to exchange their identities
+export interface IdentitySwap {
+  firstId: number | null; // Null until the first marker is clicked
 }
 
 export interface AppSettings {
   samplingRateNum: number;
   samplingRateDen: number;
   trailLength: number;
+  interpolation: InterpolationMode;
+  exportInterpolated: boolean; // Include interpolated rows (flagged) in CSV exports
+  exportCalibrated: boolean; // Add real-world columns to CSV exports when the project is calibrated
+  showWorldGrid: boolean; // Draw the projected world grid of the homography calibration
+  motBoxSize: number; // Box size (px) of points without a box in MOTChallenge exports
+  dlcScorer: string; // Scorer name of DeepLabCut label exports
+  cocoIncludeFrames: boolean; // Bundle the frame images with COCO exports (ZIP)
+  assistedTracking: boolean; // Propose the next position of the active object by template matching
+}
+
+export type TimeUnit = 'ms' | 's' | 'frame';
+
+// Columns of a delimited file to import (indices, -1 = not mapped)
+export interface CSVColumnMapping {
+  delimiter: string;
+  hasHeader: boolean;
+  time: number;
+  timeUnit: TimeUnit;
+  objectId: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  name: number;
+  category: number;
+  color: number;
+  visibility: number;
+  confidence: number;
+  note: number;
+  interpolated: number; // Rows flagged with 1 are derived data and skipped
+  keypoints: boolean; // Import the "<name>_x,<name>_y" column pairs of the header
+}
+
+export interface RejectedRow {
+  line: number; // 1-based line in the file
+  reason: string;
+}
+
+export interface VideoMetadata {
+  duration: number; // ms
+  width: number;
+  height: number;
+}
+
+// Inclusive time range in ms, e.g. selected on the timeline
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+// Axis-aligned region in video pixel coordinates
+export interface PixelRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 }
 
 export interface ViewTransform {
@@ -18,13 +181,25 @@ export interface ViewTransform {
   scale: number;
 }
 
+export type BoxCorner = 'nw' | 'ne' | 'sw' | 'se';
+
 export interface UIElement {
-  type: 'circle' | 'square';
+  type: 'circle' | 'square' | 'line' | 'box' | 'handle';
   pos: { x: number; y: number };
+  pos2?: { x: number; y: number }; // End point of lines (skeleton edges)
+  pointId?: string; // Id of the TrackPoint drawn by this element
+  size?: { w: number; h: number }; // Box size (centered on pos)
+  corner?: BoxCorner; // Resize handle of a box
   objectId: number;
   radius: number;
   color: string;
   isCurrent: boolean;
+  isActive: boolean; // Belongs to the active object (drawn with a halo)
+  isInterpolated?: boolean; // Drawn translucent with a dashed outline
+  isSuggestion?: boolean; // Drawn as an open ring until accepted
+  isAuto?: boolean; // Written by the auto-tracker (drawn with a dark center)
+  isUncertain?: boolean; // Low-likelihood prediction (drawn with a dashed warning ring)
+  isOccluded?: boolean; // Estimated location of a hidden object (drawn hollow)
   label?: string;
   fontSize?: number;
   sortKey: number;
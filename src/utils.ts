@@ -1,4 +1,30 @@
-import { TrackPoint } from "@/types";
+import {
+  AppSettings,
+  CSVColumnMapping,
+  KeypointSchema,
+  PointConfidence,
+  PointVisibility,
+  Region,
+  RejectedRow,
+  ScaleCalibration,
+  TimeUnit,
+  TrackPoint,
+  TrackedObject,
+} from "@/types";
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  samplingRateNum: 1,
+  samplingRateDen: 1,
+  trailLength: 5,
+  interpolation: "none",
+  exportInterpolated: false,
+  exportCalibrated: true,
+  showWorldGrid: false,
+  assistedTracking: false,
+  motBoxSize: 20,
+  dlcScorer: "click-and-track",
+  cocoIncludeFrames: false,
+};
 
 export const formatTime = (ms: number, fps: number): string => {
   ms = getFrameTime(getFrameIndex(ms, fps), fps);
@@ -31,6 +57,29 @@ export const getFrameTime = (frameIndex: number, fps: number): number => {
   return (frameIndex * 1000) / fps;
 };
 
+/**
+ * Number of frames between two sampling frames (at least 1).
+ */
+export const getSamplingIntervalFrames = (
+  fps: number,
+  rateNum: number, // Sampling Rate Numerator (samples)
+  rateDen: number, // Sampling Rate Denominator (seconds)
+): number => {
+  // Interval (sec) = Den / Num.
+  // Interval (frames) = (Den / Num) * FPS.
+  const intervalSec = rateDen / rateNum;
+  return Math.max(1, Math.round(intervalSec * fps));
+};
+
+/**
+ * File name of an extracted frame image, zero-padded to the digits of the frame count
+ * (e.g. "img0042.png" for a video of 1000 to 9999 frames, as DeepLabCut names them).
+ */
+export const getFrameFileName = (frame: number, frameCount: number): string => {
+  const digits = Math.max(1, Math.ceil(Math.log10(Math.max(1, frameCount))));
+  return `img${String(frame).padStart(digits, "0")}.png`;
+};
+
 /**
  * Determines if a given timestamp aligns with the configured sampling rate.
  * Uses frame indices to ensure robustness against floating point time drift.
@@ -43,58 +92,877 @@ export const isTrackingFrame = (
 ): boolean => {
   if (fps <= 0) return false;
 
-  // Calculate the interval in frames.
-  // Interval (sec) = Den / Num.
-  // Interval (frames) = (Den / Num) * FPS.
-  const intervalSec = rateDen / rateNum;
-  const intervalFrames = Math.round(intervalSec * fps);
-
-  if (intervalFrames <= 0) return true; // Every frame
-
+  const intervalFrames = getSamplingIntervalFrames(fps, rateNum, rateDen);
   const currentFrame = getFrameIndex(timestampMs, fps);
   return currentFrame % intervalFrames === 0;
 };
 
-// Parse CSV to Points
-export const parseCSV = (csvText: string): TrackPoint[] => {
-  const lines = csvText.split("\n");
+/**
+ * Id of a point record. There is at most one record per object (and keypoint) per frame.
+ */
+export const getPointId = (
+  timestamp: number,
+  objectId: number,
+  keypoint?: string,
+): string =>
+  keypoint === undefined
+    ? `${timestamp}-${objectId}`
+    : `${timestamp}-${objectId}-${keypoint}`;
+
+/**
+ * Turns a displayed point into a point confirmed by hand, e.g. after a drag:
+ * drops the interpolation/suggestion flags, the auto-tracking marker and the likelihood.
+ */
+export const toManualPoint = ({
+  interpolated: _interpolated,
+  suggested: _suggested,
+  source: _source,
+  likelihood: _likelihood,
+  ...point
+}: TrackPoint): TrackPoint => point;
+
+// Imported predictions below this likelihood are flagged for review (DeepLabCut's default p-cutoff)
+export const LOW_LIKELIHOOD = 0.6;
+
+export const isLowLikelihood = (point: TrackPoint): boolean =>
+  point.likelihood !== undefined && point.likelihood < LOW_LIKELIHOOD;
+
+// --- Visibility ---
+
+export const POINT_VISIBILITIES: PointVisibility[] = [
+  "visible",
+  "occluded",
+  "out-of-frame",
+  "not-applicable",
+];
+
+export const VISIBILITY_LABELS: Record<PointVisibility, string> = {
+  visible: "visible",
+  occluded: "occluded",
+  "out-of-frame": "out of frame",
+  "not-applicable": "not applicable",
+};
+
+// Out-of-frame and not-applicable entries are records without a location
+export const hasLocation = (point: { x: number; y: number }): boolean =>
+  Number.isFinite(point.x) && Number.isFinite(point.y);
+
+// "visible" is the default and not stored
+export const withVisibility = (
+  { visibility: _visibility, ...point }: TrackPoint,
+  visibility: PointVisibility,
+): TrackPoint => (visibility === "visible" ? point : { ...point, visibility });
+
+// --- Confidence & Notes ---
+
+export const POINT_CONFIDENCES: PointConfidence[] = ["low", "medium", "high"];
+
+// Points to revisit during review: rated low or annotated
+export const isFlaggedPoint = (point: TrackPoint): boolean =>
+  point.confidence === "low" || point.note !== undefined;
+
+// Unrated confidence and blank notes are not stored
+export const withAnnotation = (
+  { confidence: _confidence, note: _note, ...point }: TrackPoint,
+  confidence: PointConfidence | undefined,
+  note: string,
+): TrackPoint => ({
+  ...point,
+  ...(confidence ? { confidence } : {}),
+  ...(note.trim() ? { note: note.trim() } : {}),
+});
+
+// --- Objects ---
+
+// Qualitative palette (ColorBrewer Set2/Dark2 based), first entries match the app accents
+export const OBJECT_PALETTE = [
+  "#EF8A62",
+  "#67A9CF",
+  "#66C2A5",
+  "#E78AC3",
+  "#FFD92F",
+  "#A6D854",
+  "#8DA0CB",
+  "#E5C494",
+  "#D95F02",
+  "#1B9E77",
+  "#E7298A",
+  "#B3B3B3",
+];
+
+export const getDefaultObjectColor = (objectId: number): string =>
+  OBJECT_PALETTE[(Math.max(1, objectId) - 1) % OBJECT_PALETTE.length];
+
+export const createObject = (
+  id: number,
+  overrides: Partial<Omit<TrackedObject, "id">> = {},
+): TrackedObject => ({
+  id,
+  name: "",
+  category: "",
+  color: getDefaultObjectColor(id),
+  ...overrides,
+});
+
+// Display label for markers and controls (falls back to the numeric id)
+export const getObjectLabel = (
+  objectId: number,
+  object?: TrackedObject,
+): string => object?.name.trim() || objectId.toString();
+
+/**
+ * Returns a sorted object table containing every id in `ids`.
+ * Existing entries are kept, missing ones are created with defaults.
+ */
+export const completeObjectTable = (
+  objects: TrackedObject[],
+  ids: Iterable<number>,
+): TrackedObject[] => {
+  const byId = new Map(objects.map((o) => [o.id, o]));
+  for (const id of ids) {
+    if (!byId.has(id)) byId.set(id, createObject(id));
+  }
+  return [...byId.values()].sort((a, b) => a.id - b.id);
+};
+
+// --- Bounding Boxes ---
+
+export const hasBox = (
+  p: TrackPoint,
+): p is TrackPoint & { width: number; height: number } =>
+  p.width !== undefined && p.height !== undefined;
+
+// --- Regions ---
+
+// Even-odd ray casting; points on an edge may fall on either side
+export const isInsidePolygon = (
+  x: number,
+  y: number,
+  vertices: { x: number; y: number }[],
+): boolean => {
+  let inside = false;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const a = vertices[i];
+    const b = vertices[j];
+    if (
+      a.y > y !== b.y > y &&
+      x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Names of all regions containing a position (regions may overlap)
+export const getRegionNames = (
+  x: number,
+  y: number,
+  regions: Region[],
+): string[] =>
+  regions
+    .filter((r) => isInsidePolygon(x, y, r.vertices))
+    .map((r) => r.name || `region ${r.id}`);
+
+// --- Calibration ---
+
+export const getLineLength = ([a, b]: ScaleCalibration["line"]): number =>
+  Math.hypot(b.x - a.x, b.y - a.y);
+
+// Real-world units per video pixel
+export const getUnitsPerPixel = (calibration: ScaleCalibration): number =>
+  calibration.length / getLineLength(calibration.line);
+
+// Video coordinates scaled to real-world units (origin stays at the top-left corner)
+export const toCalibrated = (
+  pos: { x: number; y: number },
+  calibration: ScaleCalibration,
+): { x: number; y: number } => {
+  const scale = getUnitsPerPixel(calibration);
+  return { x: pos.x * scale, y: pos.y * scale };
+};
+
+// --- Keypoints ---
+
+// Schema for an object's category, if it defines any keypoints
+export const getKeypointSchema = (
+  schemas: KeypointSchema[],
+  object?: TrackedObject,
+): KeypointSchema | undefined => {
+  const category = object?.category.trim();
+  if (!category) return undefined;
+  return schemas.find((s) => s.category === category && s.keypoints.length > 0);
+};
+
+/**
+ * Adds schemas for categories whose objects carry keypoints but have no schema yet
+ * (e.g. after a CSV import). Keypoints are ordered by first appearance.
+ */
+export const inferKeypointSchemas = (
+  schemas: KeypointSchema[],
+  points: TrackPoint[],
+  objects: TrackedObject[],
+): KeypointSchema[] => {
+  const categoryOf = new Map(objects.map((o) => [o.id, o.category.trim()]));
+  const found = new Map<string, string[]>();
+  points.forEach((p) => {
+    const category = categoryOf.get(p.objectId);
+    if (p.keypoint === undefined || !category) return;
+    if (schemas.some((s) => s.category === category)) return;
+    const list = found.get(category) ?? [];
+    if (!list.includes(p.keypoint)) list.push(p.keypoint);
+    found.set(category, list);
+  });
+  if (found.size === 0) return schemas;
+  return [
+    ...schemas,
+    ...[...found].map(([category, keypoints]) => ({
+      category,
+      keypoints,
+      edges: [],
+    })),
+  ];
+};
+
+// --- CSV ---
+
+export const escapeCSVField = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Splits delimited text into rows of fields, honoring double-quoted fields
+ * (which may contain delimiters, escaped quotes and line breaks).
+ * Each row carries the 1-based line number it starts on.
+ */
+export const parseDelimited = (
+  text: string,
+  delimiter = ",",
+): { fields: string[]; line: number }[] => {
+  const rows: { fields: string[]; line: number }[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    fields.push(field);
+    // Skip blank lines
+    if (fields.length > 1 || fields[0].trim() !== "") {
+      rows.push({ fields, line: rowLine });
+    }
+    fields = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (inQuotes) {
+      if (c === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (c === "\n") line++;
+        field += c;
+      }
+    } else if (c === '"' && field.trim() === "") {
+      field = "";
+      inQuotes = true;
+    } else if (c === delimiter) {
+      fields.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += c;
+    }
+  }
+  if (field !== "" || fields.length > 0) endRow();
+
+  return rows;
+};
+
+export interface ParsedCSV {
+  points: TrackPoint[];
+  objects: TrackedObject[];
+}
+
+export const CSV_DELIMITERS = [",", ";", "\t", "|"];
+
+/**
+ * Guesses the delimiter from the first lines: the one splitting them into the same
+ * (largest) number of fields. Falls back to a comma.
+ */
+export const detectDelimiter = (text: string): string => {
+  const sample = text.split(/\r?\n/).slice(0, 20).join("\n");
+  let best = { delimiter: ",", fields: 1, consistent: false };
+  CSV_DELIMITERS.forEach((delimiter) => {
+    const counts = parseDelimited(sample, delimiter).map(
+      (r) => r.fields.length,
+    );
+    if (counts.length === 0) return;
+    const fields = Math.min(...counts);
+    const consistent = counts.every((c) => c === counts[0]);
+    if (fields < 2) return;
+    if (
+      (consistent && !best.consistent) ||
+      (consistent === best.consistent && fields > best.fields)
+    ) {
+      best = { delimiter, fields, consistent };
+    }
+  });
+  return best.delimiter;
+};
+
+const isNumeric = (field: string) =>
+  field.trim() !== "" && !isNaN(Number(field));
+
+// Header names recognized for each column, in order of preference
+const COLUMN_NAMES: Record<
+  | "objectId"
+  | "x"
+  | "y"
+  | "width"
+  | "height"
+  | "name"
+  | "category"
+  | "color"
+  | "visibility"
+  | "confidence"
+  | "note"
+  | "interpolated",
+  string[]
+> = {
+  objectId: ["object_id", "id", "track_id", "track", "object", "individual"],
+  x: ["x", "pos_x", "x_px"],
+  y: ["y", "pos_y", "y_px"],
+  width: ["w", "width"],
+  height: ["h", "height"],
+  name: ["object_name", "name"],
+  category: ["object_category", "category", "class"],
+  color: ["object_color", "color"],
+  visibility: ["visibility"],
+  confidence: ["confidence"],
+  note: ["note", "comment"],
+  interpolated: ["interpolated"],
+};
+
+const TIME_NAMES: [string, TimeUnit][] = [
+  ["timestamp_ms", "ms"],
+  ["time_ms", "ms"],
+  ["ms", "ms"],
+  ["frame", "frame"],
+  ["frame_idx", "frame"],
+  ["frame_index", "frame"],
+  ["time_s", "s"],
+  ["time", "s"],
+  ["seconds", "s"],
+  ["timestamp", "ms"],
+];
+
+/**
+ * Proposes a column mapping from the header names.
+ * Files without a header use the legacy order timestamp_ms, object_id, x, y.
+ */
+export const guessCSVMapping = (
+  text: string,
+  delimiter = detectDelimiter(text),
+): CSVColumnMapping => {
+  const first = parseDelimited(text, delimiter)[0]?.fields ?? [];
+  const hasHeader = first.some((f) => f.trim() !== "" && !isNumeric(f));
+  if (!hasHeader) {
+    return {
+      delimiter,
+      hasHeader,
+      time: 0,
+      timeUnit: "ms",
+      objectId: 1,
+      x: 2,
+      y: 3,
+      width: -1,
+      height: -1,
+      name: -1,
+      category: -1,
+      color: -1,
+      visibility: -1,
+      confidence: -1,
+      note: -1,
+      interpolated: -1,
+      keypoints: false,
+    };
+  }
+
+  const header = first.map((f) => f.trim().toLowerCase());
+  const find = (names: string[]) =>
+    names.map((n) => header.indexOf(n)).find((i) => i >= 0) ?? -1;
+  const time = TIME_NAMES.find(([n]) => header.includes(n));
+  return {
+    delimiter,
+    hasHeader,
+    time: time ? header.indexOf(time[0]) : -1,
+    timeUnit: time?.[1] ?? "ms",
+    objectId: find(COLUMN_NAMES.objectId),
+    x: find(COLUMN_NAMES.x),
+    y: find(COLUMN_NAMES.y),
+    width: find(COLUMN_NAMES.width),
+    height: find(COLUMN_NAMES.height),
+    name: find(COLUMN_NAMES.name),
+    category: find(COLUMN_NAMES.category),
+    color: find(COLUMN_NAMES.color),
+    visibility: find(COLUMN_NAMES.visibility),
+    confidence: find(COLUMN_NAMES.confidence),
+    note: find(COLUMN_NAMES.note),
+    interpolated: find(COLUMN_NAMES.interpolated),
+    keypoints: true,
+  };
+};
+
+// Keypoint column sets: "<name>_x" followed by "<name>_y"
+export const getKeypointColumns = (header: string[]) =>
+  header.flatMap((h, i) => {
+    const match = /^(.+)_x$/.exec(h);
+    return match && header[i + 1] === `${match[1]}_y`
+      ? [{ keypoint: match[1], xCol: i, yCol: i + 1 }]
+      : [];
+  });
+
+interface PointAnnotations {
+  visibility: PointVisibility;
+  confidence?: PointConfidence;
+  note: string; // Empty = no note
+}
+
+export interface MappedCSV extends ParsedCSV {
+  rowCount: number; // Data rows (without the header)
+  rejected: RejectedRow[];
+}
+
+/**
+ * Parse delimited text with an explicit column mapping (and the object table, if
+ * name/category/color columns are mapped). Rows that cannot be imported are reported
+ * with their line number and the reason instead of being dropped silently.
+ * Rows flagged in the interpolated column are skipped, as they are derived data.
+ * Entries without a location (empty x/y) are kept when their visibility says so.
+ */
+export const parseMappedCSV = (
+  text: string,
+  mapping: CSVColumnMapping,
+  fps: number,
+): MappedCSV => {
+  const rows = parseDelimited(text, mapping.delimiter);
   const points: TrackPoint[] = [];
-  // Skip header if present
-  const startIndex = lines[0].includes("timestamp_ms") ? 1 : 0;
-
-  for (let i = startIndex; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-    const [ts, objId, x, y] = line.split(",").map(Number);
-    if (!isNaN(ts) && !isNaN(objId) && !isNaN(x) && !isNaN(y)) {
-      points.push({
-        id: `${ts}-${objId}`,
+  const objects = new Map<number, TrackedObject>();
+  const rejected: RejectedRow[] = [];
+  const firstLine = new Map<string, number>(); // Point id -> line
+  if (rows.length === 0) return { points, objects: [], rowCount: 0, rejected };
+
+  const header = mapping.hasHeader ? rows[0].fields.map((f) => f.trim()) : [];
+  // Keypoint annotations follow the "<name>_<column>" naming of the export
+  const keypointCols = (
+    mapping.keypoints ? getKeypointColumns(header) : []
+  ).map((k) => ({
+    ...k,
+    visibilityCol: header.indexOf(`${k.keypoint}_visibility`),
+    confidenceCol: header.indexOf(`${k.keypoint}_confidence`),
+    noteCol: header.indexOf(`${k.keypoint}_note`),
+  }));
+
+  const valueAt = (fields: string[], c: number) =>
+    c >= 0 && c < fields.length ? fields[c].trim() : "";
+  // Files not separated by commas may use decimal commas
+  const decimalComma = mapping.delimiter !== ",";
+  const numberAt = (fields: string[], c: number) => {
+    const value = valueAt(fields, c);
+    if (value === "") return NaN;
+    return Number(decimalComma ? value.replace(",", ".") : value);
+  };
+
+  // Visibility, confidence and note of a point, or why they cannot be read.
+  // Visibilities may also be written as labels, e.g. "out of frame".
+  const annotationsAt = (
+    fields: string[],
+    visibilityCol: number,
+    confidenceCol: number,
+    noteCol: number,
+  ): PointAnnotations | string => {
+    const visibilityValue = valueAt(fields, visibilityCol);
+    const visibility =
+      visibilityValue === ""
+        ? "visible"
+        : POINT_VISIBILITIES.find(
+            (v) => v === visibilityValue.toLowerCase().replace(/ /g, "-"),
+          );
+    if (!visibility) return `Unknown visibility ("${visibilityValue}")`;
+    const confidenceValue = valueAt(fields, confidenceCol);
+    const confidence = POINT_CONFIDENCES.find(
+      (c) => c === confidenceValue.toLowerCase(),
+    );
+    if (confidenceValue !== "" && !confidence) {
+      return `Unknown confidence ("${confidenceValue}")`;
+    }
+    return { visibility, confidence, note: valueAt(fields, noteCol) };
+  };
+  // Optional point fields, only set when they differ from the defaults
+  const annotationFields = ({
+    visibility,
+    confidence,
+    note,
+  }: PointAnnotations) => ({
+    ...(visibility !== "visible" ? { visibility } : {}),
+    ...(confidence ? { confidence } : {}),
+    ...(note ? { note } : {}),
+  });
+  const isLocated = (visibility: PointVisibility) =>
+    visibility !== "out-of-frame" && visibility !== "not-applicable";
+
+  const dataRows = rows.slice(mapping.hasHeader ? 1 : 0);
+  dataRows.forEach(({ fields, line }) => {
+    const reject = (reason: string) => rejected.push({ line, reason });
+    if (valueAt(fields, mapping.interpolated) === "1") return;
+
+    const time = numberAt(fields, mapping.time);
+    if (isNaN(time)) {
+      return reject(
+        `Time is not a number ("${valueAt(fields, mapping.time)}")`,
+      );
+    }
+    if (time < 0) return reject("Time is negative");
+    if (mapping.timeUnit === "frame" && !Number.isInteger(time)) {
+      return reject(`Frame index is not an integer (${time})`);
+    }
+    const ts =
+      mapping.timeUnit === "frame"
+        ? getFrameTime(time, fps)
+        : mapping.timeUnit === "s"
+          ? time * 1000
+          : time;
+
+    const objId = numberAt(fields, mapping.objectId);
+    if (!Number.isInteger(objId) || objId < 1) {
+      return reject(
+        `Object ID is not a positive integer ("${valueAt(fields, mapping.objectId)}")`,
+      );
+    }
+
+    const rowPoints: TrackPoint[] = [];
+    const annotations = annotationsAt(
+      fields,
+      mapping.visibility,
+      mapping.confidence,
+      mapping.note,
+    );
+    if (typeof annotations === "string") return reject(annotations);
+    const x = numberAt(fields, mapping.x);
+    const y = numberAt(fields, mapping.y);
+    const hasX = valueAt(fields, mapping.x) !== "";
+    const hasY = valueAt(fields, mapping.y) !== "";
+    if (!isLocated(annotations.visibility)) {
+      rowPoints.push({
+        id: getPointId(ts, objId),
+        timestamp: ts,
+        objectId: objId,
+        x: NaN,
+        y: NaN,
+        ...annotationFields(annotations),
+      });
+    } else if (hasX || hasY) {
+      if (isNaN(x) || isNaN(y)) {
+        return reject(
+          `Coordinates are not numbers ("${valueAt(fields, mapping.x)}", "${valueAt(fields, mapping.y)}")`,
+        );
+      }
+      const w = numberAt(fields, mapping.width);
+      const h = numberAt(fields, mapping.height);
+      rowPoints.push({
+        id: getPointId(ts, objId),
         timestamp: ts,
         objectId: objId,
         x,
         y,
+        ...(w > 0 && h > 0 ? { width: w, height: h } : {}),
+        ...annotationFields(annotations),
       });
     }
-  }
-  return points;
+    for (const k of keypointCols) {
+      const keypointAnnotations = annotationsAt(
+        fields,
+        k.visibilityCol,
+        k.confidenceCol,
+        k.noteCol,
+      );
+      if (typeof keypointAnnotations === "string") {
+        return reject(`${keypointAnnotations} of keypoint "${k.keypoint}"`);
+      }
+      const located = isLocated(keypointAnnotations.visibility);
+      const kx = located ? numberAt(fields, k.xCol) : NaN;
+      const ky = located ? numberAt(fields, k.yCol) : NaN;
+      if (located && (isNaN(kx) || isNaN(ky))) continue;
+      rowPoints.push({
+        id: getPointId(ts, objId, k.keypoint),
+        timestamp: ts,
+        objectId: objId,
+        x: kx,
+        y: ky,
+        keypoint: k.keypoint,
+        ...annotationFields(keypointAnnotations),
+      });
+    }
+    if (rowPoints.length === 0) return reject("No coordinates");
+
+    const duplicate = rowPoints.find((p) => firstLine.has(p.id));
+    if (duplicate) {
+      return reject(
+        `Same object and time as line ${firstLine.get(duplicate.id)}`,
+      );
+    }
+    rowPoints.forEach((p) => firstLine.set(p.id, line));
+    points.push(...rowPoints);
+
+    if (!objects.has(objId) && (mapping.name >= 0 || mapping.category >= 0)) {
+      const color = valueAt(fields, mapping.color);
+      objects.set(
+        objId,
+        createObject(objId, {
+          name: valueAt(fields, mapping.name),
+          category: valueAt(fields, mapping.category),
+          ...(/^#[0-9a-f]{6}$/i.test(color) ? { color } : {}),
+        }),
+      );
+    }
+  });
+
+  return {
+    points,
+    objects: [...objects.values()],
+    rowCount: dataRows.length,
+    rejected,
+  };
 };
 
-// Export Points to CSV
-export const pointsToCSV = (points: TrackPoint[]): string => {
-  // Sort by timestamp then object ID
-  const sorted = [...points].sort((a, b) => {
-    if (a.timestamp !== b.timestamp) return a.timestamp - b.timestamp;
-    return a.objectId - b.objectId;
+// Parse CSV to Points (and the object table, if name/category/color columns are present)
+export const parseCSV = (csvText: string, fps = 0): ParsedCSV => {
+  const { points, objects } = parseMappedCSV(
+    csvText,
+    guessCSVMapping(csvText),
+    fps,
+  );
+  return { points, objects };
+};
+
+export interface CSVExportOptions {
+  keypointSchemas?: KeypointSchema[]; // Column order of keypoints
+  regions?: Region[]; // Adds the names of the regions containing each point
+  calibration?: ScaleCalibration | null; // Adds real-world columns next to the pixel ones
+}
+
+/**
+ * Export Points to CSV.
+ * One row per object and time; keypoints are written as "<name>_x,<name>_y" column sets.
+ * Box sizes go into "w,h" columns next to the (center) x,y.
+ * With a calibration, coordinate columns are followed by "<column>_<unit>" copies.
+ */
+export const pointsToCSV = (
+  points: TrackPoint[],
+  objects: TrackedObject[],
+  {
+    keypointSchemas = [],
+    regions = [],
+    calibration = null,
+  }: CSVExportOptions = {},
+): string => {
+  const byId = new Map(objects.map((o) => [o.id, o]));
+
+  // Keypoint columns in schema order, then any names only found in the data
+  const keypoints = new Set(keypointSchemas.flatMap((s) => s.keypoints));
+  points.forEach((p) => p.keypoint !== undefined && keypoints.add(p.keypoint));
+
+  // Group into rows, sorted by timestamp then object ID
+  const rows = new Map<string, TrackPoint[]>();
+  points.forEach((p) => {
+    const key = `${p.timestamp}|${p.objectId}`;
+    const row = rows.get(key);
+    if (row) row.push(p);
+    else rows.set(key, [p]);
   });
+  const sorted = [...rows.values()].sort((a, b) => {
+    if (a[0].timestamp !== b[0].timestamp) {
+      return a[0].timestamp - b[0].timestamp;
+    }
+    return a[0].objectId - b[0].objectId;
+  });
+
+  // The flag column is only written when interpolated rows are exported
+  const withFlag = points.some((p) => p.interpolated);
+  const withBoxes = points.some(hasBox);
+  const withRegions = regions.length > 0;
+  // Visibility columns are only written once a point is not plainly visible
+  const withVisibility = points.some((p) => p.visibility !== undefined);
+  const visibilityField = (p?: TrackPoint) =>
+    p ? (p.visibility ?? "visible") : "";
+  // Same for the annotator's confidence ratings and notes
+  const withConfidence = points.some((p) => p.confidence !== undefined);
+  const withNotes = points.some((p) => p.note !== undefined);
+  const annotationFields = (p?: TrackPoint) => [
+    ...(withConfidence ? [p?.confidence ?? ""] : []),
+    ...(withNotes ? [escapeCSVField(p?.note ?? "")] : []),
+  ];
+  // Region names are separated by semicolons within the field
+  const regionField = (p?: TrackPoint) =>
+    p ? escapeCSVField(getRegionNames(p.x, p.y, regions).join(";")) : "";
 
-  let csv = "timestamp_ms,object_id,x,y\n";
-  sorted.forEach((p) => {
-    csv += `${p.timestamp},${p.objectId},${p.x},${p.y}\n`;
+  const scale = calibration ? getUnitsPerPixel(calibration) : 0;
+  const unit = calibration?.unit.trim() || "unit";
+  // Pixel columns, followed by their calibrated copies if requested
+  // (keeps "<name>_x,<name>_y" adjacent for re-import)
+  const columns = (...names: string[]) => [
+    ...names,
+    ...(calibration ? names.map((n) => `${n}_${unit}`) : []),
+  ];
+  // Entries without a location leave their coordinates empty
+  const values = (...pixels: (number | undefined)[]) => [
+    ...pixels.map((v) => (v === undefined || isNaN(v) ? "" : v)),
+    ...(calibration
+      ? pixels.map((v) => (v === undefined || isNaN(v) ? "" : v * scale))
+      : []),
+  ];
+
+  const header = [
+    "timestamp_ms",
+    "object_id",
+    ...columns("x", "y"),
+    ...(withBoxes ? columns("w", "h") : []),
+    ...(withRegions ? ["regions"] : []),
+    ...(withVisibility ? ["visibility"] : []),
+    ...(withConfidence ? ["confidence"] : []),
+    ...(withNotes ? ["note"] : []),
+    ...[...keypoints].flatMap((k) => [
+      ...columns(`${k}_x`, `${k}_y`),
+      ...(withRegions ? [`${k}_regions`] : []),
+      ...(withVisibility ? [`${k}_visibility`] : []),
+      ...(withConfidence ? [`${k}_confidence`] : []),
+      ...(withNotes ? [`${k}_note`] : []),
+    ]),
+    "object_name",
+    "object_category",
+    "object_color",
+    ...(withFlag ? ["interpolated"] : []),
+  ];
+
+  let csv = header.map(escapeCSVField).join(",") + "\n";
+  sorted.forEach((row) => {
+    const { timestamp, objectId } = row[0];
+    const obj = byId.get(objectId) ?? createObject(objectId);
+    const single = row.find((p) => p.keypoint === undefined);
+    const byKeypoint = new Map(row.map((p) => [p.keypoint, p]));
+    const fields: (string | number)[] = [
+      timestamp,
+      objectId,
+      ...values(single?.x, single?.y),
+      ...(withBoxes ? values(single?.width, single?.height) : []),
+      ...(withRegions ? [regionField(single)] : []),
+      ...(withVisibility ? [visibilityField(single)] : []),
+      ...annotationFields(single),
+      ...[...keypoints].flatMap((k): (string | number)[] => {
+        const p = byKeypoint.get(k);
+        return [
+          ...values(p?.x, p?.y),
+          ...(withRegions ? [regionField(p)] : []),
+          ...(withVisibility ? [visibilityField(p)] : []),
+          ...annotationFields(p),
+        ];
+      }),
+      escapeCSVField(obj.name),
+      escapeCSVField(obj.category),
+      obj.color,
+    ];
+    // A row counts as interpolated only if none of its points was logged
+    if (withFlag) fields.push(row.every((p) => p.interpolated) ? 1 : 0);
+    csv += fields.join(",");
+    csv += "\n";
   });
   return csv;
 };
 
-export const generateColor = (isActive: boolean) => {
-  // Hex colors matching the Python spec
-  return isActive ? "#EF8A62" : "#67A9CF";
+// --- MOTChallenge ---
+
+export interface MOTExportOptions {
+  boxSize?: number; // px, square box for points logged without one
+}
+
+const roundTo2 = (v: number) => Math.round(v * 100) / 100;
+
+/**
+ * Export to the MOTChallenge ground truth format ("gt.txt"):
+ * frame,id,bb_left,bb_top,bb_width,bb_height,conf,class,visibility.
+ * Frames are 1-based frame indices; conf and class are written as 1, visibility as 0
+ * for occluded estimates and 1 otherwise. Entries without a location and keypoints
+ * (no equivalent in the format) are skipped.
+ */
+export const pointsToMOT = (
+  points: TrackPoint[],
+  fps: number,
+  { boxSize = DEFAULT_SETTINGS.motBoxSize }: MOTExportOptions = {},
+): string => {
+  const rows = points
+    .filter((p) => p.keypoint === undefined && hasLocation(p))
+    .map((p) => {
+      const width = hasBox(p) ? p.width : boxSize;
+      const height = hasBox(p) ? p.height : boxSize;
+      return {
+        frame: getFrameIndex(p.timestamp, fps) + 1,
+        id: p.objectId,
+        fields: [p.x - width / 2, p.y - height / 2, width, height].map(
+          roundTo2,
+        ),
+        // Occluded estimates count as fully hidden
+        visibility: p.visibility === "occluded" ? 0 : 1,
+      };
+    })
+    .sort((a, b) => a.frame - b.frame || a.id - b.id);
+
+  return rows
+    .map(
+      (r) => [r.frame, r.id, ...r.fields, 1, 1, r.visibility].join(",") + "\n",
+    )
+    .join("");
+};
+
+/**
+ * Parse MOTChallenge ground truth (or tracker output) into box points.
+ * Entries with conf 0 (ignored by the evaluation) and without an identity (id < 1) are skipped.
+ */
+export const parseMOT = (text: string, fps: number): ParsedCSV => {
+  const points = new Map<string, TrackPoint>();
+  parseDelimited(text).forEach(({ fields }) => {
+    const [frame, id, left, top, width, height, conf] = fields.map((f) =>
+      f.trim() === "" ? NaN : Number(f),
+    );
+    if (![frame, id, left, top, width, height].every(Number.isFinite)) return;
+    if (!Number.isInteger(frame) || frame < 1) return;
+    if (!Number.isInteger(id) || id < 1) return;
+    if (conf === 0) return;
+
+    const timestamp = getFrameTime(frame - 1, fps);
+    const pointId = getPointId(timestamp, id);
+    // One box per object and frame, the first entry wins
+    if (points.has(pointId)) return;
+    points.set(pointId, {
+      id: pointId,
+      timestamp,
+      objectId: id,
+      x: left + width / 2,
+      y: top + height / 2,
+      ...(width > 0 && height > 0 ? { width, height } : {}),
+    });
+  });
+  return { points: [...points.values()], objects: [] };
 };